@@ -28,12 +28,6 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/**',
       },
-      {
-        protocol: 'https',
-        hostname: 'api.qrserver.com',
-        port: '',
-        pathname: '/**',
-      },
       {
         protocol: 'https',
         hostname: 'firebasestorage.googleapis.com',
@@ -42,6 +36,8 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // Tesseract starts its OCR worker from a script path, which bundling breaks.
+  serverExternalPackages: ['tesseract.js'],
   serverActions: {
     bodySizeLimit: '10mb', // For file uploads
     // Increase timeout for long-running actions like video generation
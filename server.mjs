@@ -0,0 +1,29 @@
+/**
+ * Serves the app. Next.js does not tell server actions which address a request came
+ * from, so each request is passed on with the address of its connection in
+ * `x-connection-address`, replacing any value the client sent. `clientIp` relies on it.
+ *
+ * Usage: npm run dev | npm start (PORT sets the port: 9002 in development, 3000 otherwise)
+ */
+import { createServer } from 'node:http';
+import next from 'next';
+
+const dev = process.argv.includes('--dev');
+const port = Number(process.env.PORT ?? (dev ? 9002 : 3000));
+
+async function main() {
+    const app = next({ dev, turbopack: dev, port });
+    const handle = app.getRequestHandler();
+    await app.prepare();
+    createServer((req, res) => {
+        req.headers['x-connection-address'] = req.socket.remoteAddress ?? '';
+        handle(req, res);
+    }).listen(port, () => {
+        console.log(`Ready on http://localhost:${port}`);
+    });
+}
+
+main().catch(error => {
+    console.error('Server failed to start:', error);
+    process.exit(1);
+});
@@ -0,0 +1,69 @@
+'use server';
+/**
+ * @fileOverview Checks a UPI payment screenshot against a registration.
+ *
+ * - verifyUtrFromScreenshot - Looks for the UTR and payment reference on the screenshot
+ *   and reads the amount and date paid.
+ * - VerifyUtrInput - The input type for verifyUtrFromScreenshot.
+ * - VerifyUtrOutput - The return type for verifyUtrFromScreenshot.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+
+const VerifyUtrInputSchema = z.object({
+  screenshotDataUri: z
+    .string()
+    .describe(
+      "A screenshot of the payment, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  utr: z.string().describe('The UTR number the team entered.'),
+  paymentReference: z.string().describe('The reference the team was given to put in the payment note, e.g. TF7K3M9Q2XPA.'),
+  expectedAmount: z.number().describe('The entry fee in rupees.'),
+});
+export type VerifyUtrInput = z.infer<typeof VerifyUtrInputSchema>;
+
+const VerifyUtrOutputSchema = z.object({
+  isUtrMatch: z.boolean().describe('Whether the UTR entered appears on the screenshot.'),
+  isReferenceMatch: z.boolean().describe('Whether the payment reference appears on the screenshot, e.g. in the note or remarks.'),
+  amountPaid: z.number().nullable().describe('The amount paid in rupees, as shown on the screenshot, or null if it cannot be read.'),
+  transactionDate: z
+    .string()
+    .nullable()
+    .describe('The date and time of the payment as shown on the screenshot, as YYYY-MM-DD HH:mm, or null if it cannot be read.'),
+  reason: z.string().describe('A short explanation of the result, for the team if it failed.'),
+});
+export type VerifyUtrOutput = z.infer<typeof VerifyUtrOutputSchema>;
+
+export async function verifyUtrFromScreenshot(input: VerifyUtrInput): Promise<VerifyUtrOutput> {
+  return verifyUtrFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'verifyUtrPrompt',
+  input: { schema: VerifyUtrInputSchema },
+  output: { schema: VerifyUtrOutputSchema },
+  prompt: `You check UPI payment screenshots for a tournament's entry fee.
+
+Screenshot: {{media url=screenshotDataUri}}
+
+The team says they paid with UTR (UPI transaction reference) {{{utr}}}, and was asked to put {{{paymentReference}}} in the payment note. The entry fee is {{{expectedAmount}}} rupees.
+
+- Set isUtrMatch to true only if the UTR {{{utr}}} appears on the screenshot, digit for digit.
+- Set isReferenceMatch to true only if {{{paymentReference}}} appears on the screenshot, e.g. in the note, message or remarks. Do not guess from a partial match.
+- Set amountPaid to the amount paid, in rupees, exactly as shown. Do not assume it is {{{expectedAmount}}}; if you cannot read it, set it to null.
+- Set transactionDate to the date and time of the payment as shown, as YYYY-MM-DD HH:mm without converting time zones, or null if you cannot read it.
+- In reason, briefly say what you found. If the UTR does not match, say so plainly, as the team will see it.`,
+});
+
+const verifyUtrFlow = ai.defineFlow(
+  {
+    name: 'verifyUtrFlow',
+    inputSchema: VerifyUtrInputSchema,
+    outputSchema: VerifyUtrOutputSchema,
+  },
+  async input => {
+    const { output } = await prompt(input);
+    return output!;
+  }
+);
@@ -0,0 +1,7 @@
+import { genkit } from 'genkit';
+import { googleAI } from '@genkit-ai/googleai';
+
+export const ai = genkit({
+  plugins: [googleAI()],
+  model: 'googleai/gemini-2.0-flash',
+});
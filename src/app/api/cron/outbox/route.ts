@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { deliverDueEmails } from '@/lib/email';
+import { deliverDuePhoneMessages } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled retry of queued emails and WhatsApp/SMS messages for hosts that trigger jobs over HTTP.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const emails = await deliverDueEmails();
+    const messages = await deliverDuePhoneMessages();
+    return NextResponse.json({ emails, messages });
+}
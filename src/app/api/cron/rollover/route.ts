@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { rolloverAllTournaments } from '@/lib/rollover';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled week rollover for hosts that trigger jobs over HTTP.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const { results, failures } = await rolloverAllTournaments();
+    return NextResponse.json({ results, failures }, { status: failures.length > 0 ? 500 : 200 });
+}
@@ -0,0 +1,70 @@
+import { redirect } from 'next/navigation';
+import { Medal } from 'lucide-react';
+import { formatRupees } from '@/lib/tournaments';
+import { getPrizeClaim, submitPrizeClaim } from '../src/app/actions';
+
+async function submitClaim(formData: FormData) {
+  'use server';
+  const token = String(formData.get('token') ?? '');
+  const result = await submitPrizeClaim(formData);
+  const query = result.success ? 'submitted=1' : `error=${encodeURIComponent(result.error ?? 'Something went wrong.')}`;
+  redirect(`/claim?token=${encodeURIComponent(token)}&${query}`);
+}
+
+const inputClass = 'w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+export default async function ClaimPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; submitted?: string; error?: string }>;
+}) {
+  const { token = '', submitted, error } = await searchParams;
+  const claim = await getPrizeClaim(token);
+
+  return (
+    <div className="flex flex-col min-h-dvh">
+      <main className="flex-grow container mx-auto px-4 py-8 md:py-12">
+        <section className="interactive-card max-w-xl mx-auto rounded-lg border bg-card text-card-foreground shadow-sm">
+          <div className="flex flex-row items-center gap-3 p-6">
+            <Medal className="w-8 h-8 text-primary" />
+            <h1 className="text-2xl font-semibold leading-none tracking-tight">Claim Your Prize</h1>
+          </div>
+          <div className="space-y-4 p-6 pt-0">
+            {!claim.success || !claim.data ? (
+              <p className="text-destructive">{claim.error}</p>
+            ) : claim.data.status === 'claimed' ? (
+              <p>
+                {submitted
+                  ? 'Thank you! We have your payout details and will send your prize shortly.'
+                  : 'Your payout details have already been submitted. Contact us if they need to change.'}
+              </p>
+            ) : (
+              <>
+                <p>
+                  Congratulations, <strong>{claim.data.teamName}</strong>, on {claim.data.rank} place in {claim.data.tournamentName}!
+                  Tell us where to send your prize of <strong>{formatRupees(claim.data.prize)}</strong>.
+                </p>
+                {error && <p className="text-destructive">{error}</p>}
+                <form action={submitClaim} className="space-y-4">
+                  <input type="hidden" name="token" value={token} />
+                  <div className="space-y-2">
+                    <label htmlFor="upiId" className="text-sm font-medium">UPI ID</label>
+                    <input id="upiId" name="upiId" required placeholder="name@okhdfcbank" className={inputClass} />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="accountHolder" className="text-sm font-medium">Account holder name</label>
+                    <input id="accountHolder" name="accountHolder" required maxLength={100} className={inputClass} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">Please check your details carefully. They can only be submitted once.</p>
+                  <button type="submit" className="w-full rounded-md bg-primary px-4 py-2 font-semibold text-primary-foreground">
+                    Submit Payout Details
+                  </button>
+                </form>
+              </>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
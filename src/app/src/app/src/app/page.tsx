@@ -1,16 +1,30 @@
-'use client';
-
+import { notFound } from 'next/navigation';
 import Header from '@/components/header';
 import Footer from '@/components/footer';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Medal, CalendarClock, ShieldQuestion, Heart, ListChecks, Swords, IndianRupee } from 'lucide-react';
+import { Medal, CalendarClock, ShieldQuestion, Heart, ListChecks, Swords, IndianRupee, Users } from 'lucide-react';
 import WelcomeHandler from '@/components/welcome-handler';
 import RegistrationCounter from '@/components/registration-counter';
 import RegistrationForm from '@/components/registration-form';
+import { FAIR_PLAY_RULES } from '@/lib/fair-play';
+import { getDataStore } from '@/lib/repository';
+import {
+  DEFAULT_TOURNAMENT_ID,
+  dayName,
+  describeRegistrationWindow,
+  describeStartTime,
+  formatRupees,
+  formatTimeOfDay,
+  getTournament,
+  ordinal,
+} from '@/lib/tournaments';
+import type { ScheduledLobby, Tournament } from '@/lib/types';
+import { getSchedule } from './src/app/actions';
 
+function HomePageContent({ tournament, lobbies }: { tournament: Tournament; lobbies: ScheduledLobby[] }) {
+  const { matchFormat } = tournament;
 
-function HomePageContent() {
   return (
     <div className="flex flex-col min-h-dvh">
       <Header />
@@ -30,7 +44,7 @@ function HomePageContent() {
                 <CardContent>
                   <ol className="space-y-3 list-decimal list-inside text-muted-foreground">
                     <li>Fill out the complete registration form with your team details.</li>
-                    <li>Pay the entry fee of ₹100 using the provided UPI ID or QR code.</li>
+                    <li>Pay the entry fee of {formatRupees(tournament.entryFee)} using the provided UPI ID or QR code.</li>
                     <li>Enter the UTR number from your payment in the form.</li>
                     <li>After successful registration, join the official WhatsApp group for all match schedules and updates.</li>
                   </ol>
@@ -44,9 +58,12 @@ function HomePageContent() {
                 </CardHeader>
                 <CardContent>
                    <ul className="space-y-2 list-disc list-inside text-muted-foreground">
-                    <li><span className="font-semibold text-foreground/90">Entry Fee:</span> ₹100 per team</li>
-                    <li><span className="font-semibold text-foreground/90">1st Place Prize:</span> ₹750</li>
-                    <li><span className="font-semibold text-foreground/90">2nd Place Prize:</span> ₹120</li>
+                    <li><span className="font-semibold text-foreground/90">Entry Fee:</span> {formatRupees(tournament.entryFee)} per team</li>
+                    {tournament.prizes.map(prize => (
+                      <li key={prize.rank}>
+                        <span className="font-semibold text-foreground/90">{ordinal(prize.rank)} Place Prize:</span> {formatRupees(prize.amount)}
+                      </li>
+                    ))}
                     <li className='pt-2'><IndianRupee className="inline-block w-4 h-4 mr-1"/>Prizes are sent via UPI within 24 hours of winner announcement.</li>
                   </ul>
                 </CardContent>
@@ -59,9 +76,11 @@ function HomePageContent() {
                 </CardHeader>
                 <CardContent>
                   <ul className="space-y-2 list-disc list-inside text-muted-foreground">
-                      <li><span className="font-semibold text-foreground/90">Mode:</span> Battle royale</li>
-                      <li><span className="font-semibold text-foreground/90">Map:</span> Barmuda</li>
-                      <li><span className="font-semibold text-foreground/90">Team:</span> Squad</li>
+                      <li><span className="font-semibold text-foreground/90">Mode:</span> {matchFormat.mode}</li>
+                      <li><span className="font-semibold text-foreground/90">Map:</span> {matchFormat.map}</li>
+                      <li><span className="font-semibold text-foreground/90">Team:</span> {matchFormat.teamType}</li>
+                      <li><span className="font-semibold text-foreground/90">Slots:</span> {tournament.totalSlots} teams</li>
+                      <li><span className="font-semibold text-foreground/90">Player Level:</span> {tournament.minPlayerLevel} or above</li>
                   </ul>
                 </CardContent>
               </Card>
@@ -73,10 +92,9 @@ function HomePageContent() {
                 </CardHeader>
                 <CardContent>
                   <ul className="space-y-2 list-disc list-inside text-muted-foreground">
-                    <li>No hacking, cheating, or use of third-party tools.</li>
-                    <li>Use of panel or any configuration file is strictly prohibited.</li>
-                    <li>No teaming up with opponent teams.</li>
-                    <li>Abusive language towards players or admins will lead to a ban.</li>
+                    {FAIR_PLAY_RULES.map(rule => (
+                      <li key={rule.id}>{rule.text}</li>
+                    ))}
                     <li>Any player found breaking rules will result in disqualification of the entire team.</li>
                   </ul>
                 </CardContent>
@@ -89,14 +107,33 @@ function HomePageContent() {
                 </CardHeader>
                 <CardContent>
                   <ul className="space-y-2 text-muted-foreground">
-                    <li><span className="font-semibold text-foreground/90">Registration:</span> Monday (12:30 AM) to Sunday (10:00 PM)</li>
-                    <li><span className="font-semibold text-foreground/90">Match Day:</span> Every Sunday</li>
-                    <li><span className="font-semibold text-foreground/90">Room ID & Pass:</span> Sent at 08:25 PM in the WhatsApp group</li>
-                    <li><span className="font-semibold text-foreground/90">Match Start Time:</span> 08:35 PM sharp</li>
+                    <li><span className="font-semibold text-foreground/90">Registration:</span> {describeRegistrationWindow(tournament)}</li>
+                    <li><span className="font-semibold text-foreground/90">Match Day:</span> Every {dayName(matchFormat.matchDay)}</li>
+                    <li><span className="font-semibold text-foreground/90">Room ID & Pass:</span> Emailed to confirmed teams at {formatTimeOfDay(matchFormat.roomDetailsAt)}, and shown on your team page (UTR and phone number)</li>
+                    <li><span className="font-semibold text-foreground/90">Match Start Time:</span> {formatTimeOfDay(matchFormat.matchStartAt)} sharp</li>
                   </ul>
                 </CardContent>
               </Card>
 
+              {lobbies.length > 0 && (
+                <Card className="interactive-card md:col-span-2">
+                  <CardHeader className="flex flex-row items-center gap-3">
+                    <Users className="w-8 h-8 text-accent" />
+                    <CardTitle className="text-accent">Lobby Schedule</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-3 text-muted-foreground">
+                      {lobbies.map(lobby => (
+                        <li key={`${lobby.stageName}-${lobby.lobby}`}>
+                          <span className="font-semibold text-foreground/90">{lobby.stageName}, Lobby {lobby.lobby}:</span> {describeStartTime(tournament, lobby.startsAt)}
+                          <p className="text-sm">{lobby.teams.join(', ')}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+
                <Card className="interactive-card">
                 <CardHeader className="flex flex-row items-center gap-3">
                   <Heart className="w-8 h-8 text-accent" />
@@ -119,10 +156,19 @@ function HomePageContent() {
 }
 
 
-export default function Home() {
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ tournament?: string }>;
+}) {
+  const { tournament: tournamentId = DEFAULT_TOURNAMENT_ID } = await searchParams;
+  const tournament = await getDataStore().transaction(repo => getTournament(repo, tournamentId));
+  if (!tournament) notFound();
+  const { lobbies } = await getSchedule(tournament.id);
+
   return (
     <WelcomeHandler>
-      <HomePageContent />
+      <HomePageContent tournament={tournament} lobbies={lobbies} />
     </WelcomeHandler>
   );
       }
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import Module from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, mock, test } from 'node:test';
+import sharp from 'sharp';
+import type { AiPaymentCheckInput } from '@/lib/payment-verification';
+
+// registerTeam runs end to end on a temporary store. Only what can't run here is
+// stubbed: the request headers, the screenshot upload and the AI payment check.
+const stubs: Record<string, unknown> = {
+    'next/headers': {
+        headers: async () => new Headers({ 'x-connection-address': '203.0.113.7' }),
+        cookies: async () => new Map(),
+    },
+    '@/services/storage': {
+        uploadFileToStorage: async () => 'https://storage.example/screenshots/s.png',
+    },
+    '@/ai/flows/verify-payment-flow': {
+        verifyUtrFromScreenshot: async (input: AiPaymentCheckInput) => ({
+            isUtrMatch: true,
+            isReferenceMatch: true,
+            amountPaid: input.expectedAmount,
+            transactionDate: new Date().toISOString(),
+            reason: 'UTR, reference and amount found.',
+        }),
+    },
+};
+
+const HOSTILE_TEAM_NAME = '<img src=x onerror=alert(1)>';
+const HOSTILE_PLAYER_ID = '"><script>alert(1)</script>';
+
+// Wednesday 8 May 2024, 12:00 IST: registrations for the built-in tournament are open.
+const NOW = new Date('2024-05-08T06:30:00Z');
+
+describe('registerTeam with hostile names', () => {
+    let dir: string;
+    let actions: typeof import('./actions');
+    let repository: typeof import('@/lib/repository');
+    let contacts: typeof import('@/lib/contact-verification');
+    const originalRequire = Module.prototype.require;
+    const originalEnv = { ...process.env };
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-register-'));
+        Object.assign(process.env, {
+            DATA_STORE: 'sqlite',
+            SQLITE_DB_PATH: path.join(dir, 'test.db'),
+            RATE_LIMIT_STORE: 'memory',
+            EMAIL_TRANSPORT: 'file',
+            EMAIL_FILE_DIR: path.join(dir, 'sent-emails'),
+            EMAIL_USER: 'tournaments@example.com',
+            ADMIN_EMAIL: 'admin@example.com',
+            UPI_PAYEE_ID: 'founders@upi',
+            UPI_PAYEE_NAME: 'The Founders',
+            PAYMENT_VERIFICATION: 'ai-first',
+        });
+        delete process.env.REGISTRATION_CHALLENGE;
+        mock.timers.enable({ apis: ['Date'], now: NOW });
+        Module.prototype.require = function (this: NodeJS.Module, id: string) {
+            return id in stubs ? stubs[id] : originalRequire.call(this, id);
+        } as NodeJS.Require;
+
+        actions = await import('./actions');
+        repository = await import('@/lib/repository');
+        contacts = await import('@/lib/contact-verification');
+    });
+
+    after(async () => {
+        await repository.getDataStore().close();
+        Module.prototype.require = originalRequire;
+        mock.timers.reset();
+        process.env = originalEnv;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function verifiedEmailProof(email: string): Promise<string> {
+        return repository.getDataStore().transaction(async repo => {
+            const issued = await contacts.issueContactCode(repo, 'email', email, new Date());
+            if (issued.error !== undefined) throw new Error(issued.error);
+            const confirmed = await contacts.confirmContactCode(repo, 'email', email, issued.code, new Date());
+            if (confirmed.error !== undefined) throw new Error(confirmed.error);
+            return confirmed.proof;
+        });
+    }
+
+    async function hostileForm(): Promise<FormData> {
+        const intent = await actions.createPaymentIntent();
+        assert.ok(intent.success, intent.error);
+        const screenshot = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#3a7' } }).png().toBuffer();
+
+        const form = new FormData();
+        form.set('teamName', HOSTILE_TEAM_NAME);
+        form.set('players.0.id', HOSTILE_PLAYER_ID);
+        form.set('players.0.level', '55');
+        form.set('players.1.id', '<a href="javascript:x">me</a>');
+        form.set('players.1.level', '40');
+        form.set('players.2.id', '1234567890');
+        form.set('players.2.level', '60');
+        form.set('players.3.id', '1234567891');
+        form.set('players.3.level', '70');
+        form.set('contactEmail', 'team@example.com');
+        form.set('contactPhone', '9876543210');
+        form.set('utrNumber', '412345678901');
+        // Typed in lower case with spaces; the form's schema trims and upper-cases it.
+        form.set('paymentReference', `  ${intent.data!.reference.toLowerCase()} `);
+        form.set('emailProof', await verifiedEmailProof('team@example.com'));
+        form.set('screenshot', new File([new Uint8Array(screenshot)], 'payment.png', { type: 'image/png' }));
+        return form;
+    }
+
+    test('queues emails with the names escaped', async () => {
+        const result = await actions.registerTeam(await hostileForm());
+        assert.equal(result.success, true, result.error);
+        assert.equal(result.message, 'Registration Submitted!');
+
+        const queued = await repository.getDataStore().transaction(repo => repo.outbox.list());
+        const admin = queued.find(m => m.template === 'new_registration');
+        const team = queued.find(m => m.template === 'registration_confirmed');
+        assert.ok(admin && team, `queued: ${queued.map(m => m.template).join(', ')}`);
+        assert.equal(admin.to, 'admin@example.com');
+        assert.equal(team.to, 'team@example.com');
+
+        for (const message of [admin, team]) {
+            assert.doesNotMatch(message.html, /<img/i);
+            assert.doesNotMatch(message.html, /<script/i);
+            assert.doesNotMatch(message.html, /href="javascript:/i);
+            assert.doesNotMatch(message.subject, /[\r\n]/);
+            assert.match(message.html, /&lt;img src=x onerror=alert\(1\)&gt;/);
+        }
+        assert.match(admin.html, /&quot;&gt;&lt;script&gt;alert\(1\)&lt;\/script&gt;/);
+        assert.equal(admin.subject, `New Tournament Registration: ${HOSTILE_TEAM_NAME}`);
+    });
+});
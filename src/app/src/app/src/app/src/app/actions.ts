@@ -1,409 +1,517 @@
 'use server';
 
-import { promises as fs } from 'fs';
-import path from 'path';
-import { Resend } from 'resend';
 import { z } from 'zod';
 import { uploadFileToStorage } from '@/services/storage';
-import { verifyUtrFromScreenshot, VerifyUtrOutput } from '@/ai/flows/verify-payment-flow';
+import { verifyUtrFromScreenshot } from '@/ai/flows/verify-payment-flow';
+import { admitAdminLogin, admitContactCodeRequest, admitRegistration, admitVerifiedContacts, clientIp, recordFailedLogin, recordFailedVerification } from '@/lib/abuse';
+import { endAdminSession, getAdminSession, requireAdmin, startAdminSession } from '@/lib/admin-session';
+import { authenticateAdmin, normaliseUsername } from '@/lib/auth';
+import { getChallengeVerifier, type ChallengeParams } from '@/lib/challenge';
+import { hasStatusEmail, resendEmail, sendEmail, sendEmailUnstored } from '@/lib/email';
+import {
+    checkContactProof,
+    confirmContactCode,
+    CONTACT_CODE_TTL_MS,
+    issueContactCode,
+    phoneCodeChannel,
+    requiredContactKinds,
+} from '@/lib/contact-verification';
+import { getFairPlayRule } from '@/lib/fair-play';
+import { availableChannels, notificationChannelsSchema, notify, sendPhoneMessageUnstored } from '@/lib/notifications';
+import { buildUpiLink, getUpiPayee, issuePaymentIntent, PAYMENT_REFERENCE_PATTERN, renderQrCode } from '@/lib/payment-intents';
+import { decidePaymentReview, listPendingReviews, type PendingReview } from '@/lib/payment-review';
+import {
+    aiPaymentCheckOutputSchema,
+    ENGINE_NAMES,
+    judgePayment,
+    toVerificationRecord,
+    type AiPaymentCheckInput,
+    type AiPaymentCheckOutput,
+    type PaymentCheck,
+} from '@/lib/payment-verification';
+import { OCR_MODEL, verifyReceiptWithOcr } from '@/lib/receipt-ocr';
+import { changeRegistrationStatus, findTeamByUtr, holdsSlot, toTeamView, type TeamView } from '@/lib/registrations';
+import { checkPlayersAllowed, findRepeatedPlayer, normalisePlayerId, recordPlayerAppearances, setPlayerBan } from '@/lib/players';
+import { getDataStore, type Repository, type TournamentScope } from '@/lib/repository';
+import { commitReservation, listActiveReservations, reserveSlot } from '@/lib/reservations';
+import { entryFeeOf, ledgerToCsv, loadLedgers, prizeOwed } from '@/lib/ledger';
+import {
+    claimStatus,
+    createClaimToken,
+    findWinnerForClaim,
+    listPrizePayouts,
+    prizeClaimSchema,
+    readClaimToken,
+} from '@/lib/prize-claims';
+import { parseStatementCsv, reconcileStatement, type StatementReconciliation } from '@/lib/reconciliation';
+import { validatePlacements } from '@/lib/results';
+import { defaultRoomRelease, isReleased, recordRoomDelivery, roomsForTeam } from '@/lib/rooms';
+import { logRolloverResult, rolloverTournament } from '@/lib/rollover';
+import { analyseScreenshot, assessScreenshot, FRAUD_REVIEW_SCORE, listScreenshotFingerprints } from '@/lib/screenshot-fraud';
+import { loadStages, seedIntoLobbies, validateLobbyAssignment } from '@/lib/stages';
+import { getWeekId, isRegistrationWindowOpen, parseDateInZone } from '@/lib/time';
+import {
+    DEFAULT_TOURNAMENT_ID,
+    getTournament,
+    listTournaments,
+    ordinal,
+    prizeForRank,
+} from '@/lib/tournaments';
+import { addToWaitlist, countSlotsHeldForWaitlist, findInvite, findWaitlistEntry, offerFreeSlots, sendWaitlistInvite } from '@/lib/waitlist';
+import { findRegistration, findWeekById, listAllWeeks } from '@/lib/weeks';
+import type {
+    AdminUser,
+    ContactKind,
+    MatchPlacement,
+    MatchResult,
+    NotificationChannel,
+    OutboxMessage,
+    OutboxStatus,
+    PaymentIntent,
+    PaymentVerification,
+    PhoneMessage,
+    PlayerAppearance,
+    PlayerRecord,
+    PrizeClaimStatus,
+    PrizePayoutItem,
+    RegistrationState,
+    RegistrationStatus,
+    RejectedAttempt,
+    RoomDetails,
+    ScheduledLobby,
+    Standing,
+    StageState,
+    StatusChange,
+    TeamRegistrationData,
+    TeamRoom,
+    Tournament,
+    WaitlistEntry,
+    WaitlistStatus,
+    WeeklyData,
+    WeeklyLedger,
+    WeeklyWinner,
+} from '@/lib/types';
 import crypto from 'crypto';
 
+export type {
+    AdminRole,
+    ContactKind,
+    EmailTemplateName,
+    LedgerEntry,
+    LedgerEntryType,
+    LobbyState,
+    MatchPlacement,
+    MatchResult,
+    NotificationChannel,
+    NotificationEvent,
+    OutboxMessage,
+    OutboxStatus,
+    PaymentVerification,
+    Payout,
+    PayoutKind,
+    PhoneChannel,
+    PhoneMessage,
+    PlayerAppearance,
+    PlayerRecord,
+    PrizeClaim,
+    PrizeClaimStatus,
+    PrizePayoutItem,
+    RegistrationStatus,
+    RejectedAttempt,
+    RejectedAttemptReason,
+    RoomDelivery,
+    RoomDetails,
+    ScheduledLobby,
+    StageDefinition,
+    StageState,
+    Standing,
+    StatusChange,
+    TeamRegistrationData,
+    TeamRoom,
+    Tournament,
+    VerificationEngine,
+    VerificationOutcome,
+    WaitlistEntry,
+    WaitlistStatus,
+    WeeklyData,
+    WeeklyLedger,
+    WeeklyWinner,
+} from '@/lib/types';
+
+
+// --- Notifications ---
+// Emails go through the outbox (`@/lib/email`) and WhatsApp/SMS messages through
+// their own queue (`@/lib/notifications`), both of which retry failed sends, so
+// none of these fail the action that triggered them.
 
-// --- Type Definitions ---
-
-type Player = {
-  id: string;
-  level: number;
-};
-
-export type TeamRegistrationData = {
-  teamName: string;
-  players: Player[];
-  contactEmail: string;
-  contactPhone: string;
-  utrNumber: string;
-  screenshotHash: string; // To prevent duplicate screenshot submissions
-  registrationTime: string; // ISO string
-};
-
-
-type RegistrationState = {
-  registrationWeekStart: string; // ISO string for the start of the week (Monday)
-  registeredTeamsCount: number;
-};
-
-export type WeeklyData = {
-    registrationWeekStart: string;
-    teams: TeamRegistrationData[];
-}
-
-type WinnerInfo = {
-    rank: '1st' | '2nd';
-    teamName: string;
-}
-
-export type WeeklyWinner = {
-    weekStart: string; // ISO String
-    winners: WinnerInfo[];
-    totalTeams: number; // Added to store the count for historical balance
+/**
+ * Emails the admin about a new registration, confirmed or waiting for review.
+ */
+async function sendNewRegistrationEmail(teamData: TeamRegistrationData, tournament: Tournament) {
+    const { ADMIN_EMAIL } = process.env;
+    if (!ADMIN_EMAIL) {
+        console.warn("ADMIN_EMAIL not configured. Skipping admin notification.");
+        return;
+    }
+    await sendEmail('new_registration', ADMIN_EMAIL, { team: teamData, tournament });
 }
 
-
-// --- Path Constants ---
-const dataDir = path.join(process.cwd(), 'src', 'data');
-const archiveDir = path.join(dataDir, 'archive');
-const statePath = path.join(dataDir, 'registration-state.json');
-const registrationsPath = path.join(dataDir, 'registrations.json');
-const winnersPath = path.join(dataDir, 'winners.json');
-
-
-// --- Time and Week Calculation ---
-
 /**
- * Calculates the start of the current registration week (the most recent Monday).
+ * Tells a team about a change to their registration made by an admin, if it is one they are told about.
  */
-function getRegistrationWeekStart(now: Date): Date {
-  const currentDay = now.getDay(); // Sunday is 0, Monday is 1, etc.
-  const distanceToMonday = (currentDay + 6) % 7;
-  const monday = new Date(now);
-  monday.setDate(now.getDate() - distanceToMonday);
-  monday.setHours(0, 0, 0, 0);
-  return monday;
+async function sendStatusChangeEmail(teamData: TeamRegistrationData, change: StatusChange, tournament: Tournament) {
+    if (!hasStatusEmail(change.to)) return;
+    await sendEmail('status_changed', teamData.contactEmail, { team: teamData, change, tournament });
 }
 
 /**
- * Checks if the current time is within the allowed registration window.
- * Window: Monday 12:30 AM to Sunday 10:00 PM
+ * Reads the current weekly data and registration state. Must be called inside a transaction.
+ *
+ * The scheduled rollover job (`npm run rollover` or /api/cron/rollover) normally
+ * archives and resets the week on time. If it has not run yet, the same routine
+ * runs here first so registrations never land in a finished week.
  */
-function isRegistrationWindowOpen(now: Date): boolean {
-    const day = now.getDay();
-    const hours = now.getHours();
-    const minutes = now.getMinutes();
-
-    // If it's Sunday after 10 PM
-    if (day === 0 && (hours >= 22)) {
-        return false;
-    }
-    
-    // If it's Monday before 12:30 AM
-    if (day === 1 && (hours === 0 && minutes < 30)) {
-        return false;
+async function manageWeeklyState(scope: TournamentScope, tournament: Tournament): Promise<{ state: RegistrationState; weeklyData: WeeklyData }> {
+    const { result, state } = await rolloverTournament(scope, tournament, new Date());
+    if (result.outcome !== 'up-to-date') {
+        logRolloverResult(result);
     }
 
-    return true;
+    const weeklyData: WeeklyData = {
+        registrationWeekStart: state.registrationWeekStart,
+        teams: await scope.teams.listByWeek(state.registrationWeekStart),
+    };
+    return { state, weeklyData };
 }
 
-// --- Data Access and Management ---
-
 /**
- * Ensures the data directory and archive directory exists.
+ * Runs `fn` in a transaction against one tournament's data.
+ * Throws if the tournament does not exist.
  */
-async function ensureDataDirectories() {
-    try {
-        await fs.access(dataDir);
-    } catch {
-        await fs.mkdir(dataDir, { recursive: true });
-    }
-     try {
-        await fs.access(archiveDir);
-    } catch {
-        await fs.mkdir(archiveDir, { recursive: true });
-    }
+function inTournament<T>(
+    tournamentId: string,
+    fn: (scope: TournamentScope, tournament: Tournament, repo: Repository) => Promise<T>
+): Promise<T> {
+    return getDataStore().transaction(async repo => {
+        const tournament = await getTournament(repo, tournamentId);
+        if (!tournament) {
+            throw new Error(`Unknown tournament "${tournamentId}".`);
+        }
+        return fn(repo.forTournament(tournamentId), tournament, repo);
+    });
 }
 
-
 /**
- * Reads data from a JSON file.
+ * The week with the given id, or the current week when none is given.
+ * Must be called inside a transaction.
  */
-async function readJsonFile<T>(filePath: string): Promise<T | null> {
-    try {
-        await ensureDataDirectories();
-        const fileData = await fs.readFile(filePath, 'utf-8');
-        return JSON.parse(fileData) as T;
-    } catch (error) {
-        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-            return null; // File not found, return null
-        }
-        throw error; // Other errors
-    }
+async function findWeekOrCurrent(scope: TournamentScope, tournament: Tournament, weekId?: string): Promise<WeeklyData | null> {
+    if (weekId) return findWeekById(scope, tournament, weekId);
+    return (await manageWeeklyState(scope, tournament)).weeklyData;
 }
 
-
 /**
- * Writes data to a JSON file.
+ * Runs `manageWeeklyState` in its own transaction, for read-only callers.
  */
-async function writeJsonFile<T>(filePath: string, data: T): Promise<void> {
-    await ensureDataDirectories();
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+function readWeeklyState(tournamentId: string) {
+    return inTournament(tournamentId, (scope, tournament) => manageWeeklyState(scope, tournament));
 }
 
-
 /**
- * Sends an email notification to the admin for a new registration.
- * Includes the screenshot URL directly.
+ * Offers any free slots to the next teams on the waitlist, while registration is
+ * open, and sends them their payment links. Runs after a team leaves; lapsed
+ * invitations and abandoned reservations are passed on by the rollover job.
  */
-async function sendNewRegistrationEmail(teamData: Omit<TeamRegistrationData, 'registrationTime' | 'screenshotHash'>, screenshotUrl: string | null) {
-    const RESEND_API_KEY = process.env.RESEND_API_KEY;
-    const { ADMIN_EMAIL, EMAIL_USER } = process.env;
-
-    if (!RESEND_API_KEY || !ADMIN_EMAIL || !EMAIL_USER) {
-        console.warn("Admin/Resend email not configured. Skipping admin notification.");
-        return; // Don't throw error, just skip.
-    }
-    
-    const resend = new Resend(RESEND_API_KEY);
-    const registrationTime = new Date().toLocaleString('en-US', {
-        timeZone: 'Asia/Kolkata',
-        year: 'numeric', month: 'long', day: 'numeric',
-        hour: '2-digit', minute: '2-digit'
-    });
-
-    let playersHtml = '<ul>';
-    teamData.players.forEach(p => {
-        playersHtml += `<li><b>ID:</b> ${p.id}, <b>Level:</b> ${p.level}</li>`;
+async function fillSlotsFromWaitlist(tournamentId: string) {
+    const { invites, tournament } = await inTournament(tournamentId, async (scope, tournament) => {
+        const { state } = await manageWeeklyState(scope, tournament);
+        const invites = await offerFreeSlots(scope, tournament, state.registrationWeekStart, new Date());
+        return { invites, tournament };
     });
-    playersHtml += '</ul>';
-    
-    const screenshotHtml = screenshotUrl 
-        ? `<p><a href="${screenshotUrl}" target="_blank" style="font-weight: bold; color: #007bff;">View Screenshot</a></p>`
-        : '<p style="font-weight: bold; color: #dc3545;">Screenshot upload failed. Please verify UTR manually.</p>';
+    for (const { entry, token } of invites) {
+        console.log(`Promoted ${entry.teamName} from the waitlist.`);
+        await sendWaitlistInvite(entry, token, tournament);
+    }
+}
 
-    const verificationHtml = `<p><strong>AI Verification Result:</strong> Payment details verified successfully by AI.</p>`;
+// --- Public Server Actions ---
 
-    const emailBody = `
-        <h1>New Team Registration!</h1>
-        <p>A new team has registered for the tournament and the payment has been successfully verified by the AI.</p>
-        ${verificationHtml}
-        ${screenshotHtml}
-        <hr>
-        <h2>Team Details:</h2>
-        <ul>
-            <li><strong>Team Name:</strong> ${teamData.teamName}</li>
-            <li><strong>Contact Email:</strong> ${teamData.contactEmail}</li>
-            <li><strong>Contact Phone:</strong> ${teamData.contactPhone}</li>
-            <li><strong>UTR Number:</strong> ${teamData.utrNumber}</li>
-            <li><strong>Registration Time:</strong> ${registrationTime} (IST)</li>
-        </ul>
-        <h3>Players:</h3>
-        ${playersHtml}
-        <hr>
-        <p>This is an automated notification.</p>
-    `;
+/**
+ * Lists the tournaments currently accepting teams.
+ */
+export async function getTournaments(): Promise<Tournament[]> {
+    const tournaments = await getDataStore().transaction(repo => listTournaments(repo));
+    return tournaments.filter(t => t.active);
+}
 
-    try {
-        await resend.emails.send({
-            from: `The Founders Official <${EMAIL_USER}>`,
-            to: ADMIN_EMAIL,
-            subject: `New Tournament Registration: ${teamData.teamName}`,
-            html: emailBody,
-        });
-        console.log(`Registration email sent for team: ${teamData.teamName}`);
-    } catch (error) {
-        console.error('Error sending new registration email via Resend:', error);
-        // Do not throw error to the client, just log it.
-    }
+/**
+ * Fetches one tournament's definition (slots, fee, prizes, schedule and format).
+ */
+export async function getTournamentDetails(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<Tournament | null> {
+    return getDataStore().transaction(repo => getTournament(repo, tournamentId));
 }
 
 /**
- * Sends a confirmation email to the user upon successful registration.
+ * Gets the current registration status (slots filled, total slots, and if open).
  */
-async function sendConfirmationEmailToUser(teamData: TeamRegistrationData) {
-    const RESEND_API_KEY = process.env.RESEND_API_KEY;
-    const { EMAIL_USER } = process.env;
-    
-    if (!RESEND_API_KEY || !EMAIL_USER) {
-        console.warn("Email API keys not configured. Skipping confirmation email to user.");
-        // Do not throw an error, just log it and continue. The registration is successful.
-        return;
-    }
+export async function getRegistrationStatus(tournamentId: string = DEFAULT_TOURNAMENT_ID) {
+  const now = new Date();
+  const { tournament, state, slotsReserved, slotsHeldForWaitlist } = await inTournament(tournamentId, async (scope, tournament) => {
+    const { state } = await manageWeeklyState(scope, tournament);
+    const reservations = await listActiveReservations(scope, state.registrationWeekStart, now);
+    return {
+      tournament,
+      state,
+      slotsReserved: reservations.length,
+      slotsHeldForWaitlist: await countSlotsHeldForWaitlist(scope, state.registrationWeekStart, now),
+    };
+  });
+  const totalSlots = tournament.totalSlots;
 
-    const resend = new Resend(RESEND_API_KEY);
-    const registrationTime = new Date(teamData.registrationTime).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
-
-    let playersHtml = '<ul>';
-    teamData.players.forEach(p => {
-        playersHtml += `<li><b>ID:</b> ${p.id}, <b>Level:</b> ${p.level}</li>`;
-    });
-    playersHtml += '</ul>';
-
-    const emailBody = `
-        <h1>Registration Confirmed!</h1>
-        <p>Hello ${teamData.teamName},</p>
-        <p>Thank you for registering for The Founders Official tournament. Your registration has been received.</p>
-        <hr>
-        <h2>Your Registration Details:</h2>
-        <ul>
-            <li><strong>Team Name:</strong> ${teamData.teamName}</li>
-            <li><strong>UTR Number:</strong> ${teamData.utrNumber}</li>
-            <li><strong>Registration Time:</strong> ${registrationTime} (IST)</li>
-        </ul>
-        <h3>Your Players:</h3>
-        ${playersHtml}
-        <hr>
-        <p>Your payment and registration details have been verified. Please join the WhatsApp group for match updates.</p>
-        <p>Good luck!</p>
-        <br>
-        <p>Best regards,<br>The Founders Official</p>
-    `;
+  const isWindowOpen = tournament.active && isRegistrationWindowOpen(now, tournament.registrationWindow, tournament.timezone);
+  // Slots held by registrations still being verified, or for invited waitlist teams, count as taken.
+  const areSlotsAvailable = state.registeredTeamsCount + slotsReserved + slotsHeldForWaitlist < totalSlots;
 
-    try {
-        await resend.emails.send({
-            from: `"The Founders Official" <${EMAIL_USER}>`,
-            to: teamData.contactEmail,
-            subject: `Registration Confirmation for The Founders Tournament`,
-            html: emailBody,
-        });
-        console.log(`Confirmation email sent to user for team: ${teamData.teamName}`);
-    } catch (error) {
-        console.error('Error sending confirmation email to user via Resend:', error);
-        // Do not throw, as the main registration was successful
-    }
+  return {
+    tournamentId,
+    slotsFilled: state.registeredTeamsCount,
+    slotsReserved,
+    slotsHeldForWaitlist,
+    totalSlots: totalSlots,
+    isOpen: isWindowOpen && areSlotsAvailable,
+    isWaitlistOpen: isWindowOpen && !areSlotsAvailable,
+    weekStart: state.registrationWeekStart,
+    weekId: getWeekId(state.registrationWeekStart, tournament.timezone),
+  };
 }
 
-
 /**
- * Archives the weekly registration file.
+ * How many slots a registration may count on: all of them, less those held for
+ * invited waitlist teams, except that a team with an invitation may use its own.
+ * Must be called inside a transaction.
  */
-async function archiveWeeklyData(weeklyData: WeeklyData) {
-    if (!weeklyData || weeklyData.teams.length === 0) {
-        console.log("No data to archive for the completed week.");
-        return;
-    }
-    
-    const weekStartDate = new Date(weeklyData.registrationWeekStart);
-    // Format as YYYY-MM-DD
-    const dateString = weekStartDate.toISOString().split('T')[0];
-    const archivePath = path.join(archiveDir, `registrations-${dateString}.json`);
-
-    try {
-        await writeJsonFile(archivePath, weeklyData);
-        console.log(`Successfully archived weekly data to ${archivePath}`);
-    } catch (error) {
-        console.error(`Failed to archive weekly data for ${dateString}:`, error);
-    }
+async function slotsOpenTo(
+  scope: TournamentScope,
+  tournament: Tournament,
+  registrationWeekStart: string,
+  waitlistToken: string | null
+): Promise<{ totalSlots: number; invite: WaitlistEntry | null; error?: undefined } | { error: string }> {
+  const now = new Date();
+  let invite: WaitlistEntry | null = null;
+  if (waitlistToken) {
+    const found = await findInvite(scope, { registrationWeekStart, token: waitlistToken, now });
+    if (found.error !== undefined) return { error: found.error };
+    invite = found.entry;
+  }
+  const held = await countSlotsHeldForWaitlist(scope, registrationWeekStart, now, invite?.id);
+  return { totalSlots: tournament.totalSlots - held, invite };
 }
 
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
 
 /**
- * Reads the current weekly data and registration state, handling weekly resets and reports.
- * This is the primary function for getting current status.
+ * Builds the form schema for a tournament's team size and player level limits.
  */
-async function manageWeeklyState(): Promise<{ state: RegistrationState; weeklyData: WeeklyData }> {
-    const now = new Date();
-    const currentWeekStart = getRegistrationWeekStart(now);
+function buildRegistrationSchema(tournament: Tournament) {
+  const playerSchema = z.object({
+    id: z.string().min(1, "Player ID is required.").max(30, "Player ID must be 30 characters or less."),
+    level: z.coerce.number()
+      .min(tournament.minPlayerLevel, `Player level must be ${tournament.minPlayerLevel} or above.`)
+      .max(tournament.maxPlayerLevel, "Invalid level."),
+  });
+
+  return z.object({
+    teamName: z.string().min(1, "Team Name is required.").max(30, "Team Name must be 30 characters or less."),
+    players: z.array(playerSchema).length(tournament.teamSize).superRefine((players, ctx) => {
+      const repeated = findRepeatedPlayer(players);
+      if (repeated) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Player ${repeated} is listed more than once.` });
+      }
+    }),
+    contactEmail: z.string().email("Invalid email address."),
+    contactPhone: z.string().regex(/^[0-9]{10}$/, "Must be a valid 10-digit phone number."),
+    notificationChannels: notificationChannelsSchema.default(['email']),
+    utrNumber: z.string().min(5, "UTR number must be at least 5 characters.").max(30, "UTR number must be 30 characters or less."),
+    paymentReference: z.string().trim().toUpperCase().regex(PAYMENT_REFERENCE_PATTERN, "Please start the payment again to get a payment reference."),
+    screenshot: z
+      .instanceof(File, { message: "Screenshot is required." })
+      .refine((file) => file.size > 0, "Screenshot is required.")
+      .refine((file) => file.size <= MAX_FILE_SIZE, `Max file size is 10MB.`)
+      .refine(
+        (file) => ACCEPTED_IMAGE_TYPES.includes(file.type),
+        "Only .jpg, .jpeg, .png and .webp formats are supported."
+      ),
+  });
+}
 
-    let state = await readJsonFile<RegistrationState>(statePath);
-    let weeklyData = await readJsonFile<WeeklyData>(registrationsPath);
+/**
+ * The channels ticked on a form, or undefined if none were, so older forms get email only.
+ */
+function formChannels(formData: FormData): string[] | undefined {
+  const channels = formData.getAll('notificationChannels').map(String);
+  return channels.length > 0 ? channels : undefined;
+}
 
-    // If state or weeklyData doesn't exist, create them for the current week.
-    if (!state || !weeklyData) {
-        const newState: RegistrationState = {
-            registrationWeekStart: currentWeekStart.toISOString(),
-            registeredTeamsCount: 0,
-        };
-        const newWeeklyData: WeeklyData = {
-            registrationWeekStart: currentWeekStart.toISOString(),
-            teams: [],
-        };
-        await writeJsonFile(statePath, newState);
-        await writeJsonFile(registrationsPath, newWeeklyData);
-        return { state: newState, weeklyData: newWeeklyData };
+/**
+ * Returns an error unless the form carries a proof, from `verifyContactCode`, for
+ * each contact that must be verified.
+ */
+async function checkContactsVerified(formData: FormData, contacts: Record<ContactKind, string>): Promise<string | null> {
+  const now = new Date();
+  return getDataStore().transaction(async repo => {
+    for (const kind of requiredContactKinds()) {
+      const proof = formData.get(`${kind}Proof`);
+      const error = await checkContactProof(repo, kind, contacts[kind], typeof proof === 'string' ? proof : undefined, now);
+      if (error) return error;
     }
+    return null;
+  });
+}
 
-    // Check if a new week has started.
-    const isNewWeek = new Date(state.registrationWeekStart).getTime() < currentWeekStart.getTime();
 
-    if (isNewWeek) {
-        // A new week has begun. Archive the old data, then reset.
-        await archiveWeeklyData(weeklyData);
+type Screenshot = { image: Buffer; mimeType: string };
 
-        // Reset state and weekly data for the new week.
-        const newState: RegistrationState = {
-            registrationWeekStart: currentWeekStart.toISOString(),
-            registeredTeamsCount: 0,
+/**
+ * Checks the payment screenshot with the AI and local OCR, in the order set by
+ * `PAYMENT_VERIFICATION`:
+ * - `ai-first` (default): the AI decides; OCR stands in when the AI is unavailable.
+ * - `ocr-first`: OCR decides when it reads a matching receipt; otherwise the AI breaks the tie.
+ * OCR alone never rejects a payment, as it misreads digits; an inconclusive OCR
+ * check sends the registration to review. Returns null if neither could run.
+ */
+async function verifyPayment(
+    screenshot: Screenshot,
+    utrNumber: string,
+    expected: { reference: string; amount: number }
+): Promise<PaymentCheck | null> {
+    const runOcr = async (): Promise<PaymentCheck | null> => {
+        const started = Date.now();
+        const ocr = await verifyReceiptWithOcr(screenshot.image, { utr: utrNumber, ...expected });
+        return ocr && {
+            engine: 'ocr',
+            model: OCR_MODEL,
+            conclusive: ocr.conclusive,
+            isUtrMatch: ocr.isUtrMatch,
+            isReferenceMatch: ocr.isReferenceMatch,
+            utr: ocr.fields.utr,
+            amountPaid: ocr.amountPaid,
+            payee: ocr.fields.payee,
+            transactionDate: ocr.transactionDate,
+            confidence: ocr.confidence / 100,
+            reason: ocr.reason,
+            latencyMs: Date.now() - started,
         };
-        const newWeeklyData: WeeklyData = {
-            registrationWeekStart: currentWeekStart.toISOString(),
-            teams: [],
+    };
+    const runAi = async (): Promise<PaymentCheck | null> => {
+        const started = Date.now();
+        const ai = await runAIVerification(screenshot, utrNumber, expected);
+        // The AI reports whether the UTR entered is on the screenshot, not what it read.
+        return ai && {
+            engine: 'ai',
+            conclusive: true,
+            isUtrMatch: ai.isUtrMatch,
+            isReferenceMatch: ai.isReferenceMatch,
+            utr: ai.isUtrMatch ? utrNumber : null,
+            amountPaid: ai.amountPaid ?? null,
+            payee: null,
+            transactionDate: ai.transactionDate ?? null,
+            confidence: null,
+            reason: ai.reason,
+            latencyMs: Date.now() - started,
         };
+    };
 
-        await writeJsonFile(statePath, newState);
-        await writeJsonFile(registrationsPath, newWeeklyData);
-
-        return { state: newState, weeklyData: newWeeklyData };
+    let ocr: PaymentCheck | null = null;
+    if (process.env.PAYMENT_VERIFICATION === 'ocr-first') {
+        ocr = await runOcr();
+        if (ocr?.conclusive) return ocr;
     }
+    const ai = await runAi();
+    if (ai) return ai;
+    return ocr ?? await runOcr();
+}
 
-    // It's the same week, return the current data.
-    // Ensure data consistency
-    if(state.registeredTeamsCount !== weeklyData.teams.length){
-        state.registeredTeamsCount = weeklyData.teams.length;
-        await writeJsonFile(statePath, state);
+/**
+ * Runs the AI payment check: the UTR, the payment reference and the amount paid
+ * are read off the screenshot. Returns null if the service failed or answered in
+ * a shape other than `aiPaymentCheckOutputSchema`, so that the registration can go
+ * to manual review rather than being rejected.
+ */
+async function runAIVerification(
+    screenshot: Screenshot,
+    utrNumber: string,
+    expected: { reference: string; amount: number }
+): Promise<AiPaymentCheckOutput | null> {
+    try {
+        const input: AiPaymentCheckInput = {
+            screenshotDataUri: `data:${screenshot.mimeType};base64,${screenshot.image.toString('base64')}`,
+            utr: utrNumber,
+            paymentReference: expected.reference,
+            expectedAmount: expected.amount,
+        };
+        return aiPaymentCheckOutputSchema.parse(await verifyUtrFromScreenshot(input));
+    } catch (error) {
+        console.error("Critical: AI verification process failed.", error);
+        return null;
     }
-
-    return { state, weeklyData };
 }
 
-// --- Public Server Actions ---
-
 /**
- * Gets the current registration status (slots filled, total slots, and if open).
+ * Uploads the payment screenshot, returning null rather than failing the registration.
  */
-export async function getRegistrationStatus() {
-  const { state } = await manageWeeklyState();
-  const now = new Date();
-  const totalSlots = 12;
-
-  const isWindowOpen = isRegistrationWindowOpen(now);
-  const areSlotsAvailable = state.registeredTeamsCount < totalSlots;
-
-  return {
-    slotsFilled: state.registeredTeamsCount,
-    totalSlots: totalSlots,
-    isOpen: isWindowOpen && areSlotsAvailable,
-    weekStart: state.registrationWeekStart,
-  };
+async function uploadScreenshot(screenshot: File): Promise<string | null> {
+    try {
+        return await uploadFileToStorage(screenshot, 'screenshots/');
+    } catch (uploadError) {
+        console.error("Critical: Screenshot upload failed.", uploadError);
+        // Don't fail the registration, but log it. Admin can manually check.
+        return null;
+    }
 }
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
-
-const playerSchema = z.object({
-  id: z.string().min(1, "Player ID is required.").max(30, "Player ID must be 30 characters or less."),
-  level: z.coerce.number().min(30, "Player level must be 30 or above.").max(100, "Invalid level."),
-});
-
-const registrationSchema = z.object({
-  teamName: z.string().min(1, "Team Name is required.").max(30, "Team Name must be 30 characters or less."),
-  players: z.array(playerSchema).length(4),
-  contactEmail: z.string().email("Invalid email address."),
-  contactPhone: z.string().regex(/^[0-9]{10}$/, "Must be a valid 10-digit phone number."),
-  utrNumber: z.string().min(5, "UTR number must be at least 5 characters.").max(30, "UTR number must be 30 characters or less."),
-  screenshot: z
-    .instanceof(File, { message: "Screenshot is required." })
-    .refine((file) => file.size > 0, "Screenshot is required.")
-    .refine((file) => file.size <= MAX_FILE_SIZE, `Max file size is 10MB.`)
-    .refine(
-      (file) => ACCEPTED_IMAGE_TYPES.includes(file.type),
-      "Only .jpg, .jpeg, .png and .webp formats are supported."
-    ),
-});
 
+/**
+ * Starts a payment: hands out a reference for this attempt, with the `upi://pay`
+ * link and QR code to pay the entry fee with it. The registration form sends the
+ * reference back as `paymentReference`.
+ */
+export async function createPaymentIntent(
+  tournamentId: string = DEFAULT_TOURNAMENT_ID,
+  waitlistToken?: string
+): Promise<{ success: boolean; data?: { reference: string; amount: number; upiLink: string; qrCode: string }; error?: string }> {
+  const payee = getUpiPayee();
+  if (!payee) {
+    console.error("UPI_PAYEE_ID or UPI_PAYEE_NAME is not configured. Cannot take payments.");
+    return { success: false, error: 'Payments are not available right now. Please try again later.' };
+  }
+  if (!waitlistToken) {
+    const status = await getRegistrationStatus(tournamentId);
+    if (!status.isOpen) {
+      return { success: false, error: 'Registrations are currently closed. Please check back next week.' };
+    }
+  }
 
-async function runAIVerification(screenshot: File, utrNumber: string): Promise<VerifyUtrOutput> {
-    try {
-        const screenshotBuffer = Buffer.from(await screenshot.arrayBuffer());
-        const screenshotDataUri = `data:${screenshot.type};base64,${screenshotBuffer.toString('base64')}`;
-        return await verifyUtrFromScreenshot({
-            screenshotDataUri,
-            utr: utrNumber,
-        });
-    } catch (error) {
-        console.error("Critical: AI verification process failed.", error);
-        return {
-            isUtrMatch: false,
-            reason: "AI verification service is currently unavailable. Please try again later.",
-        };
+  const issued = await inTournament(tournamentId, async (scope, tournament): Promise<{ intent: PaymentIntent; error?: undefined } | { error: string }> => {
+    const { state } = await manageWeeklyState(scope, tournament);
+    if (waitlistToken) {
+      const slots = await slotsOpenTo(scope, tournament, state.registrationWeekStart, waitlistToken);
+      if (slots.error !== undefined) return slots;
     }
+    const intent = await issuePaymentIntent(scope, {
+      registrationWeekStart: state.registrationWeekStart,
+      amount: tournament.entryFee,
+      now: new Date(),
+    });
+    return { intent };
+  });
+  if (issued.error !== undefined) {
+    return { success: false, error: issued.error };
+  }
+
+  const { reference, amount } = issued.intent;
+  const upiLink = buildUpiLink(payee, issued.intent);
+  return { success: true, data: { reference, amount, upiLink, qrCode: await renderQrCode(upiLink) } };
 }
 
 
@@ -414,23 +522,33 @@ async function runAIVerification(screenshot: File, utrNumber: string): Promise<V
 export async function registerTeam(formData: FormData) {
   try {
       // 1. Check Registration Status
-      const { state, weeklyData } = await manageWeeklyState();
-      const status = await getRegistrationStatus();
-      if (!status.isOpen) {
+      const tournamentId = (formData.get('tournamentId') as string | null) || DEFAULT_TOURNAMENT_ID;
+      const tournament = await getDataStore().transaction(repo => getTournament(repo, tournamentId));
+      if (!tournament) {
+        return { success: false, error: 'This tournament does not exist.' };
+      }
+      // Teams promoted from the waitlist register through their emailed link, into the slot held for them.
+      const waitlistToken = (formData.get('waitlistToken') as string | null) || null;
+      const status = await getRegistrationStatus(tournamentId);
+      if (waitlistToken) {
+        if (!tournament.active) {
+          return { success: false, error: 'Registrations are currently closed. Please check back next week.' };
+        }
+      } else if (!status.isOpen) {
         return {
           success: false,
-          error: 'Registrations are currently closed. Please check back next week.',
+          error: status.isWaitlistOpen
+            ? 'All slots are taken. You can join the waitlist instead.'
+            : 'Registrations are currently closed. Please check back next week.',
         };
       }
       
       // 2. Parse and Validate Form Data
       const rawData = Object.fromEntries(formData.entries());
-      const players = [
-        { id: rawData['players.0.id'], level: rawData['players.0.level'] },
-        { id: rawData['players.1.id'], level: rawData['players.1.level'] },
-        { id: rawData['players.2.id'], level: rawData['players.2.level'] },
-        { id: rawData['players.3.id'], level: rawData['players.3.level'] },
-      ];
+      const players = Array.from({ length: tournament.teamSize }, (_, i) => ({
+        id: rawData[`players.${i}.id`],
+        level: rawData[`players.${i}.level`],
+      }));
       
       const screenshotFile = formData.get('screenshot') as File;
       
@@ -438,101 +556,204 @@ export async function registerTeam(formData: FormData) {
         teamName: rawData.teamName,
         contactEmail: rawData.contactEmail,
         contactPhone: rawData.contactPhone,
+        notificationChannels: formChannels(formData),
         utrNumber: rawData.utrNumber,
+        paymentReference: rawData.paymentReference,
         players: players,
         screenshot: screenshotFile
       };
       
-      const validationResult = registrationSchema.safeParse(dataToValidate);
+      const validationResult = buildRegistrationSchema(tournament).safeParse(dataToValidate);
       if (!validationResult.success) {
           const firstError = validationResult.error.errors[0];
           return { success: false, error: `${firstError.path.join('.')}: ${firstError.message}` };
       }
-      const { teamName, players: validatedPlayers, contactEmail, contactPhone, utrNumber, screenshot } = validationResult.data;
-
-      // 3. AI Payment Verification (BLOCKING STEP)
-      const verificationResult = await runAIVerification(screenshot, utrNumber);
-      if (!verificationResult.isUtrMatch) {
-          return {
-              success: false,
-              error: verificationResult.reason,
-          };
+      const { teamName, players: validatedPlayers, contactEmail, contactPhone, notificationChannels, utrNumber, paymentReference, screenshot } = validationResult.data;
+
+      // Throttled before anything expensive runs: the screenshot analysis, the upload and the AI check.
+      const requester = { ip: await clientIp(), contactEmail, contactPhone };
+      const challenge = formData.get('challenge');
+      const admissionError = await admitRegistration(requester, typeof challenge === 'string' ? challenge : null);
+      if (admissionError) {
+        return { success: false, error: admissionError };
+      }
+
+      const contactError = await checkContactsVerified(formData, { email: contactEmail, phone: contactPhone });
+      if (contactError) {
+        return { success: false, error: contactError };
       }
 
-      // 4. Date Verification to prevent screenshot reuse across weeks
-      if (!verificationResult.transactionDate) {
-          return {
-              success: false,
-              error: "AI could not determine the transaction date from the screenshot. Please try with a clearer screenshot.",
-          };
+      const contactLimitError = await admitVerifiedContacts(requester);
+      if (contactLimitError) {
+        return { success: false, error: contactLimitError };
       }
-      const transactionDate = new Date(verificationResult.transactionDate);
-      const weekStartDate = new Date(state.registrationWeekStart);
-      if (transactionDate < weekStartDate) {
-          return {
-              success: false,
-              error: "This payment screenshot is from a previous week. Please use a new payment for this week's registration.",
-          };
+
+      const bannedError = await getDataStore().transaction(repo => checkPlayersAllowed(repo, validatedPlayers));
+      if (bannedError) {
+        return { success: false, error: bannedError };
       }
 
-      // 5. Duplicate Data Check (within the current week)
+      // 3. Hold a slot while the payment is verified, so that the slot cap and
+      //    duplicate checks hold for registrations that are verified concurrently.
       const screenshotBufferForHash = Buffer.from(await screenshot.arrayBuffer());
       const screenshotHash = crypto.createHash('sha256').update(screenshotBufferForHash).digest('hex');
-
-      if (weeklyData.teams.some(team => team.utrNumber.trim().toLowerCase() === utrNumber.trim().toLowerCase())) {
-        return { success: false, error: 'This UTR number has already been used this week.' };
-      }
-      if (weeklyData.teams.some(team => team.contactEmail.trim().toLowerCase() === contactEmail.trim().toLowerCase())) {
-        return { success: false, error: 'This email has already been used this week.' };
-      }
-      if (weeklyData.teams.some(team => team.contactPhone.trim() === contactPhone.trim())) {
-        return { success: false, error: 'This phone number has already been used this week.' };
-      }
-      if (weeklyData.teams.some(team => team.screenshotHash === screenshotHash)) {
-          return { success: false, error: 'This payment screenshot has already been used this week.' };
+      const screenshotAnalysis = await analyseScreenshot(screenshotBufferForHash, tournament.timezone);
+      const candidate = { utrNumber, contactEmail, contactPhone, screenshotHash, paymentReference, playerIds: validatedPlayers.map(p => p.id) };
+
+      const reserved = await inTournament(tournamentId, async scope => {
+        const { state } = await manageWeeklyState(scope, tournament);
+        const intent = await scope.paymentIntents.get(paymentReference);
+        if (!intent || intent.registrationWeekStart !== state.registrationWeekStart) {
+          return { error: 'This payment reference is not valid for this week. Please start the payment again.' };
+        }
+        const slots = await slotsOpenTo(scope, tournament, state.registrationWeekStart, waitlistToken);
+        if (slots.error !== undefined) return slots;
+        const held = await reserveSlot(scope, {
+          registrationWeekStart: state.registrationWeekStart,
+          totalSlots: slots.totalSlots,
+          candidate,
+          now: new Date(),
+        });
+        return held.error !== undefined ? held : { ...held, intent };
+      });
+      if (reserved.error !== undefined) {
+        return { success: false, error: reserved.error };
       }
+      const { reservation, intent } = reserved;
 
-      // 6. Upload Screenshot
+      let registrationData: TeamRegistrationData;
       let screenshotUrl: string | null = null;
+      let committed = false;
       try {
-        screenshotUrl = await uploadFileToStorage(screenshot, 'screenshots/');
-      } catch (uploadError) {
-          console.error("Critical: Screenshot upload failed after successful verification.", uploadError);
-          // Don't fail the registration, but log it. Admin can manually check.
+        // Fraud signals from the screenshot itself, compared with every screenshot on record.
+        const fraud = await getDataStore().transaction(async repo => assessScreenshot(
+          screenshotAnalysis,
+          await listScreenshotFingerprints(repo),
+          { screenshotHash, registrationWeekStart: reservation.registrationWeekStart, now: new Date() }
+        ));
+
+        // 4. Payment Verification (BLOCKING STEP). When no check could run or the
+        //    check is unsure, the registration goes to the manual review queue instead.
+        //    A screenshot dated before this week is a mismatch, to prevent reuse across weeks.
+        const check = await verifyPayment(
+          { image: screenshotBufferForHash, mimeType: screenshot.type },
+          utrNumber,
+          intent
+        );
+        const judgement = check && judgePayment(check, {
+          amount: intent.amount,
+          reference: intent.reference,
+          registrationWeekStart: reservation.registrationWeekStart,
+          timeZone: tournament.timezone,
+        });
+        if (check && judgement?.outcome === 'mismatch') {
+            console.warn(`Registration rejected by ${ENGINE_NAMES[check.engine]}: ${judgement.reason}`);
+            await recordFailedVerification(requester);
+            return { success: false, error: judgement.reason };
+        }
+        let reviewReason: string | null = null;
+        if (!judgement) {
+            reviewReason = 'Payment verification was unavailable.';
+        } else if (judgement.outcome === 'inconclusive') {
+            reviewReason = judgement.reason;
+        } else if (fraud.score >= FRAUD_REVIEW_SCORE) {
+            reviewReason = `Screenshot flagged as suspicious (score ${fraud.score}/100). ${fraud.signals.map(s => s.detail).join(' ')}`;
+        }
+
+        // 5. Upload the screenshot before the registration is saved: reviewers need to
+        //    see it, and verification can be re-run from it later.
+        screenshotUrl = await uploadScreenshot(screenshot);
+
+        // 6. Save Registration Data, re-checking the slot cap and duplicates under the lock.
+        const now = new Date().toISOString();
+        const status = reviewReason ? 'pending_review' : 'confirmed';
+        const team: TeamRegistrationData = {
+          id: crypto.randomUUID(),
+          status,
+          statusHistory: [{
+            from: null,
+            to: status,
+            at: now,
+            by: 'system',
+            reason: reviewReason ?? judgement!.reason,
+          }],
+          ...(reviewReason && {
+            review: {
+              reason: reviewReason,
+              transactionDate: check?.transactionDate ?? null,
+              screenshotUrl,
+              flaggedAt: now,
+            },
+          }),
+          teamName,
+          players: validatedPlayers,
+          contactEmail,
+          contactPhone,
+          notificationChannels,
+          utrNumber,
+          screenshotHash,
+          screenshotPerceptualHash: screenshotAnalysis.perceptualHash ?? undefined,
+          fraud,
+          ...(check && judgement && {
+            verifications: [toVerificationRecord(check, judgement, { checkedAt: now })],
+          }),
+          screenshotUrl,
+          registrationTime: now,
+          entryFee: intent.amount,
+          paymentReference: intent.reference,
+        };
+        const commitError = await inTournament(tournamentId, async (scope, _tournament, repo) => {
+          const { state } = await manageWeeklyState(scope, tournament);
+          const slots = await slotsOpenTo(scope, tournament, state.registrationWeekStart, waitlistToken);
+          if (slots.error !== undefined) return slots.error;
+          const error = await commitReservation(scope, {
+            reservation,
+            currentWeekStart: state.registrationWeekStart,
+            totalSlots: slots.totalSlots,
+            team,
+            now: new Date(),
+          });
+          if (error) return error;
+          if (slots.invite) {
+            await scope.waitlist.update({ ...slots.invite, status: 'registered' });
+          }
+          await recordPlayerAppearances(repo, { tournamentId, registrationWeekStart: state.registrationWeekStart, team });
+          return null;
+        });
+        if (commitError) {
+          return { success: false, error: commitError };
+        }
+        committed = true;
+        registrationData = team;
+      } finally {
+        if (!committed) {
+          await inTournament(tournamentId, scope => scope.reservations.remove(reservation.id));
+        }
       }
 
-      // 7. Save Registration Data
-      const registrationData: TeamRegistrationData = {
-        teamName,
-        players: validatedPlayers,
-        contactEmail,
-        contactPhone,
-        utrNumber,
-        screenshotHash,
-        registrationTime: new Date().toISOString(),
-      };
-      
-      weeklyData.teams.push(registrationData);
-      const updatedState: RegistrationState = {
-        ...state,
-        registeredTeamsCount: weeklyData.teams.length,
-      };
-      await writeJsonFile(registrationsPath, weeklyData);
-      await writeJsonFile(statePath, updatedState);
-      
-      // 8. Send Emails (can be done in parallel)
+      if (registrationData.status === 'pending_review') {
+        await sendNewRegistrationEmail(registrationData, tournament);
+        console.log('Registration queued for payment review:', registrationData.teamName);
+        return {
+          success: true,
+          message: 'Payment Under Review',
+          data: toTeamView(registrationData),
+        };
+      }
+
+      // 7. Send Notifications (can be done in parallel)
       await Promise.all([
-          sendNewRegistrationEmail({ teamName, players: validatedPlayers, contactEmail, contactPhone, utrNumber }, screenshotUrl),
-          sendConfirmationEmailToUser(registrationData)
+          sendNewRegistrationEmail(registrationData, tournament),
+          notify('registration_confirmed', registrationData, { team: registrationData, tournament }),
       ]);
       
       console.log('Registration complete for:', registrationData.teamName);
 
-      // 9. Return Success
+      // 8. Return Success
       return {
         success: true,
         message: 'Registration Submitted!',
-        data: registrationData,
+        data: toTeamView(registrationData),
       };
 
   } catch (error) {
@@ -550,178 +771,1353 @@ export async function registerTeam(formData: FormData) {
 
 /**
  * Fetches all registered teams for the current week. (For Admin Dashboard & Teams page)
- * This version is for public display and omits sensitive info.
+ * This version is for public display and omits sensitive info. Teams whose payment
+ * is still under review are included; rejected registrations are not.
  */
-export async function getWeeklyRegistrations(): Promise<Omit<TeamRegistrationData, 'utrNumber' | 'registrationTime' | 'contactPhone' | 'contactEmail' | 'screenshotHash'>[]> {
-    const { weeklyData } = await manageWeeklyState();
+export async function getWeeklyRegistrations(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<Pick<TeamRegistrationData, 'teamName' | 'players' | 'status'>[]> {
+    const { weeklyData } = await readWeeklyState(tournamentId);
     if (!weeklyData) return [];
-    return weeklyData.teams.map(({ teamName, players }) => ({ teamName, players }));
+    return weeklyData.teams.filter(holdsSlot).map(({ teamName, players, status }) => ({ teamName, players, status }));
 }
 
 
 /**
  * Fetches all registered teams for the current week, including all data for admin use.
  */
-export async function getWeeklyRegistrationsForAdmin(): Promise<TeamRegistrationData[]> {
-    const { weeklyData } = await manageWeeklyState();
+export async function getWeeklyRegistrationsForAdmin(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<TeamRegistrationData[]> {
+    await requireAdmin('viewer');
+    const { weeklyData } = await readWeeklyState(tournamentId);
     return weeklyData.teams;
 }
 
 
 /**
- * Fetches the history of all weekly winners from a JSON file.
+ * Fetches the history of all weekly winners from the data store.
  */
-async function readWinnersHistory(): Promise<WeeklyWinner[]> {
-    const winners = await readJsonFile<WeeklyWinner[]>(winnersPath);
-    return winners || [];
+async function readWinnersHistory(tournamentId: string): Promise<WeeklyWinner[]> {
+    return inTournament(tournamentId, scope => scope.winners.list());
 }
 
 /**
- * Saves the weekly winners and sends them a congratulatory email.
+ * Saves the winners for a given week, as ranked by the standings of its last stage,
+ * and sends them a congratulatory email. Every prize-winning rank held by a team that
+ * played in that stage is filled. `weekId` is the week's Monday (`YYYY-MM-DD`), so
+ * winners can be settled after the week has rolled over.
  */
-export async function processAndEmailWinners(firstPlaceTeam: TeamRegistrationData, secondPlaceTeam: TeamRegistrationData) {
-    const { state } = await manageWeeklyState();
-    
-    // 1. Send emails
-    await sendWinnerEmail(firstPlaceTeam, '1st');
-    await sendWinnerEmail(secondPlaceTeam, '2nd');
-
-    // 2. Save winner data
-    const newWinnerRecord: WeeklyWinner = {
-        weekStart: state.registrationWeekStart,
-        winners: [
-            { rank: '1st', teamName: firstPlaceTeam.teamName },
-            { rank: '2nd', teamName: secondPlaceTeam.teamName },
-        ],
-        totalTeams: state.registeredTeamsCount, // Store the final count
-    };
+export async function processAndEmailWinners(
+    weekId: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    const { week, finalStage, tournament } = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        const stages = week ? await loadStages(scope, tournament, week) : [];
+        return { week, finalStage: stages.at(-1), tournament };
+    });
+    if (!week) {
+        return { success: false, error: `No registrations found for week ${weekId}.` };
+    }
+    if (!finalStage) {
+        return { success: false, error: `${tournament.name} has no final stage to rank winners by.` };
+    }
+    // Teams that never played the final stage are not ranked for prizes.
+    const standings = finalStage.standings.filter(s => s.matchesPlayed > 0);
+    if (standings.length === 0) {
+        return { success: false, error: `No ${finalStage.stage.name} results have been entered for week ${weekId}.` };
+    }
 
-    let allWinners = await readWinnersHistory();
-    
-    // Prevent adding duplicate winner entries for the same week
-    allWinners = allWinners.filter(w => w.weekStart !== newWinnerRecord.weekStart);
-    allWinners.unshift(newWinnerRecord); // Add new winners to the beginning of the list
-
-    await writeJsonFile(winnersPath, allWinners);
-
-    console.log(`Winners for week ${state.registrationWeekStart} processed and saved.`);
-}
-
-/**
- * Sends a congratulatory email to a winning team.
- */
-async function sendWinnerEmail(teamData: {teamName: string, contactEmail: string}, rank: '1st' | '2nd') {
-    const RESEND_API_KEY = process.env.RESEND_API_KEY;
-    const { EMAIL_USER } = process.env;
-    if (!RESEND_API_KEY) {
-        const errorMessage = "Resend API key is missing. Cannot send winner email.";
-        console.error(errorMessage);
-        throw new Error(errorMessage);
-    }
-    if (!EMAIL_USER) {
-        const errorMessage = "Sender email not configured. Cannot send winner email.";
-        console.error(errorMessage);
-        throw new Error(errorMessage);
-    }
-
-    const resend = new Resend(RESEND_API_KEY);
-    const isFirstPlace = rank === '1st';
-    const subject = isFirstPlace 
-        ? '🏆 Congratulations on Your 1st Place Victory! 🏆'
-        : '🎉 Congratulations on Securing 2nd Place! 🎉';
-    
-    const prize = isFirstPlace ? '₹750' : '₹120';
-    const message = isFirstPlace
-        ? "Your skill and dedication have paid off. You are the champions of this week's tournament!"
-        : "You fought hard and showed incredible spirit. A well-deserved 2nd place finish!";
-
-    const emailBody = `
-        <h1>Congratulations, ${teamData.teamName}!</h1>
-        <p>On behalf of The Founders Official, we would like to extend our warmest congratulations to you and your team for securing <strong>${rank} Place</strong> in the tournament.</p>
-        <p>${message}</p>
-        <hr>
-        <h2>Prize Information:</h2>
-        <p><strong>Your Prize:</strong> ${prize}</p>
-        <p>Your prize money will be sent to you shortly. We will contact you for the payment details.</p>
-        <hr>
-        <p>We are proud of your achievement and look forward to seeing you dominate in future tournaments.</p>
-        <p>Keep up the great work!</p>
-        <br>
-        <p>Best regards,<br>The Founders Official</p>
-    `;
+    const prizeRanks = tournament.prizes.map(p => p.rank).sort((a, b) => a - b);
+    const winners = prizeRanks
+        .map(rank => ({ rank, standing: standings.find(s => s.rank === rank) }))
+        .filter((w): w is { rank: number; standing: Standing } => w.standing !== undefined);
+
+    // 1. Save winner data, with a new claim link for every prize not yet claimed.
+    // Saved before emailing, so the links work by the time they arrive.
+    const claimTokens = new Map<number, string>();
+    await inTournament(tournamentId, async scope => {
+        const previous = (await scope.winners.list()).find(w => w.weekStart === week.registrationWeekStart);
+        const newWinnerRecord: WeeklyWinner = {
+            weekStart: week.registrationWeekStart,
+            winners: winners.map(({ rank, standing }) => {
+                const prize = prizeForRank(tournament, rank) ?? undefined;
+                // A winner who already gave their details for this rank keeps them.
+                const kept = previous?.winners.find(w => w.rank === ordinal(rank) && w.teamId === standing.teamId)?.claim;
+                let claim = kept?.claimedAt ? kept : undefined;
+                if (!claim && prize) {
+                    const issued = createClaimToken({ tournamentId, registrationWeekStart: week.registrationWeekStart, rank });
+                    claimTokens.set(rank, issued.token);
+                    claim = issued.claim;
+                }
+                return {
+                    rank: ordinal(rank),
+                    teamName: standing.teamName,
+                    teamId: standing.teamId,
+                    points: standing.totalPoints,
+                    prize,
+                    claim,
+                };
+            }),
+            totalTeams: week.teams.filter(t => t.status === 'confirmed').length, // Store the final count
+            settledAt: new Date().toISOString(),
+        };
+        // Replaces any earlier record for the same week
+        await scope.winners.save(newWinnerRecord);
+    });
 
-    try {
-        await resend.emails.send({
-            from: `"The Founders Official" <${EMAIL_USER}>`,
-            to: teamData.contactEmail,
-            subject: subject,
-            html: emailBody,
+    // 2. Notify the winners
+    for (const { rank, standing } of winners) {
+        const team = week.teams.find(t => t.id === standing.teamId)!;
+        const token = claimTokens.get(rank);
+        await notify('winner', team, {
+            teamName: team.teamName,
+            rank,
+            points: standing.totalPoints,
+            tournament,
+            claimUrl: token ? claimLink(token) : null,
         });
-        console.log(`Winner email sent to ${rank} place team: ${teamData.teamName}`);
-    } catch (error) {
-        console.error(`Error sending winner email to ${teamData.teamName} via Resend:`, error);
-        throw new Error("Failed to send the congratulatory email.");
     }
+
+    console.log(`Winners for week ${weekId} processed and saved by ${admin.username}.`);
+    return { success: true };
 }
 
+/**
+ * The page where a winner gives their payout details, or null if SITE_URL is not set.
+ */
+function claimLink(token: string): string | null {
+    const { SITE_URL } = process.env;
+    if (!SITE_URL) {
+        console.warn("SITE_URL not configured. Winner emails will not include a claim link.");
+        return null;
+    }
+    return `${SITE_URL.replace(/\/$/, '')}/claim?token=${encodeURIComponent(token)}`;
+}
 
 /**
  * Fetches the history of all weekly winners.
  */
-export async function getWinnersHistory(): Promise<WeeklyWinner[]> {
-    return await readWinnersHistory();
+export async function getWinnersHistory(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<WeeklyWinner[]> {
+    return await readWinnersHistory(tournamentId);
 }
 
+// --- Contact Verification ---
+
+const contactSchemas: Record<ContactKind, z.ZodString> = {
+    email: z.string().trim().email("Invalid email address."),
+    phone: z.string().trim().regex(/^[0-9]{10}$/, "Must be a valid 10-digit phone number."),
+};
+
 /**
- * Fetches the history of all weekly winners for the balance page.
+ * The contacts the registration and waitlist forms must verify before submitting:
+ * the email address, and the phone number when codes can be sent to phones.
  */
-export async function getBalanceHistory(): Promise<WeeklyWinner[]> {
-    return getWinnersHistory();
+export async function getRequiredContactVerifications(): Promise<ContactKind[]> {
+    return requiredContactKinds();
 }
 
 /**
- * Fetches a single team's registration details by their UTR number for the current week.
+ * Sends a 6-digit code to an email address or phone number, to be entered with
+ * `verifyContactCode`. Codes expire after 10 minutes.
  */
-export async function getTeamByUTR(utr: string): Promise<{ success: boolean; data?: TeamRegistrationData; error?: string }> {
-    if (!utr || utr.trim() === '') {
-        return { success: false, error: 'UTR number is required.' };
+export async function requestContactCode(
+    kind: ContactKind,
+    contact: string
+): Promise<{ success: boolean; expiresAt?: string; error?: string }> {
+    if (kind !== 'email' && kind !== 'phone') {
+        return { success: false, error: 'Unknown contact type.' };
+    }
+    const parsed = contactSchemas[kind].safeParse(contact);
+    if (!parsed.success) {
+        return { success: false, error: parsed.error.errors[0].message };
+    }
+    const channel = kind === 'phone' ? phoneCodeChannel() : null;
+    if (kind === 'phone' && !channel) {
+        return { success: false, error: 'Phone numbers cannot be verified at the moment.' };
     }
 
-    const { weeklyData } = await manageWeeklyState();
+    const limitError = await admitContactCodeRequest({
+        ip: await clientIp(),
+        ...(kind === 'email' ? { contactEmail: parsed.data } : { contactPhone: parsed.data }),
+    });
+    if (limitError) {
+        return { success: false, error: limitError };
+    }
 
-    const foundTeam = weeklyData.teams.find(
-        team => team.utrNumber.trim().toLowerCase() === utr.trim().toLowerCase()
-    );
+    const issued = await getDataStore().transaction(repo => issueContactCode(repo, kind, parsed.data, new Date()));
+    if (issued.error !== undefined) {
+        return { success: false, error: issued.error };
+    }
+    // Sent without being stored, so the code itself is kept nowhere but in its hash.
+    const data = { code: issued.code, expiresInMinutes: CONTACT_CODE_TTL_MS / 60_000 };
+    const sent = channel
+        ? await sendPhoneMessageUnstored(channel, 'verification_code', parsed.data, data)
+        : await sendEmailUnstored('verification_code', parsed.data, data);
+    if (!sent) {
+        return { success: false, error: 'We could not send the code. Please try again in a minute.' };
+    }
+    return { success: true, expiresAt: issued.expiresAt };
+}
 
-    if (foundTeam) {
-        return { success: true, data: foundTeam };
-    } else {
-        return { success: false, error: 'No registration found for this UTR number in the current week.' };
+/**
+ * Checks a code sent by `requestContactCode`. On success, returns the proof to
+ * submit with the form as `emailProof` or `phoneProof`; it is good for an hour.
+ */
+export async function verifyContactCode(
+    kind: ContactKind,
+    contact: string,
+    code: string
+): Promise<{ success: boolean; proof?: string; error?: string }> {
+    if ((kind !== 'email' && kind !== 'phone') || !contact?.trim() || !code?.trim()) {
+        return { success: false, error: 'Please enter the code we sent you.' };
+    }
+    const result = await getDataStore().transaction(repo => confirmContactCode(repo, kind, contact, code, new Date()));
+    if (result.error !== undefined) {
+        return { success: false, error: result.error };
     }
+    return { success: true, proof: result.proof };
 }
 
+// --- Ledger ---
 
 /**
- * Fetches all archived registration data. For admin use only.
+ * The balance page: every week's entry fees, prizes owed and paid, refunds and
+ * the organiser's net, most recent week first.
+ */
+export async function getBalanceHistory(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<WeeklyLedger[]> {
+    await requireAdmin('viewer');
+    return inTournament(tournamentId, (scope, tournament) => loadLedgers(scope, tournament));
+}
+
+/**
+ * The ledger as CSV: one row per week, or one per entry with `detail` set to `entries`.
+ */
+export async function exportLedgerCsv(
+    tournamentId: string = DEFAULT_TOURNAMENT_ID,
+    detail: 'summary' | 'entries' = 'summary'
+): Promise<string> {
+    const admin = await requireAdmin('viewer');
+    const ledgers = await inTournament(tournamentId, (scope, tournament) => loadLedgers(scope, tournament));
+    console.log(`Ledger for ${tournamentId} exported by ${admin.username}.`);
+    return ledgerToCsv(ledgers, detail);
+}
+
+const paymentSchema = z.object({
+    upiReference: z.string().trim().min(1, 'The UPI reference is required.'),
+    amount: z.number().positive().optional(),
+    paidAt: z.string().optional(),
+});
+
+type PaymentDetails = z.infer<typeof paymentSchema>;
+
+/**
+ * Validates a prize or refund payment. The payment date is read in the tournament's
+ * time zone and defaults to now; a missing amount is left for the caller to fill in.
+ */
+function parsePayment(
+    details: PaymentDetails,
+    tournament: Tournament
+): { upiReference: string; amount?: number; paidAt: string; error?: undefined } | { error: string } {
+    const parsed = paymentSchema.safeParse(details);
+    if (!parsed.success) {
+        return { error: parsed.error.errors[0].message };
+    }
+    const paidAt = parsed.data.paidAt ? parseDateInZone(parsed.data.paidAt, tournament.timezone) : new Date();
+    if (isNaN(paidAt.getTime())) {
+        return { error: 'Invalid payment date.' };
+    }
+    return { upiReference: parsed.data.upiReference, amount: parsed.data.amount, paidAt: paidAt.toISOString() };
+}
+
+/**
+ * Records that a settled week's prize for `rank` was paid, with the UPI reference.
+ * The amount defaults to the prize owed.
  */
-export async function getArchivedRegistrations(): Promise<WeeklyData[]> {
-    await ensureDataDirectories();
-    const allFiles = await fs.readdir(archiveDir);
-    
-    const jsonFiles = allFiles
-        .filter(file => file.startsWith('registrations-') && file.endsWith('.json'))
-        .sort() // Sorts alphabetically, which works for YYYY-MM-DD format
-        .reverse(); // Show most recent first
-
-    const allData: WeeklyData[] = [];
-
-    for (const file of jsonFiles) {
-        const filePath = path.join(archiveDir, file);
-        const data = await readJsonFile<WeeklyData>(filePath);
-        if (data) {
-            allData.push(data);
+export async function recordPrizePayout(
+    weekId: string,
+    rank: number,
+    payment: PaymentDetails,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    const error = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        const record = week && (await scope.winners.list()).find(w => w.weekStart === week.registrationWeekStart);
+        const winner = record?.winners.find(w => w.rank === ordinal(rank));
+        if (!week || !winner?.teamId) return `No ${ordinal(rank)} place winner has been settled for week ${weekId}.`;
+        const payouts = await scope.payouts.list();
+        if (payouts.some(p => p.kind === 'prize' && p.registrationWeekStart === week.registrationWeekStart && p.rank === rank)) {
+            return `The ${ordinal(rank)} place prize for week ${weekId} has already been paid.`;
         }
+        const parsed = parsePayment(payment, tournament);
+        if (parsed.error !== undefined) return parsed.error;
+
+        await scope.payouts.add({
+            id: crypto.randomUUID(),
+            registrationWeekStart: week.registrationWeekStart,
+            kind: 'prize',
+            teamId: winner.teamId,
+            teamName: winner.teamName,
+            rank,
+            amount: parsed.amount ?? prizeOwed(tournament, winner),
+            upiReference: parsed.upiReference,
+            paidAt: parsed.paidAt,
+            recordedBy: admin.username,
+            recordedAt: new Date().toISOString(),
+        });
+        return null;
+    });
+    if (error) {
+        return { success: false, error };
+    }
+    console.log(`${ordinal(rank)} place prize for week ${weekId} marked paid by ${admin.username}.`);
+    return { success: true };
+}
+
+// --- Prize Claims ---
+
+const INVALID_CLAIM_LINK = 'This claim link is invalid or has expired. Please ask us to send a new one.';
+
+/**
+ * What a claim link is for, so the claim page can show it before the winner gives their details.
+ */
+export async function getPrizeClaim(token: string): Promise<{
+    success: boolean;
+    data?: { tournamentName: string; teamName: string; rank: string; prize: number; status: PrizeClaimStatus };
+    error?: string;
+}> {
+    const payload = readClaimToken(token);
+    if (!payload) {
+        return { success: false, error: INVALID_CLAIM_LINK };
+    }
+    const data = await inTournament(payload.tournamentId, async (scope, tournament) => {
+        const winner = findWinnerForClaim(await scope.winners.list(), payload);
+        return winner && {
+            tournamentName: tournament.name,
+            teamName: winner.teamName,
+            rank: winner.rank,
+            prize: prizeOwed(tournament, winner),
+            status: claimStatus(winner.claim),
+        };
+    });
+    return data ? { success: true, data } : { success: false, error: INVALID_CLAIM_LINK };
+}
+
+/**
+ * Saves the UPI ID and account holder name a winner gives through their claim link.
+ * A link works once; after that, only a new link from an admin can change the details.
+ */
+export async function submitPrizeClaim(formData: FormData): Promise<{ success: boolean; error?: string }> {
+    const payload = readClaimToken(String(formData.get('token') ?? ''));
+    if (!payload) {
+        return { success: false, error: INVALID_CLAIM_LINK };
+    }
+    const parsed = prizeClaimSchema.safeParse({
+        upiId: formData.get('upiId'),
+        accountHolder: formData.get('accountHolder'),
+    });
+    if (!parsed.success) {
+        return { success: false, error: parsed.error.errors[0].message };
+    }
+
+    const error = await inTournament(payload.tournamentId, async scope => {
+        const records = await scope.winners.list();
+        const winner = findWinnerForClaim(records, payload);
+        if (!winner?.claim) return INVALID_CLAIM_LINK;
+        if (winner.claim.claimedAt) return 'Your payout details have already been submitted.';
+
+        winner.claim = { ...winner.claim, claimedAt: new Date().toISOString(), ...parsed.data };
+        await scope.winners.save(records.find(w => w.weekStart === payload.registrationWeekStart)!);
+        return null;
+    });
+    if (error) {
+        return { success: false, error };
     }
+    console.log(`Payout details submitted for the ${ordinal(payload.rank)} place prize of ${payload.registrationWeekStart}.`);
+    return { success: true };
+}
+
+/**
+ * Sends a winner a new claim link, e.g. when the first one expired or went astray.
+ * Earlier links stop working.
+ */
+export async function resendPrizeClaim(
+    weekId: string,
+    rank: number,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    const result = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        const records = await scope.winners.list();
+        const record = week && records.find(w => w.weekStart === week.registrationWeekStart);
+        const winner = record?.winners.find(w => w.rank === ordinal(rank));
+        const team = winner && week!.teams.find(t => t.id === winner.teamId);
+        if (!record || !winner || !team) return { error: `No ${ordinal(rank)} place winner has been settled for week ${weekId}.` };
+        if (prizeOwed(tournament, winner) === 0) return { error: `The ${ordinal(rank)} place has no prize to claim.` };
+        if (winner.claim?.claimedAt) return { error: 'The winner has already submitted their payout details.' };
+
+        const issued = createClaimToken({ tournamentId, registrationWeekStart: record.weekStart, rank });
+        winner.claim = issued.claim;
+        await scope.winners.save(record);
+        return { tournament, team, points: winner.points ?? 0, token: issued.token };
+    });
+    if ('error' in result) {
+        return { success: false, error: result.error };
+    }
+
+    const deliveries = await notify('winner', result.team, {
+        teamName: result.team.teamName,
+        rank,
+        points: result.points,
+        tournament: result.tournament,
+        claimUrl: claimLink(result.token),
+    });
+    if (deliveries.every(d => d.status === 'dead')) {
+        return { success: false, error: `The claim link could not be sent: ${deliveries.map(d => `${d.channel}: ${d.error}`).join('; ')}` };
+    }
+    console.log(`New claim link for the ${ordinal(rank)} place prize of week ${weekId} sent by ${admin.username}.`);
+    return { success: true };
+}
+
+/**
+ * Every settled prize with its claim status, the winner's UPI details and the
+ * payment made, most recent week first.
+ */
+export async function getPrizePayoutList(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<PrizePayoutItem[]> {
+    await requireAdmin('viewer');
+    return inTournament(tournamentId, async (scope, tournament) =>
+        listPrizePayouts(tournament, await scope.winners.list(), await scope.payouts.list())
+    );
+}
 
-    return allData;
+/**
+ * Fetches a single team's registration details, including its status, by their UTR
+ * number for the current week. Admins can look up any team; teams checking their own
+ * registration must also give the phone number they registered with.
+ */
+export async function getTeamByUTR(
+    utr: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID,
+    contactPhone?: string
+): Promise<{ success: boolean; data?: TeamView; error?: string }> {
+    if (!utr || utr.trim() === '') {
+        return { success: false, error: 'UTR number is required.' };
+    }
+    const admin = await getAdminSession();
+    if (!admin && !contactPhone?.trim()) {
+        return { success: false, error: 'Please enter the phone number you registered with.' };
+    }
+
+    const { weeklyData } = await readWeeklyState(tournamentId);
+    const foundTeam = findTeamByUtr(weeklyData.teams, utr);
+
+    // A wrong phone number gets the same answer as an unknown UTR, so UTRs can't be probed.
+    if (foundTeam && (admin || foundTeam.contactPhone.trim() === contactPhone?.trim())) {
+        return { success: true, data: toTeamView(foundTeam) };
+    } else {
+        return { success: false, error: 'No registration found for this UTR number in the current week.' };
+    }
+}
+
+
+/**
+ * Fetches all archived registration data. For admin use only.
+ */
+export async function getArchivedRegistrations(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<WeeklyData[]> {
+    await requireAdmin('viewer');
+    return inTournament(tournamentId, scope => scope.archives.list());
+}
+
+
+// --- Lobbies and Schedule ---
+
+/**
+ * Every stage of a week with its eligible teams and lobbies, for assigning
+ * teams to lobbies. Defaults to the current week.
+ */
+export async function getLobbiesForAdmin(
+    tournamentId: string = DEFAULT_TOURNAMENT_ID,
+    weekId?: string
+): Promise<{ weekId: string; teams: Pick<TeamRegistrationData, 'id' | 'teamName'>[]; stages: StageState[] } | null> {
+    await requireAdmin('viewer');
+    return inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekOrCurrent(scope, tournament, weekId);
+        if (!week) return null;
+        return {
+            weekId: getWeekId(week.registrationWeekStart, tournament.timezone),
+            teams: week.teams.filter(t => t.status === 'confirmed').map(({ id, teamName }) => ({ id, teamName })),
+            stages: await loadStages(scope, tournament, week),
+        };
+    });
+}
+
+/**
+ * Puts teams (in seed order) into one lobby of a stage, replacing whoever was
+ * there. `startsAt` moves the lobby off the stage's usual time; an empty list
+ * of teams clears the lobby.
+ */
+export async function assignLobby(
+    weekId: string,
+    stageId: string,
+    lobby: number,
+    teamIds: string[],
+    tournamentId: string = DEFAULT_TOURNAMENT_ID,
+    startsAt?: string
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const error = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        if (!week) return `No registrations found for week ${weekId}.`;
+        const state = (await loadStages(scope, tournament, week)).find(s => s.stage.id === stageId);
+        if (!state) return `Unknown stage "${stageId}".`;
+        const confirmedIds = new Set(week.teams.filter(t => t.status === 'confirmed').map(t => t.id));
+        const invalid = validateLobbyAssignment(state, confirmedIds, lobby, teamIds);
+        if (invalid) return invalid;
+        const start = startsAt ? parseDateInZone(startsAt, tournament.timezone) : undefined;
+        if (start && isNaN(start.getTime())) return 'Invalid start time.';
+
+        if (teamIds.length === 0) {
+            await scope.lobbies.remove(week.registrationWeekStart, stageId, lobby);
+            return null;
+        }
+        await scope.lobbies.save({
+            registrationWeekStart: week.registrationWeekStart,
+            stageId,
+            lobby,
+            teamIds,
+            startsAt: start?.toISOString(),
+            assignedBy: admin.username,
+            assignedAt: new Date().toISOString(),
+        });
+        return null;
+    });
+    if (error) {
+        return { success: false, error };
+    }
+    console.log(`Lobby ${lobby} of ${stageId} in week ${weekId} assigned by ${admin.username}.`);
+    return { success: true };
+}
+
+/**
+ * Deals every team eligible for a stage into its lobbies in snake order: the first
+ * stage seeds by registration order, later stages by how teams qualified. Replaces
+ * any earlier assignment, so it is refused once the stage has results.
+ */
+export async function seedStage(
+    weekId: string,
+    stageId: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const error = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        if (!week) return `No registrations found for week ${weekId}.`;
+        const state = (await loadStages(scope, tournament, week)).find(s => s.stage.id === stageId);
+        if (!state) return `Unknown stage "${stageId}".`;
+        const { stage, eligibleTeamIds } = state;
+        if (state.lobbies.some(l => l.results.length > 0)) {
+            return `${stage.name} already has results; assign its lobbies by hand instead.`;
+        }
+        if (eligibleTeamIds.length === 0) {
+            return `No teams have qualified for ${stage.name} yet.`;
+        }
+        if (eligibleTeamIds.length > stage.lobbies * stage.lobbySize) {
+            return `${eligibleTeamIds.length} teams do not fit in ${stage.lobbies} lobbies of ${stage.lobbySize}.`;
+        }
+
+        const existing = await scope.lobbies.listByWeek(week.registrationWeekStart);
+        const seeded = seedIntoLobbies(eligibleTeamIds, stage.lobbies);
+        for (const [index, teamIds] of seeded.entries()) {
+            const lobby = index + 1;
+            await scope.lobbies.save({
+                registrationWeekStart: week.registrationWeekStart,
+                stageId,
+                lobby,
+                teamIds,
+                // Keep a start time an admin already moved.
+                startsAt: existing.find(a => a.stageId === stageId && a.lobby === lobby)?.startsAt,
+                assignedBy: admin.username,
+                assignedAt: new Date().toISOString(),
+            });
+        }
+        return null;
+    });
+    if (error) {
+        return { success: false, error };
+    }
+    console.log(`${stageId} in week ${weekId} seeded by ${admin.username}.`);
+    return { success: true };
+}
+
+/**
+ * The public match schedule for the current week: which teams play in each lobby
+ * and when. Lobbies without teams yet are left out.
+ */
+export async function getSchedule(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<{ weekId: string; lobbies: ScheduledLobby[] }> {
+    return inTournament(tournamentId, async (scope, tournament) => {
+        const { weeklyData } = await manageWeeklyState(scope, tournament);
+        const names = new Map(weeklyData.teams.map(t => [t.id, t.teamName]));
+        const stages = await loadStages(scope, tournament, weeklyData);
+        return {
+            weekId: getWeekId(weeklyData.registrationWeekStart, tournament.timezone),
+            lobbies: stages.flatMap(({ stage, lobbies }) => lobbies
+                .filter(l => l.teamIds.length > 0)
+                .map(l => ({
+                    stageName: stage.name,
+                    lobby: l.lobby,
+                    startsAt: l.startsAt,
+                    teams: l.teamIds.map(id => names.get(id) ?? id),
+                }))),
+        };
+    });
+}
+
+// --- Room Details ---
+
+/**
+ * Stores the room ID and password for a lobby, to be released to its teams at
+ * `releaseAt` (by default, as long before the lobby starts as the match format's
+ * room details time). Changing a room that has gone out sends it again.
+ */
+export async function setRoomDetails(
+    weekId: string,
+    target: { stageId: string; lobby: number },
+    details: { roomId: string; password: string; releaseAt?: string },
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const { stageId, lobby } = target;
+    const roomId = details.roomId.trim();
+    const password = details.password.trim();
+    if (!roomId || !password) {
+        return { success: false, error: 'Room ID and password are required.' };
+    }
+    const error = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        if (!week) return `No registrations found for week ${weekId}.`;
+        const state = (await loadStages(scope, tournament, week)).find(s => s.stage.id === stageId);
+        const lobbyState = state?.lobbies.find(l => l.lobby === lobby);
+        if (!lobbyState) return `Unknown lobby ${lobby} of stage "${stageId}".`;
+        const releaseAt = details.releaseAt
+            ? parseDateInZone(details.releaseAt, tournament.timezone)
+            : defaultRoomRelease(tournament, lobbyState.startsAt);
+        if (isNaN(releaseAt.getTime())) return 'Invalid release time.';
+
+        await scope.rooms.save({
+            registrationWeekStart: week.registrationWeekStart,
+            stageId,
+            lobby,
+            roomId,
+            password,
+            releaseAt: releaseAt.toISOString(),
+            setBy: admin.username,
+            setAt: new Date().toISOString(),
+            deliveries: [],
+        });
+        return null;
+    });
+    if (error) {
+        return { success: false, error };
+    }
+    console.log(`Room for ${stageId} lobby ${lobby} in week ${weekId} set by ${admin.username}.`);
+    return { success: true };
+}
+
+/**
+ * Every room of a week (the current week by default), with the record of which
+ * teams have received it and how.
+ */
+export async function getRoomDetailsForAdmin(
+    tournamentId: string = DEFAULT_TOURNAMENT_ID,
+    weekId?: string
+): Promise<RoomDetails[] | null> {
+    await requireAdmin('viewer');
+    return inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekOrCurrent(scope, tournament, weekId);
+        return week && scope.rooms.listByWeek(week.registrationWeekStart);
+    });
+}
+
+/**
+ * The team page: the lobbies a confirmed team plays in this week, and their room
+ * ID and password once released. Gated by UTR and phone number, like `getTeamByUTR`.
+ */
+export async function getTeamRooms(
+    utr: string,
+    contactPhone: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; rooms?: TeamRoom[]; error?: string }> {
+    if (!utr?.trim() || !contactPhone?.trim()) {
+        return { success: false, error: 'Please enter your UTR number and the phone number you registered with.' };
+    }
+    return inTournament(tournamentId, async (scope, tournament) => {
+        const { weeklyData } = await manageWeeklyState(scope, tournament);
+        const team = findTeamByUtr(weeklyData.teams, utr);
+        if (!team || team.contactPhone.trim() !== contactPhone.trim()) {
+            return { success: false, error: 'No registration found for this UTR number in the current week.' };
+        }
+        if (team.status !== 'confirmed') {
+            return { success: false, error: 'Room details are only shared with confirmed teams.' };
+        }
+
+        const now = new Date();
+        const stages = await loadStages(scope, tournament, weeklyData);
+        const rooms = await scope.rooms.listByWeek(weeklyData.registrationWeekStart);
+        const teamRooms = roomsForTeam(stages, rooms, team.id, now);
+        for (const { stageId, lobby, room } of teamRooms) {
+            const released = room && rooms.find(r => r.stageId === stageId && r.lobby === lobby);
+            if (released) await recordRoomDelivery(scope, released, team.id, 'team_page', now);
+        }
+        return { success: true, rooms: teamRooms };
+    });
+}
+
+/**
+ * The channels teams can choose to be notified on: email, and WhatsApp and SMS
+ * when a provider is set up for them.
+ */
+export async function getNotificationChannels(): Promise<NotificationChannel[]> {
+    return availableChannels();
+}
+
+/**
+ * Changes where a team gets its confirmations, room details and prize notices.
+ * Gated by UTR and phone number, like `getTeamByUTR`.
+ */
+export async function updateNotificationChannels(
+    utr: string,
+    contactPhone: string,
+    channels: NotificationChannel[],
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    if (!utr?.trim() || !contactPhone?.trim()) {
+        return { success: false, error: 'Please enter your UTR number and the phone number you registered with.' };
+    }
+    const parsed = notificationChannelsSchema.safeParse(channels);
+    if (!parsed.success) {
+        return { success: false, error: parsed.error.errors[0].message };
+    }
+    return inTournament(tournamentId, async (scope, tournament) => {
+        const { weeklyData } = await manageWeeklyState(scope, tournament);
+        const team = findTeamByUtr(weeklyData.teams, utr);
+        if (!team || team.contactPhone.trim() !== contactPhone.trim()) {
+            return { success: false, error: 'No registration found for this UTR number in the current week.' };
+        }
+        await scope.teams.update(weeklyData.registrationWeekStart, { ...team, notificationChannels: parsed.data });
+        return { success: true };
+    });
+}
+
+// --- Match Results ---
+
+/**
+ * Enters or corrects one match of a lobby: each team's placement and kills.
+ * Teams that did not play are left out.
+ */
+export async function recordMatchResult(
+    weekId: string,
+    match: { stageId: string; lobby: number; matchNumber: number },
+    placements: MatchPlacement[],
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const { stageId, lobby, matchNumber } = match;
+    if (!Number.isInteger(matchNumber) || matchNumber < 1) {
+        return { success: false, error: 'Match number must be 1 or more.' };
+    }
+    const error = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        if (!week) return `No registrations found for week ${weekId}.`;
+        const state = (await loadStages(scope, tournament, week)).find(s => s.stage.id === stageId);
+        const lobbyState = state?.lobbies.find(l => l.lobby === lobby);
+        if (!state || !lobbyState) return `Unknown lobby ${lobby} of stage "${stageId}".`;
+        if (lobbyState.teamIds.length === 0) return `No teams have been assigned to lobby ${lobby} of ${state.stage.name} yet.`;
+        const lobbyTeams = week.teams.filter(t => lobbyState.teamIds.includes(t.id));
+        const invalid = validatePlacements(lobbyTeams, placements);
+        if (invalid) return invalid;
+        await scope.results.save({
+            registrationWeekStart: week.registrationWeekStart,
+            stageId,
+            lobby,
+            matchNumber,
+            placements: placements.map(({ teamId, placement, kills }) => ({ teamId, placement, kills })),
+            enteredBy: admin.username,
+            enteredAt: new Date().toISOString(),
+        });
+        return null;
+    });
+    if (error) {
+        return { success: false, error };
+    }
+    console.log(`Result of ${stageId} lobby ${lobby} match ${matchNumber} in week ${weekId} entered by ${admin.username}.`);
+    return { success: true };
+}
+
+export async function deleteMatchResult(
+    weekId: string,
+    match: { stageId: string; lobby: number; matchNumber: number },
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const { stageId, lobby, matchNumber } = match;
+    const found = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekById(scope, tournament, weekId);
+        if (week) await scope.results.remove(week.registrationWeekStart, stageId, lobby, matchNumber);
+        return week !== null;
+    });
+    if (!found) {
+        return { success: false, error: `No registrations found for week ${weekId}.` };
+    }
+    console.log(`Result of ${stageId} lobby ${lobby} match ${matchNumber} in week ${weekId} deleted by ${admin.username}.`);
+    return { success: true };
+}
+
+/**
+ * Standings for every stage and lobby of a week (the current week by default),
+ * built from the match results entered so far.
+ */
+export async function getStandings(
+    tournamentId: string = DEFAULT_TOURNAMENT_ID,
+    weekId?: string
+): Promise<{ weekId: string; stages: StageState[] } | null> {
+    return inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekOrCurrent(scope, tournament, weekId);
+        if (!week) return null;
+        return {
+            weekId: getWeekId(week.registrationWeekStart, tournament.timezone),
+            stages: await loadStages(scope, tournament, week),
+        };
+    });
+}
+
+// --- Waitlist ---
+
+/**
+ * Adds a team to the waitlist when every slot is taken. Takes the same form as
+ * `registerTeam`, without the payment fields, and returns the team's place in line.
+ */
+export async function joinWaitlist(formData: FormData): Promise<{ success: boolean; position?: number; error?: string }> {
+    const tournamentId = (formData.get('tournamentId') as string | null) || DEFAULT_TOURNAMENT_ID;
+    const tournament = await getDataStore().transaction(repo => getTournament(repo, tournamentId));
+    if (!tournament) {
+        return { success: false, error: 'This tournament does not exist.' };
+    }
+    const status = await getRegistrationStatus(tournamentId);
+    if (!status.isWaitlistOpen) {
+        return {
+            success: false,
+            error: status.isOpen
+                ? 'Slots are still available. Please register directly.'
+                : 'Registrations are currently closed. Please check back next week.',
+        };
+    }
+
+    const rawData = Object.fromEntries(formData.entries());
+    const validationResult = buildRegistrationSchema(tournament)
+        .pick({ teamName: true, players: true, contactEmail: true, contactPhone: true, notificationChannels: true })
+        .safeParse({
+            teamName: rawData.teamName,
+            contactEmail: rawData.contactEmail,
+            contactPhone: rawData.contactPhone,
+            notificationChannels: formChannels(formData),
+            players: Array.from({ length: tournament.teamSize }, (_, i) => ({
+                id: rawData[`players.${i}.id`],
+                level: rawData[`players.${i}.level`],
+            })),
+        });
+    if (!validationResult.success) {
+        const firstError = validationResult.error.errors[0];
+        return { success: false, error: `${firstError.path.join('.')}: ${firstError.message}` };
+    }
+    const contactError = await checkContactsVerified(formData, {
+        email: validationResult.data.contactEmail,
+        phone: validationResult.data.contactPhone,
+    });
+    if (contactError) {
+        return { success: false, error: contactError };
+    }
+
+    const joined = await inTournament(tournamentId, async (scope, tournament, repo) => {
+        const bannedError = await checkPlayersAllowed(repo, validationResult.data.players);
+        if (bannedError) return { error: bannedError };
+        const { state } = await manageWeeklyState(scope, tournament);
+        return addToWaitlist(scope, { registrationWeekStart: state.registrationWeekStart, team: validationResult.data, now: new Date() });
+    });
+    if (joined.error !== undefined) {
+        return { success: false, error: joined.error };
+    }
+    console.log(`${joined.entry.teamName} joined the waitlist at position ${joined.position}.`);
+    return { success: true, position: joined.position };
+}
+
+/**
+ * Shows a team where it stands on this week's waitlist, given the email and
+ * phone number it joined with.
+ */
+export async function getWaitlistStatus(
+    contactEmail: string,
+    contactPhone: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; status?: WaitlistStatus; position?: number; inviteExpiresAt?: string; error?: string }> {
+    if (!contactEmail?.trim() || !contactPhone?.trim()) {
+        return { success: false, error: 'Email and phone number are required.' };
+    }
+    const found = await inTournament(tournamentId, async (scope, tournament) => {
+        const { state } = await manageWeeklyState(scope, tournament);
+        return findWaitlistEntry(scope, state.registrationWeekStart, contactEmail, contactPhone);
+    });
+    if (!found) {
+        return { success: false, error: 'This team is not on the waitlist for the current week.' };
+    }
+    return {
+        success: true,
+        status: found.entry.status,
+        position: found.position ?? undefined,
+        inviteExpiresAt: found.entry.status === 'invited' ? found.entry.invite?.expiresAt : undefined,
+    };
+}
+
+/**
+ * The current week's waitlist in order, for admins.
+ */
+export async function getWaitlistForAdmin(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<Omit<WaitlistEntry, 'invite'>[]> {
+    await requireAdmin('viewer');
+    const entries = await inTournament(tournamentId, async (scope, tournament) => {
+        const { state } = await manageWeeklyState(scope, tournament);
+        return scope.waitlist.listByWeek(state.registrationWeekStart);
+    });
+    // Invitation token hashes stay on the server.
+    return entries.map(entry => {
+        const view: Partial<WaitlistEntry> = { ...entry };
+        delete view.invite;
+        return view as Omit<WaitlistEntry, 'invite'>;
+    });
+}
+
+// --- Payment Review ---
+
+/**
+ * Registrations whose payment could not be verified automatically, with the
+ * screenshot, the AI's reason and the date it read. For verifiers.
+ */
+export async function getPaymentReviewQueue(tournamentId: string = DEFAULT_TOURNAMENT_ID): Promise<PendingReview[]> {
+    await requireAdmin('verifier');
+    return inTournament(tournamentId, (scope, tournament) => listPendingReviews(scope, tournament));
+}
+
+/**
+ * Approves a payment under review and sends the team the usual confirmation.
+ */
+export async function approvePendingRegistration(
+    teamId: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const { decision, tournament } = await inTournament(tournamentId, async (scope, tournament) => ({
+        decision: await decidePaymentReview(scope, { teamId, approve: true, decidedBy: admin.username, now: new Date() }),
+        tournament,
+    }));
+    if (decision.error !== undefined) {
+        return { success: false, error: decision.error };
+    }
+
+    await notify('registration_confirmed', decision.team, { team: decision.team, tournament });
+    console.log(`Payment for ${decision.team.teamName} approved by ${admin.username}.`);
+    return { success: true };
+}
+
+/**
+ * Rejects a payment under review, freeing the slot, and tells the team why.
+ */
+export async function rejectPendingRegistration(
+    teamId: string,
+    note: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const { decision, tournament } = await inTournament(tournamentId, async (scope, tournament) => ({
+        decision: await decidePaymentReview(scope, { teamId, approve: false, decidedBy: admin.username, note, now: new Date() }),
+        tournament,
+    }));
+    if (decision.error !== undefined) {
+        return { success: false, error: decision.error };
+    }
+
+    await sendEmail('payment_rejected', decision.team.contactEmail, { team: decision.team, tournament });
+    console.log(`Payment for ${decision.team.teamName} rejected by ${admin.username}.`);
+    await fillSlotsFromWaitlist(tournamentId);
+    return { success: true };
+}
+
+/**
+ * Checks a stored registration's payment screenshot again, in any week, and adds
+ * the result to its verification history. The registration's status is left as
+ * it is; a verifier decides what to do with the result.
+ */
+export async function rerunPaymentVerification(
+    teamId: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; data?: PaymentVerification; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const found = await inTournament(tournamentId, async (scope, tournament) => ({
+        registration: await findRegistration(scope, teamId),
+        tournament,
+    }));
+    if (!found.registration) {
+        return { success: false, error: 'Registration not found.' };
+    }
+    const { registration: { registrationWeekStart, team }, tournament } = found;
+    const screenshotUrl = team.screenshotUrl ?? team.review?.screenshotUrl;
+    if (!screenshotUrl) {
+        return { success: false, error: 'No screenshot is stored for this registration.' };
+    }
+
+    let screenshot: Screenshot;
+    try {
+        const response = await fetch(screenshotUrl, { signal: AbortSignal.timeout(30_000) });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        screenshot = {
+            image: Buffer.from(await response.arrayBuffer()),
+            mimeType: response.headers.get('content-type') ?? 'image/png',
+        };
+    } catch (error) {
+        console.error(`Could not download the screenshot of ${team.teamName}.`, error);
+        return { success: false, error: 'Could not download the payment screenshot. Please try again.' };
+    }
+
+    const expected = { reference: team.paymentReference ?? '', amount: entryFeeOf(team, tournament) };
+    const check = await verifyPayment(screenshot, team.utrNumber, expected);
+    if (!check) {
+        return { success: false, error: 'Payment verification is unavailable. Please try again later.' };
+    }
+    const judgement = judgePayment(check, { ...expected, registrationWeekStart, timeZone: tournament.timezone });
+    const verification = toVerificationRecord(check, judgement, { checkedAt: new Date().toISOString(), requestedBy: admin.username });
+
+    const saved = await inTournament(tournamentId, async scope => {
+        const current = await findRegistration(scope, teamId);
+        if (!current) return false;
+        await scope.teams.update(current.registrationWeekStart, {
+            ...current.team,
+            verifications: [...(current.team.verifications ?? []), verification],
+        });
+        return true;
+    });
+    if (!saved) {
+        return { success: false, error: 'Registration not found.' };
+    }
+    console.log(`Payment of ${team.teamName} re-verified by ${admin.username}: ${verification.outcome}.`);
+    return { success: true, data: verification };
+}
+
+// --- Statement Reconciliation ---
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Checks a week's registrations against the payee's UPI or bank statement (CSV,
+ * including bank PDFs converted to CSV), matching payments by UTR. Reports
+ * registrations with no payment, wrong amounts, payments made before the week
+ * and payments no registration claims. Takes `statement`, and optionally
+ * `tournamentId` and `weekId` (the current week if omitted).
+ */
+export async function reconcilePaymentStatement(
+    formData: FormData
+): Promise<{ success: boolean; data?: StatementReconciliation; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    const tournamentId = (formData.get('tournamentId') as string | null) || DEFAULT_TOURNAMENT_ID;
+    const weekId = (formData.get('weekId') as string | null) || undefined;
+    const statement = formData.get('statement');
+    if (!(statement instanceof File) || statement.size === 0) {
+        return { success: false, error: 'Please choose a statement CSV file.' };
+    }
+    if (statement.size > MAX_STATEMENT_SIZE) {
+        return { success: false, error: 'Max statement size is 5MB.' };
+    }
+    const text = await statement.text();
+
+    const result = await inTournament(tournamentId, async (scope, tournament) => {
+        const week = await findWeekOrCurrent(scope, tournament, weekId);
+        if (!week) return { error: `No registrations found for week ${weekId}.` };
+        const parsed = parseStatementCsv(text, tournament.timezone);
+        if ('error' in parsed) return parsed;
+        return { report: reconcileStatement(tournament, week, parsed) };
+    });
+    if ('error' in result) {
+        return { success: false, error: result.error };
+    }
+
+    const { report } = result;
+    console.log(
+        `Statement reconciled for week ${report.weekId} by ${admin.username}: ${report.matched.length} matched, ` +
+        `${report.unmatchedRegistrations.length + report.wrongAmounts.length + report.paidBeforeWeek.length + report.unknownPayments.length} flagged.`
+    );
+    return { success: true, data: report };
+}
+
+// --- Registration Lifecycle ---
+
+/**
+ * Withdraws a team, freeing its slot if the week is still open.
+ */
+export async function withdrawRegistration(
+    teamId: string,
+    reason: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('verifier');
+    if (!reason?.trim()) {
+        return { success: false, error: 'A reason is required.' };
+    }
+    return changeStatus(tournamentId, teamId, { to: 'withdrawn', by: admin.username, reason: reason.trim() });
+}
+
+/**
+ * Disqualifies a team for breaking one of the fair-play rules shown on the home page.
+ */
+export async function disqualifyRegistration(
+    teamId: string,
+    ruleId: string,
+    details: string,
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    const rule = getFairPlayRule(ruleId);
+    if (!rule) {
+        return { success: false, error: 'Choose the fair-play rule that was broken.' };
+    }
+    const reason = details?.trim() ? `${rule.text} ${details.trim()}` : rule.text;
+    return changeStatus(tournamentId, teamId, { to: 'disqualified', by: admin.username, reason, ruleId });
+}
+
+/**
+ * Records that a withdrawn, disqualified or rejected team's entry fee was refunded,
+ * and adds the refund to the ledger. The amount defaults to the fee the team paid.
+ */
+export async function markRegistrationRefunded(
+    teamId: string,
+    refund: PaymentDetails & { note?: string },
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    const tournament = await inTournament(tournamentId, async (_scope, tournament) => tournament);
+    const payment = parsePayment(refund, tournament);
+    if (payment.error !== undefined) {
+        return { success: false, error: payment.error };
+    }
+    return changeStatus(
+        tournamentId,
+        teamId,
+        { to: 'refunded', by: admin.username, reason: refund.note?.trim() || undefined },
+        (scope, team, registrationWeekStart) => scope.payouts.add({
+            id: crypto.randomUUID(),
+            registrationWeekStart,
+            kind: 'refund',
+            teamId: team.id,
+            teamName: team.teamName,
+            amount: payment.amount ?? entryFeeOf(team, tournament),
+            upiReference: payment.upiReference,
+            paidAt: payment.paidAt,
+            recordedBy: admin.username,
+            recordedAt: new Date().toISOString(),
+        })
+    );
+}
+
+/**
+ * Changes a registration's status, then emails the team and offers any freed slot
+ * to the waitlist. `alsoRecord` runs in the same transaction once the change is made.
+ */
+async function changeStatus(
+    tournamentId: string,
+    teamId: string,
+    change: Omit<StatusChange, 'from' | 'at'>,
+    alsoRecord?: (scope: TournamentScope, team: TeamRegistrationData, registrationWeekStart: string) => Promise<void>
+): Promise<{ success: boolean; error?: string }> {
+    const { result, tournament } = await inTournament(tournamentId, async (scope, tournament) => {
+        const result = await changeRegistrationStatus(scope, teamId, { ...change, at: new Date().toISOString() });
+        if (result.error === undefined && alsoRecord) {
+            await alsoRecord(scope, result.team, result.registrationWeekStart);
+        }
+        return { result, tournament };
+    });
+    if (result.error !== undefined) {
+        return { success: false, error: result.error };
+    }
+
+    const entry = result.team.statusHistory?.at(-1);
+    if (entry) {
+        await sendStatusChangeEmail(result.team, entry, tournament);
+    }
+    console.log(`${result.team.teamName} marked ${change.to} by ${change.by}.`);
+    await fillSlotsFromWaitlist(tournamentId);
+    return { success: true };
+}
+
+/**
+ * Every status change for the tournament's registrations, most recent first.
+ */
+export async function getRegistrationAuditLog(
+    tournamentId: string = DEFAULT_TOURNAMENT_ID
+): Promise<(StatusChange & { teamId: string; teamName: string; weekId: string })[]> {
+    await requireAdmin('viewer');
+    const weeks = await inTournament(tournamentId, async (scope, tournament) =>
+        (await listAllWeeks(scope)).map(week => ({ ...week, weekId: getWeekId(week.registrationWeekStart, tournament.timezone) }))
+    );
+    return weeks
+        .flatMap(week => week.teams.flatMap(team =>
+            (team.statusHistory ?? []).map(change => ({ ...change, teamId: team.id, teamName: team.teamName, weekId: week.weekId }))
+        ))
+        .sort((a, b) => b.at.localeCompare(a.at));
+}
+
+// --- Player Registry ---
+
+/**
+ * A player's registry record with every registration they were part of, in any
+ * tournament or week, and each registration's current status.
+ */
+export async function getPlayerHistory(playerId: string): Promise<{
+    success: boolean;
+    player?: PlayerRecord;
+    appearances?: (PlayerAppearance & { status: RegistrationStatus | null })[];
+    error?: string;
+}> {
+    await requireAdmin('viewer');
+    return getDataStore().transaction(async repo => {
+        const player = await repo.players.get(normalisePlayerId(playerId));
+        if (!player) {
+            return { success: false, error: 'No player with this in-game ID has registered.' };
+        }
+        const appearances = [];
+        for (const appearance of player.appearances) {
+            const found = await findRegistration(repo.forTournament(appearance.tournamentId), appearance.teamId);
+            appearances.push({ ...appearance, status: found?.team.status ?? null });
+        }
+        return { success: true, player, appearances };
+    });
+}
+
+export async function getBannedPlayers(): Promise<PlayerRecord[]> {
+    await requireAdmin('viewer');
+    return getDataStore().transaction(repo => repo.players.listBanned());
+}
+
+/**
+ * Bans a player from registering in any tournament, whether or not they have registered before.
+ */
+export async function banPlayer(playerId: string, reason: string): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    if (!playerId?.trim() || !reason?.trim()) {
+        return { success: false, error: 'A player ID and a reason are required.' };
+    }
+    await getDataStore().transaction(repo =>
+        setPlayerBan(repo, playerId, { reason: reason.trim(), by: admin.username, at: new Date().toISOString() })
+    );
+    console.log(`Player ${playerId} banned by ${admin.username}.`);
+    return { success: true };
+}
+
+export async function unbanPlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+    const admin = await requireAdmin('owner');
+    await getDataStore().transaction(repo => setPlayerBan(repo, playerId, null));
+    console.log(`Player ${playerId} unbanned by ${admin.username}.`);
+    return { success: true };
+}
+
+// --- Abuse Protection ---
+
+/**
+ * The captcha or proof of work the registration form must complete, sent back as
+ * the `challenge` field, or null if none is set up. Call it for each submission,
+ * as proof-of-work challenges can only be used once.
+ */
+export async function getRegistrationChallenge(): Promise<ChallengeParams | null> {
+    return getChallengeVerifier()?.issue(new Date()) ?? null;
+}
+
+/**
+ * Recent requests turned away by rate limits, the weekly cap on failed payment
+ * verifications or the challenge, most recent first.
+ */
+export async function getRejectedAttempts(limit = 200): Promise<RejectedAttempt[]> {
+    await requireAdmin('verifier');
+    return getDataStore().transaction(repo => repo.rejectedAttempts.list(limit));
+}
+
+// --- Email Outbox ---
+
+/**
+ * Recent emails, most recent first, optionally only those with the given status
+ * (`dead` for the ones given up on). Owners only, as emails carry claim links and
+ * room passwords.
+ */
+export async function getEmailOutbox(status?: OutboxStatus, limit = 200): Promise<OutboxMessage[]> {
+    await requireAdmin('owner');
+    return getDataStore().transaction(repo => repo.outbox.list(status, limit));
+}
+
+/**
+ * Sends any email in the outbox again, as a new message. The original is left as it was.
+ */
+export async function resendOutboxEmail(id: string): Promise<{ success: boolean; data?: OutboxMessage; error?: string }> {
+    const admin = await requireAdmin('owner');
+    const message = await resendEmail(id, admin.username);
+    if (!message) {
+        return { success: false, error: 'Email not found.' };
+    }
+    console.log(`${message.template} email to ${message.to} resent by ${admin.username}: ${message.status}.`);
+    return { success: true, data: message };
+}
+
+// --- WhatsApp and SMS ---
+
+/**
+ * Recent WhatsApp and SMS messages, most recent first, optionally only those with
+ * the given status. Owners only, like the email outbox.
+ */
+export async function getPhoneMessages(status?: OutboxStatus, limit = 200): Promise<PhoneMessage[]> {
+    await requireAdmin('owner');
+    return getDataStore().transaction(repo => repo.phoneMessages.list(status, limit));
+}
+
+// --- Admin Sessions ---
+
+/**
+ * Signs an admin in with their username and password, setting the session cookie.
+ */
+export async function adminLogin(formData: FormData): Promise<{ success: boolean; error?: string }> {
+    const username = normaliseUsername(String(formData.get('username') ?? ''));
+    const password = String(formData.get('password') ?? '');
+    if (!username || !password) {
+        return { success: false, error: 'Username and password are required.' };
+    }
+
+    const requester = { ip: await clientIp() };
+    const limitError = await admitAdminLogin(requester, username);
+    if (limitError) {
+        return { success: false, error: limitError };
+    }
+
+    const admin = await getDataStore().transaction(repo => repo.admins.get(username));
+    if (!(await authenticateAdmin(admin, password))) {
+        console.warn(`Failed admin sign-in for "${username}".`);
+        await recordFailedLogin(requester, username);
+        return { success: false, error: 'Incorrect username or password.' };
+    }
+
+    await startAdminSession(username);
+    console.log(`Admin ${username} signed in.`);
+    return { success: true };
+}
+
+export async function adminLogout(): Promise<void> {
+    await endAdminSession();
+}
+
+/**
+ * The signed-in admin's username and role, or null when signed out.
+ */
+export async function getCurrentAdmin(): Promise<Pick<AdminUser, 'username' | 'role'> | null> {
+    const admin = await getAdminSession();
+    return admin && { username: admin.username, role: admin.role };
 }
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import Module from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, describe, test } from 'node:test';
+
+// clientIp reads the request headers, which only exist inside a request; stand in for them.
+let requestHeaders = new Headers();
+const originalRequire = Module.prototype.require;
+const originalProxyCount = process.env.TRUSTED_PROXY_COUNT;
+
+describe('clientIp', () => {
+    let clientIp: typeof import('@/lib/abuse').clientIp;
+
+    before(async () => {
+        Module.prototype.require = function (this: NodeJS.Module, id: string) {
+            return id === 'next/headers' ? { headers: async () => requestHeaders } : originalRequire.call(this, id);
+        } as NodeJS.Require;
+        ({ clientIp } = await import('@/lib/abuse'));
+    });
+
+    after(() => {
+        Module.prototype.require = originalRequire;
+    });
+
+    afterEach(() => {
+        if (originalProxyCount === undefined) delete process.env.TRUSTED_PROXY_COUNT;
+        else process.env.TRUSTED_PROXY_COUNT = originalProxyCount;
+    });
+
+    test('uses the connection address when no proxies are trusted', async () => {
+        delete process.env.TRUSTED_PROXY_COUNT;
+        requestHeaders = new Headers({ 'x-connection-address': '198.51.100.4', 'x-forwarded-for': '203.0.113.9' });
+        assert.equal(await clientIp(), '198.51.100.4');
+    });
+
+    test('takes the hop added by the outermost trusted proxy', async () => {
+        process.env.TRUSTED_PROXY_COUNT = '2';
+        requestHeaders = new Headers({
+            'x-connection-address': '10.0.0.2',
+            'x-forwarded-for': '203.0.113.9, 198.51.100.4, 10.0.0.1',
+        });
+        assert.equal(await clientIp(), '198.51.100.4');
+    });
+
+    test('uses the connection address when the request skipped the proxies', async () => {
+        process.env.TRUSTED_PROXY_COUNT = '2';
+        requestHeaders = new Headers({ 'x-connection-address': '198.51.100.4', 'x-forwarded-for': '203.0.113.9' });
+        assert.equal(await clientIp(), '198.51.100.4');
+    });
+
+    test('refuses to run without the connection address or with an invalid setting', async () => {
+        requestHeaders = new Headers({ 'x-forwarded-for': '203.0.113.9' });
+        await assert.rejects(clientIp(), /connection address is missing/);
+        process.env.TRUSTED_PROXY_COUNT = '-1';
+        requestHeaders = new Headers({ 'x-connection-address': '198.51.100.4' });
+        await assert.rejects(clientIp(), /Invalid TRUSTED_PROXY_COUNT/);
+    });
+});
+
+describe('failed admin sign-ins', () => {
+    let dir: string;
+    let abuse: typeof import('@/lib/abuse');
+    let repository: typeof import('@/lib/repository');
+    const originalEnv = { ...process.env };
+    const now = new Date('2024-05-08T06:30:00Z');
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-abuse-'));
+        Object.assign(process.env, { DATA_STORE: 'sqlite', SQLITE_DB_PATH: path.join(dir, 'test.db'), RATE_LIMIT_STORE: 'persistent' });
+        abuse = await import('@/lib/abuse');
+        repository = await import('@/lib/repository');
+    });
+
+    after(async () => {
+        await repository.getDataStore().close();
+        process.env = originalEnv;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('refuses a username once it has failed too often, from any address', async () => {
+        for (let i = 0; i < abuse.FAILED_LOGIN_LIMITS.username.limit; i++) {
+            const requester = { ip: `198.51.100.${i}` };
+            assert.equal(await abuse.admitAdminLogin(requester, 'owner', now), null);
+            await abuse.recordFailedLogin(requester, 'owner', now);
+        }
+        assert.match(await abuse.admitAdminLogin({ ip: '203.0.113.9' }, 'owner', now) ?? '', /Too many failed sign-ins/);
+        assert.equal(await abuse.admitAdminLogin({ ip: '203.0.113.9' }, 'verifier', now), null);
+
+        const later = new Date(now.getTime() + abuse.FAILED_LOGIN_LIMITS.username.windowMs);
+        assert.equal(await abuse.admitAdminLogin({ ip: '203.0.113.9' }, 'owner', later), null);
+    });
+
+    test('refuses an address once it has failed too often, for any username', async () => {
+        const requester = { ip: '192.0.2.1' };
+        for (let i = 0; i < abuse.FAILED_LOGIN_LIMITS.ip.limit; i++) {
+            await abuse.recordFailedLogin(requester, `guess-${i}`, now);
+        }
+        assert.match(await abuse.admitAdminLogin(requester, 'someone-else', now) ?? '', /Too many failed sign-ins/);
+
+        const rejected = await repository.getDataStore().transaction(repo => repo.rejectedAttempts.list());
+        assert.ok(rejected.some(a => a.action === 'adminLogin' && a.ip === '192.0.2.1' && a.detail.startsWith('failed-login:ip')));
+    });
+});
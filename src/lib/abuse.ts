@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { headers } from 'next/headers';
+import { getChallengeVerifier } from '@/lib/challenge';
+import { consumeLimits, findExceededLimit, getRateLimitBackend, recordHits, type RateLimit, type RateLimitCheck } from '@/lib/rate-limit';
+import { getDataStore } from '@/lib/repository';
+import type { RejectedAttemptReason } from '@/lib/types';
+
+// --- Abuse Protection ---
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+/**
+ * Registration submissions allowed per IP address, phone number and email address.
+ */
+export const REGISTRATION_LIMITS: Record<'ip' | 'phone' | 'email', RateLimit> = {
+    ip: { name: 'register:ip', limit: 10, windowMs: HOUR_MS },
+    phone: { name: 'register:phone', limit: 5, windowMs: HOUR_MS },
+    email: { name: 'register:email', limit: 5, windowMs: HOUR_MS },
+};
+
+/**
+ * Payment screenshots that failed verification, allowed per IP address, phone
+ * number and email address in any 7 days. Past this, registrations are refused
+ * before the screenshot is checked.
+ */
+export const FAILED_VERIFICATION_LIMITS: Record<'ip' | 'phone' | 'email', RateLimit> = {
+    ip: { name: 'failed-verification:ip', limit: 10, windowMs: WEEK_MS },
+    phone: { name: 'failed-verification:phone', limit: 5, windowMs: WEEK_MS },
+    email: { name: 'failed-verification:email', limit: 5, windowMs: WEEK_MS },
+};
+
+/**
+ * Verification codes one IP address can ask for, on top of the per-contact limits.
+ */
+export const CONTACT_CODE_IP_LIMIT: RateLimit = { name: 'contact-code:ip', limit: 20, windowMs: HOUR_MS };
+
+/**
+ * Failed admin sign-ins allowed per IP address and per username. Past this,
+ * sign-ins are refused before the password is checked.
+ */
+export const FAILED_LOGIN_LIMITS: Record<'ip' | 'username', RateLimit> = {
+    ip: { name: 'failed-login:ip', limit: 20, windowMs: HOUR_MS },
+    username: { name: 'failed-login:username', limit: 10, windowMs: HOUR_MS },
+};
+
+export type Requester = { ip: string | null; contactEmail?: string; contactPhone?: string };
+
+/**
+ * How many proxies in front of the app append to `X-Forwarded-For`, set by
+ * `TRUSTED_PROXY_COUNT` (default 0, for an app that takes connections itself).
+ */
+function trustedProxyCount(): number {
+    const value = process.env.TRUSTED_PROXY_COUNT ?? '0';
+    const count = Number(value);
+    if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(count)) {
+        throw new Error(`Invalid TRUSTED_PROXY_COUNT "${value}". Expected the number of proxies in front of the app, e.g. 0 or 1.`);
+    }
+    return count;
+}
+
+/**
+ * The address the request came from. With no trusted proxies, that is the address
+ * of the connection, which `server.mjs` passes on; behind `TRUSTED_PROXY_COUNT`
+ * proxies, it is the entry that many from the right of `X-Forwarded-For`, the one
+ * the outermost proxy added. Entries further left are set by the client and can't
+ * be trusted. Throws if the app was not started through `server.mjs`, rather
+ * than letting requests through without per-IP limits.
+ */
+export async function clientIp(): Promise<string> {
+    const proxies = trustedProxyCount();
+    const headerList = await headers();
+    const connection = headerList.get('x-connection-address')?.trim();
+    if (!connection) {
+        throw new Error('The connection address is missing. Start the app with `npm start` or `npm run dev`.');
+    }
+    const hops = (headerList.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+    // Fewer hops than proxies means the request didn't come through them all, so only the connection is known.
+    return proxies > 0 && hops.length >= proxies ? hops[hops.length - proxies] : connection;
+}
+
+function ipCheck(limit: RateLimit, requester: Requester): RateLimitCheck[] {
+    return requester.ip ? [{ limit, subject: requester.ip }] : [];
+}
+
+function contactChecks(limits: Record<'phone' | 'email', RateLimit>, requester: Requester): RateLimitCheck[] {
+    return [
+        ...(requester.contactPhone ? [{ limit: limits.phone, subject: requester.contactPhone.trim() }] : []),
+        ...(requester.contactEmail ? [{ limit: limits.email, subject: requester.contactEmail.trim().toLowerCase() }] : []),
+    ];
+}
+
+/**
+ * Keeps a turned-away request for admins to review.
+ */
+export async function logRejectedAttempt(
+    action: string,
+    reason: RejectedAttemptReason,
+    detail: string,
+    requester: Requester,
+    now: Date = new Date()
+): Promise<void> {
+    console.warn(`[abuse] ${action} from ${requester.ip ?? 'unknown IP'} rejected (${reason}): ${detail}`);
+    await getDataStore().transaction(repo => repo.rejectedAttempts.add({
+        id: crypto.randomUUID(),
+        at: now.toISOString(),
+        action,
+        reason,
+        detail,
+        ip: requester.ip,
+        ...(requester.contactEmail && { contactEmail: requester.contactEmail }),
+        ...(requester.contactPhone && { contactPhone: requester.contactPhone }),
+    }));
+}
+
+/**
+ * Counts a hit against the limits, unless one has been reached, in which case the
+ * attempt is logged and an error for the user returned.
+ */
+export async function enforceRateLimits(
+    action: string,
+    checks: RateLimitCheck[],
+    requester: Requester,
+    now: Date = new Date()
+): Promise<string | null> {
+    const exceeded = await consumeLimits(getRateLimitBackend(), checks, now);
+    if (exceeded) {
+        await logRejectedAttempt(action, 'rate_limited', `${exceeded.limit.name} reached for ${exceeded.subject}`, requester, now);
+        return 'Too many attempts. Please wait a while and try again.';
+    }
+    return null;
+}
+
+/**
+ * Decides whether a registration may go ahead to the contact check: the challenge,
+ * if one is set up, must be solved, the weekly cap on failed verifications must
+ * not be reached, and the submission must be within the per-IP limit. Returns an
+ * error for the user, having logged the attempt, or null.
+ */
+export async function admitRegistration(requester: Requester, challengeAnswer: string | null, now: Date = new Date()): Promise<string | null> {
+    const verifier = getChallengeVerifier();
+    if (verifier && !(challengeAnswer && await verifier.verify(challengeAnswer, requester.ip, now))) {
+        await logRejectedAttempt('registerTeam', 'challenge_failed', `${verifier.kind} missing or wrong`, requester, now);
+        return 'Please complete the verification challenge and try again.';
+    }
+
+    const capChecks = [...ipCheck(FAILED_VERIFICATION_LIMITS.ip, requester), ...contactChecks(FAILED_VERIFICATION_LIMITS, requester)];
+    const capped = await findExceededLimit(getRateLimitBackend(), capChecks, now);
+    if (capped) {
+        await logRejectedAttempt('registerTeam', 'verification_cap', `${capped.limit.name} reached for ${capped.subject}`, requester, now);
+        return 'Too many payment screenshots from you could not be verified this week. Please contact the organisers.';
+    }
+
+    return enforceRateLimits('registerTeam', ipCheck(REGISTRATION_LIMITS.ip, requester), requester, now);
+}
+
+/**
+ * Checks a registration against the per-phone and per-email limits. Call once the
+ * contacts are verified, so a submission can't count against contacts it doesn't own.
+ */
+export function admitVerifiedContacts(requester: Requester, now: Date = new Date()): Promise<string | null> {
+    return enforceRateLimits('registerTeam', contactChecks(REGISTRATION_LIMITS, requester), requester, now);
+}
+
+/**
+ * Counts a payment screenshot that failed verification towards the weekly cap.
+ */
+export async function recordFailedVerification(requester: Requester, now: Date = new Date()): Promise<void> {
+    const checks = [...ipCheck(FAILED_VERIFICATION_LIMITS.ip, requester), ...contactChecks(FAILED_VERIFICATION_LIMITS, requester)];
+    await recordHits(getRateLimitBackend(), checks, now);
+}
+
+/**
+ * Checks a request for a verification code against the per-IP limit.
+ */
+export async function admitContactCodeRequest(requester: Requester, now: Date = new Date()): Promise<string | null> {
+    return enforceRateLimits('requestContactCode', ipCheck(CONTACT_CODE_IP_LIMIT, requester), requester, now);
+}
+
+function loginChecks(requester: Requester, username: string): RateLimitCheck[] {
+    return [...ipCheck(FAILED_LOGIN_LIMITS.ip, requester), { limit: FAILED_LOGIN_LIMITS.username, subject: username }];
+}
+
+/**
+ * Decides whether an admin sign-in may go ahead to the password check: neither
+ * the IP address nor the username may have reached its limit of failed sign-ins.
+ * Returns an error for the user, having logged the attempt, or null.
+ */
+export async function admitAdminLogin(requester: Requester, username: string, now: Date = new Date()): Promise<string | null> {
+    const exceeded = await findExceededLimit(getRateLimitBackend(), loginChecks(requester, username), now);
+    if (exceeded) {
+        await logRejectedAttempt('adminLogin', 'rate_limited', `${exceeded.limit.name} reached for ${exceeded.subject}`, requester, now);
+        return 'Too many failed sign-ins. Please wait a while and try again.';
+    }
+    return null;
+}
+
+/**
+ * Counts a failed admin sign-in against the IP address and the username.
+ */
+export async function recordFailedLogin(requester: Requester, username: string, now: Date = new Date()): Promise<void> {
+    await recordHits(getRateLimitBackend(), loginChecks(requester, username), now);
+}
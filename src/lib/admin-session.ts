@@ -0,0 +1,70 @@
+import { cookies } from 'next/headers';
+import { createSessionToken, hasRole, readSessionToken, SESSION_TTL_MS } from '@/lib/auth';
+import { getDataStore } from '@/lib/repository';
+import type { AdminRole, AdminUser } from '@/lib/types';
+
+// --- Admin Session Cookie ---
+
+const SESSION_COOKIE = 'founders_admin_session';
+
+/**
+ * Thrown when a server action is called without a session of the required role.
+ */
+export class AdminAuthError extends Error {
+    constructor(message = 'You are not authorised to do this.') {
+        super(message);
+        this.name = 'AdminAuthError';
+    }
+}
+
+export async function startAdminSession(username: string) {
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE, createSessionToken(username), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        path: '/',
+        maxAge: SESSION_TTL_MS / 1000,
+    });
+}
+
+export async function endAdminSession() {
+    const cookieStore = await cookies();
+    cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * The signed-in admin, or null. The account is re-read on every call, so removing
+ * an admin, changing their role or resetting their password takes effect at once.
+ */
+export async function getAdminSession(): Promise<Omit<AdminUser, 'passwordHash'> | null> {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value;
+    const payload = token ? readSessionToken(token) : null;
+    if (!payload) return null;
+
+    const admin = await getDataStore().transaction(repo => repo.admins.get(payload.username));
+    if (!admin || payload.issuedAt < new Date(admin.passwordChangedAt).getTime()) {
+        return null;
+    }
+    return {
+        username: admin.username,
+        role: admin.role,
+        createdAt: admin.createdAt,
+        passwordChangedAt: admin.passwordChangedAt,
+    };
+}
+
+/**
+ * Returns the signed-in admin, or throws `AdminAuthError` unless they hold `role` or higher.
+ */
+export async function requireAdmin(role: AdminRole) {
+    const admin = await getAdminSession();
+    if (!admin) {
+        throw new AdminAuthError('Please sign in as an admin.');
+    }
+    if (!hasRole(admin.role, role)) {
+        console.warn(`Admin ${admin.username} (${admin.role}) was refused an action that needs ${role}.`);
+        throw new AdminAuthError();
+    }
+    return admin;
+}
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import type { AdminRole, AdminUser } from '@/lib/types';
+
+// --- Admin Credentials and Sessions ---
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'verifier', 'owner'];
+
+/** How long a signed-in admin stays signed in. */
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_COST = 16384;
+const MIN_PASSWORD_LENGTH = 12;
+
+export function isAdminRole(value: string): value is AdminRole {
+    return (ADMIN_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether `role` carries at least the permissions of `required`.
+ */
+export function hasRole(role: AdminRole, required: AdminRole): boolean {
+    return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+export function normaliseUsername(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+/**
+ * Returns an error message if the password is too weak to store.
+ */
+export function checkPasswordStrength(password: string): string | null {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    }
+    return null;
+}
+
+function scrypt(password: string, salt: Buffer, cost: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, { N: cost }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+}
+
+/**
+ * Hashes a password as `scrypt$<cost>$<salt>$<key>` (base64url parts).
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, SCRYPT_COST);
+    return ['scrypt', SCRYPT_COST, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, cost, salt, key] = passwordHash.split('$');
+    if (scheme !== 'scrypt' || !cost || !salt || !key) return false;
+    const expected = Buffer.from(key, 'base64url');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64url'), Number(cost));
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Checked against when the username is unknown, so the response takes as long as a wrong password.
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Checks a username and password against the stored account.
+ */
+export async function authenticateAdmin(admin: AdminUser | null, password: string): Promise<boolean> {
+    if (!admin) {
+        dummyHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+        await verifyPassword(password, await dummyHash);
+        return false;
+    }
+    return verifyPassword(password, admin.passwordHash);
+}
+
+export type SessionPayload = {
+    username: string;
+    issuedAt: number; // ms since epoch
+    expiresAt: number; // ms since epoch
+};
+
+function getSessionSecret(): string {
+    const secret = process.env.ADMIN_SESSION_SECRET;
+    if (!secret || secret.length < 32) {
+        throw new Error('ADMIN_SESSION_SECRET must be set to at least 32 characters.');
+    }
+    return secret;
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getSessionSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Creates a signed session token: `<payload>.<signature>`, both base64url.
+ */
+export function createSessionToken(username: string, now: Date = new Date()): string {
+    const payload: SessionPayload = {
+        username,
+        issuedAt: now.getTime(),
+        expiresAt: now.getTime() + SESSION_TTL_MS,
+    };
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${sign(data)}`;
+}
+
+/**
+ * Returns the token's payload if its signature is valid and it has not expired.
+ */
+export function readSessionToken(token: string, now: Date = new Date()): SessionPayload | null {
+    const [data, signature] = token.split('.');
+    if (!data || !signature) return null;
+
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return null;
+    }
+    try {
+        const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8')) as SessionPayload;
+        return payload.expiresAt > now.getTime() ? payload : null;
+    } catch {
+        return null;
+    }
+}
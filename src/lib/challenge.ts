@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { getRateLimitBackend, type RateLimitBackend } from '@/lib/rate-limit';
+
+// --- Registration Challenge ---
+
+export type ChallengeKind = 'turnstile' | 'hcaptcha' | 'pow';
+
+/**
+ * What the registration form needs to show or solve before submitting, sent back
+ * as the `challenge` field.
+ */
+export type ChallengeParams =
+    | { kind: 'turnstile' | 'hcaptcha'; siteKey: string }
+    | { kind: 'pow'; challenge: string; difficulty: number }; // Find n so that sha256(`${challenge}:${n}`) starts with `difficulty` zero bits
+
+/**
+ * Checks the answer a form sent back. Plug in another captcha by implementing this.
+ */
+export interface ChallengeVerifier {
+    readonly kind: ChallengeKind;
+    /** What to give the form for the next submission. */
+    issue(now: Date): ChallengeParams;
+    verify(answer: string, ip: string | null, now: Date): Promise<boolean>;
+}
+
+async function siteVerify(url: string, secret: string, answer: string, ip: string | null): Promise<boolean> {
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            body: new URLSearchParams({ secret, response: answer, ...(ip && { remoteip: ip }) }),
+            signal: AbortSignal.timeout(10_000),
+        });
+        const result = await response.json() as { success?: boolean };
+        return result.success === true;
+    } catch (error) {
+        // Fails closed: a captcha that can't be checked is not accepted.
+        console.error('[challenge] Could not verify the captcha', error);
+        return false;
+    }
+}
+
+export function createTurnstileVerifier(options: { siteKey: string; secret: string }): ChallengeVerifier {
+    return {
+        kind: 'turnstile',
+        issue: () => ({ kind: 'turnstile', siteKey: options.siteKey }),
+        verify: (answer, ip) => siteVerify('https://challenges.cloudflare.com/turnstile/v0/siteverify', options.secret, answer, ip),
+    };
+}
+
+export function createHCaptchaVerifier(options: { siteKey: string; secret: string }): ChallengeVerifier {
+    return {
+        kind: 'hcaptcha',
+        issue: () => ({ kind: 'hcaptcha', siteKey: options.siteKey }),
+        verify: (answer, ip) => siteVerify('https://api.hcaptcha.com/siteverify', options.secret, answer, ip),
+    };
+}
+
+const POW_TTL_MS = 10 * 60 * 1000;
+
+function leadingZeroBits(hash: Buffer): number {
+    let bits = 0;
+    for (const byte of hash) {
+        if (byte === 0) {
+            bits += 8;
+            continue;
+        }
+        return bits + Math.clz32(byte) - 24;
+    }
+    return bits;
+}
+
+/**
+ * A proof of work: the form finds a number that, hashed with a signed challenge,
+ * gives `difficulty` leading zero bits. Each challenge expires after 10 minutes
+ * and can be used once, so a script pays for every submission.
+ */
+export function createProofOfWorkVerifier(options: { secret: string; difficulty: number; backend: RateLimitBackend }): ChallengeVerifier {
+    const sign = (data: string) => crypto.createHmac('sha256', options.secret).update(data).digest('base64url');
+    return {
+        kind: 'pow',
+        issue(now) {
+            const data = `${now.getTime() + POW_TTL_MS}.${crypto.randomBytes(12).toString('base64url')}`;
+            return { kind: 'pow', challenge: `${data}.${sign(data)}`, difficulty: options.difficulty };
+        },
+        async verify(answer, _ip, now) {
+            const [expiresAt, nonce, signature, solution] = answer.split(/[.:]/);
+            if (!expiresAt || !nonce || !signature || !solution) return false;
+            const data = `${expiresAt}.${nonce}`;
+            const expected = Buffer.from(sign(data));
+            const actual = Buffer.from(signature);
+            if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return false;
+            if (Number(expiresAt) <= now.getTime()) return false;
+
+            const hash = crypto.createHash('sha256').update(`${data}.${signature}:${solution}`).digest();
+            if (leadingZeroBits(hash) < options.difficulty) return false;
+            // Spent challenges are remembered until they expire; only the first of
+            // concurrent submissions of one answer gets through.
+            return options.backend.consume(`pow:${nonce}`, 1, POW_TTL_MS, now);
+        },
+    };
+}
+
+/**
+ * The verifier set by `REGISTRATION_CHALLENGE`: `turnstile` (with `TURNSTILE_SITE_KEY`
+ * and `TURNSTILE_SECRET_KEY`), `hcaptcha` (with `HCAPTCHA_SITE_KEY` and
+ * `HCAPTCHA_SECRET`) or `pow` (with `CHALLENGE_SECRET` and `POW_DIFFICULTY`,
+ * default 20), or null if registrations need no challenge.
+ */
+export function getChallengeVerifier(): ChallengeVerifier | null {
+    const env = process.env;
+    const kind = env.REGISTRATION_CHALLENGE;
+    if (!kind) return null;
+    if (kind === 'turnstile') {
+        if (!env.TURNSTILE_SITE_KEY || !env.TURNSTILE_SECRET_KEY) throw new Error('TURNSTILE_SITE_KEY and TURNSTILE_SECRET_KEY must be set.');
+        return createTurnstileVerifier({ siteKey: env.TURNSTILE_SITE_KEY, secret: env.TURNSTILE_SECRET_KEY });
+    }
+    if (kind === 'hcaptcha') {
+        if (!env.HCAPTCHA_SITE_KEY || !env.HCAPTCHA_SECRET) throw new Error('HCAPTCHA_SITE_KEY and HCAPTCHA_SECRET must be set.');
+        return createHCaptchaVerifier({ siteKey: env.HCAPTCHA_SITE_KEY, secret: env.HCAPTCHA_SECRET });
+    }
+    if (kind === 'pow') {
+        if (!env.CHALLENGE_SECRET || env.CHALLENGE_SECRET.length < 32) throw new Error('CHALLENGE_SECRET must be set to at least 32 characters.');
+        return createProofOfWorkVerifier({
+            secret: env.CHALLENGE_SECRET,
+            difficulty: env.POW_DIFFICULTY ? Number(env.POW_DIFFICULTY) : 20,
+            backend: getRateLimitBackend(),
+        });
+    }
+    throw new Error(`Unknown REGISTRATION_CHALLENGE "${kind}". Expected "turnstile", "hcaptcha" or "pow".`);
+}
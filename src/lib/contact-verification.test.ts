@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { checkContactProof, confirmContactCode, issueContactCode } from '@/lib/contact-verification';
+import { createSqliteDataStore, type DataStore } from '@/lib/repository';
+
+const EMAIL = 'team@example.com';
+const MINUTE_MS = 60 * 1000;
+
+describe('contact verification', () => {
+    let store: DataStore;
+    let dir: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-contacts-'));
+        store = createSqliteDataStore(path.join(dir, 'test.db'));
+    });
+
+    after(async () => {
+        await store.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function verify(email: string, at: Date): Promise<string> {
+        return store.transaction(async repo => {
+            const issued = await issueContactCode(repo, 'email', email, at);
+            assert.equal(issued.error, undefined);
+            const confirmed = await confirmContactCode(repo, 'email', email, issued.code, at);
+            assert.equal(confirmed.error, undefined);
+            return confirmed.proof!;
+        });
+    }
+
+    test('keeps a proof when someone asks for another code for the contact', async () => {
+        const start = new Date('2024-05-08T06:30:00Z');
+        const proof = await verify(EMAIL, start);
+        const later = new Date(start.getTime() + 2 * MINUTE_MS);
+        await store.transaction(repo => issueContactCode(repo, 'email', EMAIL, later));
+        assert.equal(await store.transaction(repo => checkContactProof(repo, 'email', EMAIL, proof, later)), null);
+    });
+
+    test('lets a code be used only once', async () => {
+        const at = new Date('2024-05-08T08:00:00Z');
+        const code = await store.transaction(async repo => {
+            const issued = await issueContactCode(repo, 'email', 'other@example.com', at);
+            assert.equal(issued.error, undefined);
+            await confirmContactCode(repo, 'email', 'other@example.com', issued.code, at);
+            return issued.code;
+        });
+        const again = await store.transaction(repo => confirmContactCode(repo, 'email', 'other@example.com', code, at));
+        assert.equal(again.error, 'Please ask for a new code.');
+    });
+
+    test('refuses a wrong or expired proof', async () => {
+        const start = new Date('2024-05-08T10:00:00Z');
+        const proof = await verify('third@example.com', start);
+        assert.match(await store.transaction(repo => checkContactProof(repo, 'email', 'third@example.com', `${proof}x`, start)) ?? '', /Please verify/);
+        const expired = new Date(start.getTime() + 61 * MINUTE_MS);
+        assert.match(await store.transaction(repo => checkContactProof(repo, 'email', 'third@example.com', proof, expired)) ?? '', /over an hour ago/);
+    });
+});
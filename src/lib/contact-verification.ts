@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { isChannelSetUp } from '@/lib/notifications';
+import type { Repository } from '@/lib/repository';
+import type { ContactCode, ContactKind, PhoneChannel } from '@/lib/types';
+
+// --- Contact Verification ---
+
+/**
+ * How long a code can be entered after it is sent.
+ */
+export const CONTACT_CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * How long a verified contact can be used to register or join the waitlist.
+ */
+export const CONTACT_PROOF_TTL_MS = 60 * 60 * 1000;
+
+const RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_CODES_PER_HOUR = 5;
+const MAX_CODE_ATTEMPTS = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CONTACT_LABELS: Record<ContactKind, string> = { email: 'email address', phone: 'phone number' };
+
+export function normaliseContact(kind: ContactKind, contact: string): string {
+    return kind === 'email' ? contact.trim().toLowerCase() : contact.trim();
+}
+
+function hashCode(salt: string, code: string): string {
+    return crypto.createHash('sha256').update(`${salt}:${code}`).digest('hex');
+}
+
+function hashProof(proof: string): string {
+    return crypto.createHash('sha256').update(proof).digest('hex');
+}
+
+/**
+ * The channel phone codes go out on: SMS if set up, otherwise WhatsApp, or null if
+ * neither is, in which case phone numbers are not verified.
+ */
+export function phoneCodeChannel(): PhoneChannel | null {
+    if (isChannelSetUp('sms')) return 'sms';
+    if (isChannelSetUp('whatsapp')) return 'whatsapp';
+    return null;
+}
+
+/**
+ * The contacts a registration must have verified: always the email address, and
+ * the phone number when codes can be sent to it.
+ */
+export function requiredContactKinds(): ContactKind[] {
+    return phoneCodeChannel() ? ['email', 'phone'] : ['email'];
+}
+
+/**
+ * Issues a new code for a contact, replacing any earlier code. A proof already
+ * handed back stays good until it expires, so asking for a code for someone
+ * else's contact can't undo their verification. Codes can be sent once a minute
+ * and five times an hour per contact. Only the code's hash is stored; send the
+ * returned code to the contact.
+ * Must be called inside a transaction.
+ */
+export async function issueContactCode(
+    repo: Repository,
+    kind: ContactKind,
+    contact: string,
+    now: Date
+): Promise<{ code: string; expiresAt: string; error?: undefined } | { error: string }> {
+    const normalised = normaliseContact(kind, contact);
+    const existing = await repo.contactCodes.get(kind, normalised);
+    const recent = (existing?.sentAt ?? []).filter(at => now.getTime() - new Date(at).getTime() < HOUR_MS);
+    const last = recent[recent.length - 1];
+    if (last && now.getTime() - new Date(last).getTime() < RESEND_INTERVAL_MS) {
+        return { error: 'A code was just sent. Please wait a minute before asking for another.' };
+    }
+    if (recent.length >= MAX_CODES_PER_HOUR) {
+        return { error: `Too many codes have been sent to this ${CONTACT_LABELS[kind]}. Please try again in an hour.` };
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const salt = crypto.randomBytes(16).toString('base64url');
+    const expiresAt = new Date(now.getTime() + CONTACT_CODE_TTL_MS).toISOString();
+    await repo.contactCodes.save({
+        kind,
+        contact: normalised,
+        codeHash: hashCode(salt, code),
+        salt,
+        expiresAt,
+        attempts: 0,
+        sentAt: [...recent, now.toISOString()],
+        ...(existing?.verifiedAt && existing.proofHash && { verifiedAt: existing.verifiedAt, proofHash: existing.proofHash }),
+    });
+    return { code, expiresAt };
+}
+
+/**
+ * Checks a code entered for a contact. A correct code returns a proof to send
+ * with the registration; five wrong codes use the code up.
+ * Must be called inside a transaction.
+ */
+export async function confirmContactCode(
+    repo: Repository,
+    kind: ContactKind,
+    contact: string,
+    code: string,
+    now: Date
+): Promise<{ proof: string; error?: undefined } | { error: string }> {
+    const record = await repo.contactCodes.get(kind, normaliseContact(kind, contact));
+    // A code works once: it is used up if the contact was verified after it was sent.
+    const sentAt = record?.sentAt[record.sentAt.length - 1];
+    if (!record || (record.verifiedAt && (!sentAt || record.verifiedAt >= sentAt))) {
+        return { error: 'Please ask for a new code.' };
+    }
+    if (record.attempts >= MAX_CODE_ATTEMPTS) {
+        return { error: 'Too many wrong codes. Please ask for a new one.' };
+    }
+    if (new Date(record.expiresAt) <= now) {
+        return { error: 'This code has expired. Please ask for a new one.' };
+    }
+
+    const expected = Buffer.from(record.codeHash);
+    const actual = Buffer.from(hashCode(record.salt, code.trim()));
+    if (!crypto.timingSafeEqual(actual, expected)) {
+        const attempts = record.attempts + 1;
+        await repo.contactCodes.save({ ...record, attempts });
+        return {
+            error: attempts >= MAX_CODE_ATTEMPTS
+                ? 'Too many wrong codes. Please ask for a new one.'
+                : 'That code is not right. Please check it and try again.',
+        };
+    }
+
+    const proof = crypto.randomBytes(24).toString('base64url');
+    const verified: ContactCode = { ...record, verifiedAt: now.toISOString(), proofHash: hashProof(proof) };
+    await repo.contactCodes.save(verified);
+    return { proof };
+}
+
+/**
+ * Returns an error unless the proof was handed back for this contact within the
+ * last hour. A proof can be used more than once in that time, e.g. to register
+ * again after a rejected payment.
+ * Must be called inside a transaction.
+ */
+export async function checkContactProof(
+    repo: Repository,
+    kind: ContactKind,
+    contact: string,
+    proof: string | undefined,
+    now: Date
+): Promise<string | null> {
+    const unverified = `Please verify your ${CONTACT_LABELS[kind]} with the code we send you.`;
+    if (!proof) return unverified;
+    const record = await repo.contactCodes.get(kind, normaliseContact(kind, contact));
+    if (!record?.verifiedAt || !record.proofHash) return unverified;
+    const expected = Buffer.from(record.proofHash, 'hex');
+    const actual = Buffer.from(hashProof(proof), 'hex');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return unverified;
+    if (now.getTime() - new Date(record.verifiedAt).getTime() > CONTACT_PROOF_TTL_MS) {
+        return `Your ${CONTACT_LABELS[kind]} was verified over an hour ago. Please verify it again.`;
+    }
+    return null;
+}
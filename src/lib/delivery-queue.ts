@@ -0,0 +1,139 @@
+import { getDataStore, type Repository } from '@/lib/repository';
+import type { OutboxStatus } from '@/lib/types';
+
+// --- Delivery Queue ---
+//
+// Emails and WhatsApp/SMS messages are stored before they are sent, then sent with
+// retries. Each kind of message plugs its storage and sender into the same queue.
+
+/**
+ * Attempts before a message is given up on and marked dead.
+ */
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Doubled after every failed attempt: 1, 2, 4, 8 and 16 minutes.
+const RETRY_BASE_MS = 60 * 1000;
+
+// How long an attempt in flight holds a message before another run may take it over.
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * The fields every queued message keeps about its delivery.
+ */
+export type QueuedMessage = {
+    id: string;
+    status: OutboxStatus;
+    attempts: number;
+    nextAttemptAt: string; // ISO string; while an attempt is in flight, when it may be taken over
+    lastError?: string;
+    sentAt?: string; // ISO string
+    providerMessageId?: string;
+};
+
+/**
+ * The part of a message store the queue uses, such as `repo.outbox`.
+ */
+export type QueuedMessageStore<M extends QueuedMessage> = {
+    get(id: string): Promise<M | null>;
+    listDue(now: string, limit: number): Promise<M[]>;
+    update(message: M): Promise<void>;
+};
+
+/**
+ * Where one kind of message is stored and how it is sent.
+ */
+export interface DeliveryQueue<M extends QueuedMessage> {
+    /** Prefixes log lines, e.g. `email`. */
+    readonly name: string;
+    messages(repo: Repository): QueuedMessageStore<M>;
+    /**
+     * Hands the message to a provider and returns what to record about it, e.g. the
+     * provider's id. Throws if it was not accepted.
+     */
+    send(message: M): Promise<Partial<M>>;
+    /** Whether a failed send should not be retried. */
+    isPermanent(error: unknown): boolean;
+    /** The message in log lines, e.g. `winner email to team@example.com`. */
+    describe(message: M): string;
+}
+
+/**
+ * Makes one attempt at sending a message, unless it has been sent or given up on,
+ * is not due, or is being sent by another run. Returns the message as it was
+ * left, or null if no attempt was made.
+ */
+export async function attemptQueuedDelivery<M extends QueuedMessage>(
+    queue: DeliveryQueue<M>,
+    id: string,
+    now: Date = new Date()
+): Promise<M | null> {
+    const store = getDataStore();
+    // Taken under the lock before sending, so overlapping runs don't send the same message twice.
+    const claimed = await store.transaction(async repo => {
+        const message = await queue.messages(repo).get(id);
+        if (!message || message.status !== 'pending' || new Date(message.nextAttemptAt) > now) return null;
+        const inFlight: M = {
+            ...message,
+            attempts: message.attempts + 1,
+            nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS).toISOString(),
+        };
+        await queue.messages(repo).update(inFlight);
+        return inFlight;
+    });
+    if (!claimed) return null;
+
+    let outcome: Partial<M>;
+    try {
+        const sent = await queue.send(claimed);
+        outcome = { ...sent, status: 'sent', sentAt: new Date().toISOString(), lastError: undefined } as Partial<M>;
+    } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error);
+        if (queue.isPermanent(error) || claimed.attempts >= MAX_DELIVERY_ATTEMPTS) {
+            console.error(`[${queue.name}] Gave up on ${queue.describe(claimed)} after ${claimed.attempts} attempts: ${lastError}`);
+            outcome = { status: 'dead', lastError } as Partial<M>;
+        } else {
+            console.warn(`[${queue.name}] Could not send ${queue.describe(claimed)} (attempt ${claimed.attempts}): ${lastError}`);
+            const retryAt = Date.now() + RETRY_BASE_MS * 2 ** (claimed.attempts - 1);
+            outcome = { lastError, nextAttemptAt: new Date(retryAt).toISOString() } as Partial<M>;
+        }
+    }
+
+    return store.transaction(async repo => {
+        const done: M = { ...claimed, ...outcome };
+        await queue.messages(repo).update(done);
+        return done;
+    });
+}
+
+/**
+ * Retries every message in the queue that is due, oldest first.
+ */
+export async function deliverDueMessages<M extends QueuedMessage>(
+    queue: DeliveryQueue<M>,
+    now: Date = new Date(),
+    limit = 100
+): Promise<{ sent: number; retrying: number; dead: number }> {
+    const due = await getDataStore().transaction(repo => queue.messages(repo).listDue(now.toISOString(), limit));
+    const counts = { sent: 0, retrying: 0, dead: 0 };
+    for (const message of due) {
+        const result = await attemptQueuedDelivery(queue, message.id, now);
+        if (result?.status === 'sent') counts.sent++;
+        else if (result?.status === 'dead') counts.dead++;
+        else if (result) counts.retrying++;
+    }
+    return counts;
+}
+
+/**
+ * Sends a message once without storing it, for content that must not be kept,
+ * such as one-time codes. Returns whether the provider took it.
+ */
+export async function sendUnqueued<M extends QueuedMessage>(queue: DeliveryQueue<M>, message: M): Promise<boolean> {
+    try {
+        await queue.send(message);
+        return true;
+    } catch (error) {
+        console.warn(`[${queue.name}] Could not send ${queue.describe(message)}: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+    }
+}
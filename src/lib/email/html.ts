@@ -0,0 +1,67 @@
+// --- Safe HTML ---
+
+/**
+ * Markup that is safe to put in an email as it is. Built with `html`.
+ */
+export class SafeHtml {
+    constructor(private readonly value: string) {}
+
+    toString(): string {
+        return this.value;
+    }
+}
+
+export type HtmlValue = SafeHtml | string | number | false | null | undefined | readonly HtmlValue[];
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/**
+ * Escapes text for use in an element or a quoted attribute.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+const SAFE_URL_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+/**
+ * The URL if it is absolute and uses http, https or mailto; otherwise `#`, so a
+ * `javascript:` or `data:` link can't be slipped into an email.
+ */
+export function safeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return SAFE_URL_PROTOCOLS.has(parsed.protocol) ? parsed.href : '#';
+    } catch {
+        return '#';
+    }
+}
+
+// The template text before a value decides how it is escaped.
+const URL_ATTRIBUTE = /\s(?:href|src)=["']$/i;
+const UNQUOTED_ATTRIBUTE = /\s[\w-]+=$/;
+
+function interpolate(value: HtmlValue, url: boolean): string {
+    if (value === null || value === undefined || value === false) return '';
+    if (Array.isArray(value)) return value.map(item => interpolate(item, url)).join('');
+    if (url) return escapeHtml(safeUrl(String(value)));
+    if (value instanceof SafeHtml) return value.toString();
+    return escapeHtml(String(value));
+}
+
+/**
+ * Builds markup from a template, escaping every value for where it appears: text
+ * and quoted attributes are HTML-escaped and `href`/`src` values must be safe
+ * URLs. Nested `html` results and arrays of them are kept as they are; `null`,
+ * `undefined` and `false` render nothing.
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+    let out = strings[0];
+    values.forEach((value, i) => {
+        if (UNQUOTED_ATTRIBUTE.test(out)) {
+            throw new Error('Attribute values in email templates must be quoted.');
+        }
+        out += interpolate(value, URL_ATTRIBUTE.test(out)) + strings[i + 1];
+    });
+    return new SafeHtml(out);
+}
@@ -0,0 +1,17 @@
+export { escapeHtml, html, safeUrl, SafeHtml } from './html';
+export type { HtmlValue } from './html';
+export {
+    attemptDelivery,
+    deliverDueEmails,
+    MAX_EMAIL_ATTEMPTS,
+    queueEmail,
+    queueResend,
+    resendEmail,
+    sendEmail,
+    sendEmailUnstored,
+} from './outbox';
+export type { StoredEmailTemplate, UnstoredEmailTemplate } from './outbox';
+export { hasStatusEmail, htmlToText, renderEmail, sanitizeSubject } from './templates';
+export type { EmailTemplateData, RenderedEmail } from './templates';
+export { EmailDeliveryError, getEmailTransport } from './transports';
+export type { EmailTransport, EmailTransportName, OutgoingEmail } from './transports';
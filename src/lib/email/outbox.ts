@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { attemptQueuedDelivery, deliverDueMessages, MAX_DELIVERY_ATTEMPTS, sendUnqueued, type DeliveryQueue } from '@/lib/delivery-queue';
+import { getDataStore, type Repository } from '@/lib/repository';
+import type { EmailTemplateName, OutboxMessage } from '@/lib/types';
+import { renderEmail, type EmailTemplateData } from './templates';
+import { EmailDeliveryError, getEmailTransport } from './transports';
+
+// --- Email Outbox ---
+
+/**
+ * Attempts before a message is moved to the dead letters.
+ */
+export const MAX_EMAIL_ATTEMPTS = MAX_DELIVERY_ATTEMPTS;
+
+function senderAddress(): string {
+    const { EMAIL_USER } = process.env;
+    if (!EMAIL_USER) throw new EmailDeliveryError('EMAIL_USER is not set.');
+    return `"The Founders Official" <${EMAIL_USER}>`;
+}
+
+/**
+ * Emails carrying a one-time code. They are sent with `sendEmailUnstored`, so the
+ * code never sits in the outbox, where it would be kept and could be resent.
+ */
+export type UnstoredEmailTemplate = 'verification_code';
+
+export type StoredEmailTemplate = Exclude<EmailTemplateName, UnstoredEmailTemplate>;
+
+function renderMessage<K extends EmailTemplateName>(template: K, to: string, data: EmailTemplateData[K], now: Date): OutboxMessage {
+    return {
+        id: crypto.randomUUID(),
+        template,
+        to,
+        ...renderEmail(template, data),
+        status: 'pending',
+        attempts: 0,
+        createdAt: now.toISOString(),
+        nextAttemptAt: now.toISOString(),
+    };
+}
+
+/**
+ * Renders an email and adds it to the outbox. Must be called inside a transaction.
+ */
+export async function queueEmail<K extends StoredEmailTemplate>(
+    repo: Repository,
+    template: K,
+    to: string,
+    data: EmailTemplateData[K],
+    now: Date = new Date()
+): Promise<OutboxMessage> {
+    const message = renderMessage(template, to, data, now);
+    await repo.outbox.add(message);
+    return message;
+}
+
+/**
+ * Queues a copy of a message, whatever its status, to be sent again.
+ * Must be called inside a transaction.
+ */
+export async function queueResend(
+    repo: Repository,
+    id: string,
+    requestedBy: string,
+    now: Date = new Date()
+): Promise<OutboxMessage | null> {
+    const original = await repo.outbox.get(id);
+    // Codes stored before they were sent unstored are not sent again either.
+    if (!original || original.template === 'verification_code') return null;
+    const message: OutboxMessage = {
+        id: crypto.randomUUID(),
+        template: original.template,
+        to: original.to,
+        subject: original.subject,
+        html: original.html,
+        text: original.text,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now.toISOString(),
+        nextAttemptAt: now.toISOString(),
+        resendOf: original.id,
+        queuedBy: requestedBy,
+    };
+    await repo.outbox.add(message);
+    return message;
+}
+
+const emailQueue: DeliveryQueue<OutboxMessage> = {
+    name: 'email',
+    messages: repo => repo.outbox,
+    async send(message) {
+        const transport = getEmailTransport();
+        const { messageId } = await transport.send({
+            from: senderAddress(),
+            to: message.to,
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+        });
+        return { transport: transport.name, providerMessageId: messageId };
+    },
+    isPermanent: error => error instanceof EmailDeliveryError && error.permanent,
+    describe: message => `${message.template} email to ${message.to}`,
+};
+
+/**
+ * Makes one attempt at sending an email; see `attemptQueuedDelivery`.
+ */
+export function attemptDelivery(id: string, now: Date = new Date()): Promise<OutboxMessage | null> {
+    return attemptQueuedDelivery(emailQueue, id, now);
+}
+
+/**
+ * Queues an email and makes the first attempt straight away. A failed attempt is
+ * retried by `deliverDueEmails`, so this only throws if the email could not be queued.
+ */
+export async function sendEmail<K extends StoredEmailTemplate>(
+    template: K,
+    to: string,
+    data: EmailTemplateData[K]
+): Promise<OutboxMessage> {
+    const queued = await getDataStore().transaction(repo => queueEmail(repo, template, to, data));
+    return (await attemptDelivery(queued.id)) ?? queued;
+}
+
+/**
+ * Sends an email once without adding it to the outbox. Not retried; returns
+ * whether the transport took it, so the caller can ask the user to try again.
+ */
+export function sendEmailUnstored<K extends UnstoredEmailTemplate>(
+    template: K,
+    to: string,
+    data: EmailTemplateData[K]
+): Promise<boolean> {
+    return sendUnqueued(emailQueue, renderMessage(template, to, data, new Date()));
+}
+
+/**
+ * Queues a copy of a message and makes the first attempt straight away.
+ */
+export async function resendEmail(id: string, requestedBy: string): Promise<OutboxMessage | null> {
+    const queued = await getDataStore().transaction(repo => queueResend(repo, id, requestedBy));
+    if (!queued) return null;
+    return (await attemptDelivery(queued.id)) ?? queued;
+}
+
+/**
+ * Retries every message that is due, oldest first. Meant to run from cron every
+ * minute; running it more often or late is harmless.
+ */
+export function deliverDueEmails(now: Date = new Date(), limit = 100): Promise<{ sent: number; retrying: number; dead: number }> {
+    return deliverDueMessages(emailQueue, now, limit);
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { queueEmail, renderEmail } from '@/lib/email';
+import { createSqliteDataStore, type DataStore } from '@/lib/repository';
+import { BUILT_IN_TOURNAMENTS } from '@/lib/tournaments';
+import type { OutboxMessage, TeamRegistrationData, WaitlistEntry } from '@/lib/types';
+
+// The values a team controls on the registration form, as hostile as they come.
+const HOSTILE_TEAM_NAME = '<script>alert(1)</script><a href="https://evil.example">Claim prize</a>';
+const HOSTILE_PLAYER_ID = '"><img src=x onerror=alert(1)>';
+const CRLF_TEAM_NAME = 'Squad\r\nBcc: victim@example.com\r\nX-Injected: yes';
+
+const tournament = BUILT_IN_TOURNAMENTS[0];
+
+function hostileTeam(overrides: Partial<TeamRegistrationData> = {}): TeamRegistrationData {
+    return {
+        id: 'team-1',
+        status: 'confirmed',
+        teamName: HOSTILE_TEAM_NAME,
+        players: [
+            { id: HOSTILE_PLAYER_ID, level: 50 },
+            { id: '<a href="javascript:alert(1)">me</a>', level: 40 },
+            { id: '1234567890', level: 60 },
+            { id: '1234567891', level: 70 },
+        ],
+        contactEmail: 'team@example.com',
+        contactPhone: '9876543210',
+        utrNumber: '412345678901',
+        screenshotHash: 'hash',
+        screenshotUrl: 'javascript:alert(document.cookie)',
+        registrationTime: '2024-05-06T15:45:00.000Z',
+        ...overrides,
+    };
+}
+
+function assertNoMarkupFromTeam(htmlBody: string) {
+    assert.doesNotMatch(htmlBody, /<script/i);
+    assert.doesNotMatch(htmlBody, /<img/i);
+    assert.doesNotMatch(htmlBody, /href="https:\/\/evil\.example/);
+    assert.doesNotMatch(htmlBody, /href="javascript:/i);
+}
+
+describe('emails sent for a registration', () => {
+    // Queued straight through the outbox and read back as stored, which is what the
+    // transports send. actions.test.ts sends hostile names through registerTeam itself.
+    let store: DataStore;
+    let dir: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-email-'));
+        store = createSqliteDataStore(path.join(dir, 'test.db'));
+    });
+
+    after(async () => {
+        await store.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function queued(template: 'new_registration' | 'registration_confirmed', team: TeamRegistrationData): Promise<OutboxMessage> {
+        return store.transaction(async repo => {
+            const message = await queueEmail(repo, template, 'admin@example.com', { team, tournament });
+            return (await repo.outbox.get(message.id))!;
+        });
+    }
+
+    test('escapes a hostile team name and player ids in the admin email', async () => {
+        const message = await queued('new_registration', hostileTeam());
+        assertNoMarkupFromTeam(message.html);
+        assert.match(message.html, /&lt;script&gt;alert\(1\)&lt;\/script&gt;/);
+        assert.match(message.html, /&quot;&gt;&lt;img src=x onerror=alert\(1\)&gt;/);
+        // The plain-text part shows the names as typed.
+        assert.match(message.text, /<script>alert\(1\)<\/script>/);
+    });
+
+    test('escapes a hostile team name and player ids in the confirmation email', async () => {
+        const message = await queued('registration_confirmed', hostileTeam());
+        assertNoMarkupFromTeam(message.html);
+        assert.match(message.html, /&lt;script&gt;/);
+    });
+
+    test('replaces a javascript: screenshot link', async () => {
+        const message = await queued('new_registration', hostileTeam());
+        assert.match(message.html, /<a href="#"/);
+    });
+
+    test('keeps an https screenshot link', async () => {
+        const message = await queued('new_registration', hostileTeam({ screenshotUrl: 'https://storage.example/s.png?a=1&b=2' }));
+        assert.match(message.html, /<a href="https:\/\/storage\.example\/s\.png\?a=1&amp;b=2"/);
+    });
+
+    test('keeps line breaks out of the subject', async () => {
+        const message = await queued('new_registration', hostileTeam({ teamName: CRLF_TEAM_NAME }));
+        assert.doesNotMatch(message.subject, /[\r\n]/);
+        assert.equal(message.subject, 'New Tournament Registration: Squad Bcc: victim@example.com X-Injected: yes');
+    });
+});
+
+describe('renderEmail', () => {
+    test('cuts long subjects to 150 characters', () => {
+        const { subject } = renderEmail('new_registration', { team: hostileTeam({ teamName: 'x'.repeat(300) }), tournament });
+        assert.equal(Array.from(subject).length, 150);
+        assert.ok(subject.endsWith('…'));
+    });
+
+    test('escapes a waitlist invitation and replaces an unsafe link', () => {
+        const entry: WaitlistEntry = {
+            id: 'entry-1',
+            registrationWeekStart: '2024-05-05T18:30:00.000Z',
+            status: 'invited',
+            teamName: HOSTILE_TEAM_NAME,
+            players: hostileTeam().players,
+            contactEmail: 'team@example.com',
+            contactPhone: '9876543210',
+            joinedAt: '2024-05-06T10:00:00.000Z',
+            invite: { tokenHash: 'hash', invitedAt: '2024-05-06T10:00:00.000Z', expiresAt: '2024-05-06T12:00:00.000Z' },
+        };
+        const rendered = renderEmail('waitlist_invite', { entry, link: 'javascript:alert(1)', tournament });
+        assertNoMarkupFromTeam(rendered.html);
+        assert.match(rendered.html, /<a href="#"/);
+    });
+});
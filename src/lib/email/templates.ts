@@ -0,0 +1,321 @@
+import { ENGINE_NAMES, latestVerification } from '@/lib/payment-verification';
+import { formatRupees, ordinal, prizeForRank } from '@/lib/tournaments';
+import type {
+    EmailTemplateName,
+    PaymentVerification,
+    RegistrationStatus,
+    RoomDetails,
+    StatusChange,
+    TeamRegistrationData,
+    Tournament,
+    WaitlistEntry,
+} from '@/lib/types';
+import { html, type SafeHtml } from './html';
+
+// --- Email Templates ---
+
+/**
+ * The data each template is rendered from.
+ */
+export type EmailTemplateData = {
+    new_registration: { team: TeamRegistrationData; tournament: Tournament };
+    registration_confirmed: { team: TeamRegistrationData; tournament: Tournament };
+    payment_rejected: { team: TeamRegistrationData; tournament: Tournament };
+    status_changed: { team: TeamRegistrationData; change: StatusChange; tournament: Tournament };
+    waitlist_invite: { entry: WaitlistEntry; link: string; tournament: Tournament };
+    winner: { teamName: string; rank: number; points: number; tournament: Tournament; claimUrl: string | null };
+    room_details: { team: TeamRegistrationData; room: RoomDetails; stageName: string; tournament: Tournament };
+    verification_code: { code: string; expiresInMinutes: number };
+};
+
+export type RenderedEmail = {
+    subject: string;
+    html: string;
+    text: string; // Plain-text alternative
+};
+
+const SIGN_OFF = html`<br><p>Best regards,<br>The Founders Official</p>`;
+
+function playersHtml(team: TeamRegistrationData): SafeHtml {
+    return html`<ul>${team.players.map(p => html`<li><b>ID:</b> ${p.id}, <b>Level:</b> ${p.level}</li>`)}</ul>`;
+}
+
+/**
+ * What a payment check read off the screenshot, for admin emails.
+ */
+function verificationDetailsHtml(verification: PaymentVerification | null): SafeHtml | null {
+    if (!verification) return null;
+    const notRead = html`<em>not read</em>`;
+    const rows: [string, string | SafeHtml][] = [
+        ['Engine', `${ENGINE_NAMES[verification.engine]}${verification.model ? ` (${verification.model})` : ''}`],
+        ['Outcome', `${verification.outcome}: ${verification.reason}`],
+        ['UTR', verification.utr ?? notRead],
+        ['Amount', verification.amount != null ? formatRupees(verification.amount) : notRead],
+        ['Payee', verification.payee ?? notRead],
+        ['Date', verification.transactionDate ?? notRead],
+        ['Payment Reference', verification.referenceFound ? 'Found' : 'Not found'],
+        ['Confidence', verification.confidence != null ? `${Math.round(verification.confidence * 100)}%` : 'Not reported'],
+        ['Took', `${(verification.latencyMs / 1000).toFixed(1)}s`],
+    ];
+    return html`<ul>${rows.map(([label, value]) => html`<li><strong>${label}:</strong> ${value}</li>`)}</ul>`;
+}
+
+const STATUS_EMAILS: Partial<Record<RegistrationStatus, { subject: string; heading: string; message: string }>> = {
+    withdrawn: {
+        subject: 'Your Registration Has Been Withdrawn',
+        heading: 'Registration Withdrawn',
+        message: 'Your team has been withdrawn from the tournament and your slot has been released.',
+    },
+    disqualified: {
+        subject: 'Your Team Has Been Disqualified',
+        heading: 'Team Disqualified',
+        message: 'Your team has been disqualified for breaking the fair-play rules. Any player found breaking the rules results in disqualification of the entire team.',
+    },
+    refunded: {
+        subject: 'Your Entry Fee Has Been Refunded',
+        heading: 'Entry Fee Refunded',
+        message: 'Your entry fee has been refunded to the account you paid from. It may take a few days to show up.',
+    },
+};
+
+/**
+ * Whether a status change is one the team is emailed about.
+ */
+export function hasStatusEmail(status: RegistrationStatus): boolean {
+    return status in STATUS_EMAILS;
+}
+
+const TEMPLATES: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => { subject: string; html: SafeHtml } } = {
+    new_registration({ team, tournament }) {
+        const registrationTime = new Date(team.registrationTime).toLocaleString('en-US', {
+            timeZone: tournament.timezone,
+            year: 'numeric', month: 'long', day: 'numeric',
+            hour: '2-digit', minute: '2-digit', timeZoneName: 'short'
+        });
+        const screenshotHtml = team.screenshotUrl
+            ? html`<p><a href="${team.screenshotUrl}" target="_blank" style="font-weight: bold; color: #007bff;">View Screenshot</a></p>`
+            : html`<p style="font-weight: bold; color: #dc3545;">Screenshot upload failed. Please verify UTR manually.</p>`;
+        const needsReview = team.status === 'pending_review';
+        const fraudHtml = team.fraud
+            ? html`<p><strong>Screenshot Fraud Score:</strong> ${team.fraud.score}/100</p>${team.fraud.signals.length > 0
+                && html`<ul>${team.fraud.signals.map(s => html`<li>${s.detail}</li>`)}</ul>`}`
+            : null;
+
+        return {
+            subject: `${needsReview ? 'Payment Review Needed' : 'New Tournament Registration'}: ${team.teamName}`,
+            html: html`
+                <h1>${needsReview ? 'Payment Awaiting Review' : 'New Team Registration!'}</h1>
+                <p>${needsReview
+                    ? 'A new team has registered, but the payment could not be verified automatically. The slot is held until you approve or reject it in the review queue.'
+                    : 'A new team has registered for the tournament and the payment has been verified automatically.'}</p>
+                <p><strong>Payment Verification:</strong> ${needsReview ? `Needs manual review. ${team.review?.reason ?? ''}` : 'Verified.'}</p>
+                ${verificationDetailsHtml(latestVerification(team))}
+                ${fraudHtml}
+                ${screenshotHtml}
+                <hr>
+                <h2>Team Details:</h2>
+                <ul>
+                    <li><strong>Tournament:</strong> ${tournament.name}</li>
+                    <li><strong>Team Name:</strong> ${team.teamName}</li>
+                    <li><strong>Contact Email:</strong> ${team.contactEmail}</li>
+                    <li><strong>Contact Phone:</strong> ${team.contactPhone}</li>
+                    <li><strong>UTR Number:</strong> ${team.utrNumber}</li>
+                    <li><strong>Payment Reference:</strong> ${team.paymentReference ?? 'None'}</li>
+                    <li><strong>Registration Time:</strong> ${registrationTime}</li>
+                </ul>
+                <h3>Players:</h3>
+                ${playersHtml(team)}
+                <hr>
+                <p>This is an automated notification.</p>
+            `,
+        };
+    },
+
+    registration_confirmed({ team, tournament }) {
+        const registrationTime = new Date(team.registrationTime).toLocaleString('en-IN', {
+            timeZone: tournament.timezone,
+            timeZoneName: 'short',
+        });
+        return {
+            subject: 'Registration Confirmation for The Founders Tournament',
+            html: html`
+                <h1>Registration Confirmed!</h1>
+                <p>Hello ${team.teamName},</p>
+                <p>Thank you for registering for The Founders Official tournament. Your registration has been received.</p>
+                <hr>
+                <h2>Your Registration Details:</h2>
+                <ul>
+                    <li><strong>Tournament:</strong> ${tournament.name}</li>
+                    <li><strong>Team Name:</strong> ${team.teamName}</li>
+                    <li><strong>Entry Fee:</strong> ${formatRupees(tournament.entryFee)}</li>
+                    <li><strong>UTR Number:</strong> ${team.utrNumber}</li>
+                    <li><strong>Registration Time:</strong> ${registrationTime}</li>
+                </ul>
+                <h3>Your Players:</h3>
+                ${playersHtml(team)}
+                <hr>
+                <p>Your payment and registration details have been verified. Please join the WhatsApp group for match updates.</p>
+                <p>Good luck!</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+
+    payment_rejected({ team, tournament }) {
+        const note = team.review?.note;
+        return {
+            subject: 'Payment Not Accepted for The Founders Tournament',
+            html: html`
+                <h1>Payment Not Accepted</h1>
+                <p>Hello ${team.teamName},</p>
+                <p>We reviewed the payment for your registration in ${tournament.name} (UTR ${team.utrNumber}) and could not accept it, so your slot has been released.</p>
+                ${note && html`<p><strong>Reason:</strong> ${note}</p>`}
+                <p>If you believe this is a mistake, reply to this email with your payment details. You are welcome to register again with a valid payment while slots remain.</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+
+    status_changed({ team, change, tournament }) {
+        const content = STATUS_EMAILS[change.to];
+        if (!content) {
+            throw new Error(`No email for registrations moving to ${change.to}.`);
+        }
+        return {
+            subject: content.subject,
+            html: html`
+                <h1>${content.heading}</h1>
+                <p>Hello ${team.teamName},</p>
+                <p>${content.message}</p>
+                <ul>
+                    <li><strong>Tournament:</strong> ${tournament.name}</li>
+                    <li><strong>UTR Number:</strong> ${team.utrNumber}</li>
+                    ${change.to === 'refunded' && html`<li><strong>Amount:</strong> ${formatRupees(tournament.entryFee)}</li>`}
+                    ${change.reason && html`<li><strong>Reason:</strong> ${change.reason}</li>`}
+                </ul>
+                <p>If you have any questions, reply to this email.</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+
+    waitlist_invite({ entry, link, tournament }) {
+        const expiresAt = new Date(entry.invite!.expiresAt).toLocaleString('en-IN', {
+            timeZone: tournament.timezone,
+            timeZoneName: 'short',
+        });
+        return {
+            subject: 'A Slot Is Waiting for You in The Founders Tournament',
+            html: html`
+                <h1>A Slot Has Opened Up!</h1>
+                <p>Hello ${entry.teamName},</p>
+                <p>A slot in ${tournament.name} is now free and it is being held for your team.</p>
+                <p><a href="${link}" style="font-weight: bold; color: #007bff;">Complete your registration</a> and pay the entry fee of ${formatRupees(tournament.entryFee)} before <strong>${expiresAt}</strong>. After that, the slot goes to the next team on the waitlist.</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+
+    winner({ teamName, rank, points, tournament, claimUrl }) {
+        const isFirstPlace = rank === 1;
+        const place = ordinal(rank);
+        const prizeAmount = prizeForRank(tournament, rank);
+        const prize = prizeAmount !== null ? formatRupees(prizeAmount) : 'No cash prize';
+        const message = isFirstPlace
+            ? "Your skill and dedication have paid off. You are the champions of this week's tournament!"
+            : `You fought hard and showed incredible spirit. A well-deserved ${place} place finish!`;
+        return {
+            subject: isFirstPlace
+                ? '🏆 Congratulations on Your 1st Place Victory! 🏆'
+                : `🎉 Congratulations on Securing ${place} Place! 🎉`,
+            html: html`
+                <h1>Congratulations, ${teamName}!</h1>
+                <p>On behalf of The Founders Official, we would like to extend our warmest congratulations to you and your team for securing <strong>${place} Place</strong> in ${tournament.name}, with ${points} points.</p>
+                <p>${message}</p>
+                <hr>
+                <h2>Prize Information:</h2>
+                <p><strong>Your Prize:</strong> ${prize}</p>
+                ${claimUrl
+                    ? html`<p>To receive your prize, <a href="${claimUrl}" style="font-weight: bold; color: #007bff;">send us your UPI details</a> within 7 days. The link can only be used once.</p>`
+                    : html`<p>Your prize money will be sent to you shortly. We will contact you for the payment details.</p>`}
+                <hr>
+                <p>We are proud of your achievement and look forward to seeing you dominate in future tournaments.</p>
+                <p>Keep up the great work!</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+
+    room_details({ team, room, stageName, tournament }) {
+        return {
+            subject: `Room ID & Password: ${stageName}, Lobby ${room.lobby}`,
+            html: html`
+                <h1>Your Room Details</h1>
+                <p>Hello ${team.teamName},</p>
+                <p>Here are the custom room details for ${stageName}, Lobby ${room.lobby} of ${tournament.name}:</p>
+                <ul>
+                    <li><strong>Room ID:</strong> ${room.roomId}</li>
+                    <li><strong>Password:</strong> ${room.password}</li>
+                </ul>
+                <p>Please keep these to your team. Sharing them with anyone else will get your team disqualified.</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+
+    verification_code({ code, expiresInMinutes }) {
+        return {
+            subject: 'Your Verification Code for The Founders Tournament',
+            html: html`
+                <h1>Your Verification Code</h1>
+                <p>Enter this code on the registration form to confirm your email address:</p>
+                <p style="font-size: 24px; font-weight: bold; letter-spacing: 4px;">${code}</p>
+                <p>It expires in ${expiresInMinutes} minutes. If you did not ask for it, you can ignore this email.</p>
+                ${SIGN_OFF}
+            `,
+        };
+    },
+};
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+
+/**
+ * A plain-text version of an email's HTML: links keep their address, list items
+ * become dashes and block elements become lines.
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/>\s*\n\s*</g, '><') // Line breaks that only lay out the template source
+        .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<hr\s*\/?>/gi, '\n----\n')
+        .replace(/<br\s*\/?>|<\/?(p|h[1-6]|ul|ol|div)[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity])
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+const MAX_SUBJECT_LENGTH = 150;
+
+/**
+ * A subject that is safe to put in a header: line breaks, control characters and
+ * direction overrides become spaces, and anything past 150 characters is cut.
+ */
+export function sanitizeSubject(subject: string): string {
+    const clean = subject
+        .replace(/[\u0000-\u001f\u007f-\u009f\u2028\u2029\u202a-\u202e\u2066-\u2069]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    const chars = Array.from(clean); // Code points, so an emoji is never cut in half
+    return chars.length > MAX_SUBJECT_LENGTH ? `${chars.slice(0, MAX_SUBJECT_LENGTH - 1).join('').trimEnd()}…` : clean;
+}
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplateData[K]): RenderedEmail {
+    const rendered = TEMPLATES[template](data);
+    const html = rendered.html.toString();
+    return { subject: sanitizeSubject(rendered.subject), html, text: htmlToText(html) };
+}
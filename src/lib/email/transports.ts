@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { Resend } from 'resend';
+
+// --- Email Transports ---
+
+export type OutgoingEmail = {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+};
+
+export type EmailTransportName = 'resend' | 'smtp' | 'file';
+
+/**
+ * Hands an email to a provider. Throws `EmailDeliveryError` if it was not accepted.
+ */
+export interface EmailTransport {
+    readonly name: EmailTransportName;
+    send(email: OutgoingEmail): Promise<{ messageId?: string }>;
+}
+
+/**
+ * Thrown when an email could not be sent. Permanent errors, such as an invalid
+ * address, are not retried.
+ */
+export class EmailDeliveryError extends Error {
+    constructor(message: string, readonly permanent = false) {
+        super(message);
+        this.name = 'EmailDeliveryError';
+    }
+}
+
+// Resend errors caused by the message itself; anything else may succeed on a later attempt.
+const RESEND_PERMANENT_ERRORS = new Set(['missing_required_field', 'invalid_parameter', 'validation_error']);
+
+export function createResendTransport(apiKey: string): EmailTransport {
+    const resend = new Resend(apiKey);
+    return {
+        name: 'resend',
+        async send(email) {
+            const { data, error } = await resend.emails.send(email);
+            if (error) {
+                throw new EmailDeliveryError(`${error.name}: ${error.message}`, RESEND_PERMANENT_ERRORS.has(error.name));
+            }
+            return { messageId: data?.id };
+        },
+    };
+}
+
+export function createSmtpTransport(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }): EmailTransport {
+    const transporter = nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+    });
+    return {
+        name: 'smtp',
+        async send(email) {
+            try {
+                const info = await transporter.sendMail(email);
+                return { messageId: info.messageId };
+            } catch (error) {
+                // 5xx replies mean the server refused the message for good.
+                const code = (error as { responseCode?: number }).responseCode;
+                throw new EmailDeliveryError(error instanceof Error ? error.message : String(error), code !== undefined && code >= 500);
+            }
+        },
+    };
+}
+
+/**
+ * Writes each email to `dir` as JSON instead of sending it, for development and tests.
+ */
+export function createFileTransport(dir: string): EmailTransport {
+    return {
+        name: 'file',
+        async send(email) {
+            await fs.mkdir(dir, { recursive: true });
+            const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}`;
+            await fs.writeFile(path.join(dir, `${messageId}.json`), JSON.stringify(email, null, 2));
+            return { messageId };
+        },
+    };
+}
+
+/**
+ * The transport set by `EMAIL_TRANSPORT`: `resend` (the default, with `RESEND_API_KEY`),
+ * `smtp` (with `SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`, `SMTP_USER` and `SMTP_PASS`)
+ * or `file` (written to `EMAIL_FILE_DIR`). Throws if it is not configured.
+ */
+export function getEmailTransport(): EmailTransport {
+    const kind = process.env.EMAIL_TRANSPORT ?? 'resend';
+    if (kind === 'resend') {
+        if (!process.env.RESEND_API_KEY) throw new EmailDeliveryError('RESEND_API_KEY is not set.');
+        return createResendTransport(process.env.RESEND_API_KEY);
+    }
+    if (kind === 'smtp') {
+        const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS } = process.env;
+        if (!SMTP_HOST) throw new EmailDeliveryError('SMTP_HOST is not set.');
+        const secure = SMTP_SECURE === 'true';
+        return createSmtpTransport({
+            host: SMTP_HOST,
+            port: SMTP_PORT ? Number(SMTP_PORT) : secure ? 465 : 587,
+            secure,
+            user: SMTP_USER,
+            pass: SMTP_PASS,
+        });
+    }
+    if (kind === 'file') {
+        return createFileTransport(process.env.EMAIL_FILE_DIR ?? path.join(process.cwd(), 'src', 'data', 'sent-emails'));
+    }
+    throw new EmailDeliveryError(`Unknown EMAIL_TRANSPORT "${kind}". Expected "resend", "smtp" or "file".`);
+}
@@ -0,0 +1,20 @@
+// --- Fair Play Rules ---
+
+export type FairPlayRule = {
+    id: string;
+    text: string;
+};
+
+/**
+ * The rules shown on the home page. A disqualification cites one of them by id.
+ */
+export const FAIR_PLAY_RULES: FairPlayRule[] = [
+    { id: 'cheating', text: 'No hacking, cheating, or use of third-party tools.' },
+    { id: 'panel', text: 'Use of panel or any configuration file is strictly prohibited.' },
+    { id: 'teaming', text: 'No teaming up with opponent teams.' },
+    { id: 'abuse', text: 'Abusive language towards players or admins will lead to a ban.' },
+];
+
+export function getFairPlayRule(id: string): FairPlayRule | null {
+    return FAIR_PLAY_RULES.find(rule => rule.id === id) ?? null;
+}
@@ -0,0 +1,141 @@
+import type { TournamentScope } from '@/lib/repository';
+import { getWeekId } from '@/lib/time';
+import { prizeForRank } from '@/lib/tournaments';
+import { listAllWeeks } from '@/lib/weeks';
+import type { LedgerEntry, Payout, TeamRegistrationData, Tournament, WeeklyData, WeeklyLedger, WeeklyWinner, WinnerInfo } from '@/lib/types';
+
+// --- Ledger ---
+
+/**
+ * Whether a team's entry fee counts as collected: its payment was accepted at
+ * some point, or it was refunded, which means the money came in.
+ */
+export function feeCollected(team: TeamRegistrationData): boolean {
+    return team.status === 'confirmed'
+        || team.status === 'refunded'
+        || (team.statusHistory ?? []).some(change => change.to === 'confirmed');
+}
+
+export function entryFeeOf(team: TeamRegistrationData, tournament: Tournament): number {
+    return team.entryFee ?? tournament.entryFee;
+}
+
+/**
+ * The prize owed to a winner: as fixed when the week was settled, or for older
+ * records, what the tournament pays for the rank now.
+ */
+export function prizeOwed(tournament: Tournament, winner: WinnerInfo): number {
+    return winner.prize ?? prizeForRank(tournament, parseInt(winner.rank, 10)) ?? 0;
+}
+
+/**
+ * Builds a week's ledger from its registrations, its settled winners (if any) and
+ * the prizes and refunds paid out for it.
+ */
+export function buildWeeklyLedger(
+    tournament: Tournament,
+    week: WeeklyData,
+    winners: WeeklyWinner | undefined,
+    payouts: Payout[]
+): WeeklyLedger {
+    const weekPayouts = payouts.filter(p => p.registrationWeekStart === week.registrationWeekStart);
+    const entries: LedgerEntry[] = [
+        ...week.teams.filter(feeCollected).map(team => ({
+            type: 'entry_fee' as const,
+            at: team.registrationTime,
+            teamId: team.id,
+            teamName: team.teamName,
+            amount: entryFeeOf(team, tournament),
+            reference: team.utrNumber,
+        })),
+        ...(winners?.winners ?? []).map(winner => ({
+            type: 'prize_owed' as const,
+            at: winners!.settledAt ?? week.registrationWeekStart,
+            teamId: winner.teamId,
+            teamName: winner.teamName,
+            amount: prizeOwed(tournament, winner),
+            reference: winner.rank,
+        })),
+        ...weekPayouts.map(payout => ({
+            type: payout.kind === 'prize' ? 'prize_paid' as const : 'refund' as const,
+            at: payout.paidAt,
+            teamId: payout.teamId,
+            teamName: payout.teamName,
+            amount: payout.amount,
+            reference: payout.upiReference,
+        })),
+    ].sort((a, b) => a.at.localeCompare(b.at));
+
+    const total = (type: LedgerEntry['type']) =>
+        entries.filter(e => e.type === type).reduce((sum, e) => sum + e.amount, 0);
+    const feesCollected = total('entry_fee');
+    const prizesOwed = total('prize_owed');
+    const prizesPaid = total('prize_paid');
+    const refunds = total('refund');
+
+    return {
+        weekId: getWeekId(week.registrationWeekStart, tournament.timezone),
+        registrationWeekStart: week.registrationWeekStart,
+        teamsPaid: entries.filter(e => e.type === 'entry_fee').length,
+        feesCollected,
+        prizesOwed,
+        prizesPaid,
+        prizesOutstanding: Math.max(0, prizesOwed - prizesPaid),
+        refunds,
+        net: feesCollected - prizesOwed - refunds,
+        entries,
+    };
+}
+
+/**
+ * The ledger of every week on record, most recent first. Must be called inside a transaction.
+ */
+export async function loadLedgers(scope: TournamentScope, tournament: Tournament): Promise<WeeklyLedger[]> {
+    const weeks = await listAllWeeks(scope);
+    const winners = await scope.winners.list();
+    const payouts = await scope.payouts.list();
+    return weeks.map(week => buildWeeklyLedger(
+        tournament,
+        week,
+        winners.find(w => w.weekStart === week.registrationWeekStart),
+        payouts
+    ));
+}
+
+// --- CSV Export ---
+
+/**
+ * Quotes a CSV field when needed. Text that a spreadsheet would run as a formula
+ * (team names are user input) is prefixed with an apostrophe.
+ */
+function csvField(value: string | number): string {
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number)[][]): string {
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * One row per week, or with `detail` set to `entries`, one row per ledger entry.
+ */
+export function ledgerToCsv(ledgers: WeeklyLedger[], detail: 'summary' | 'entries' = 'summary'): string {
+    if (detail === 'entries') {
+        return toCsv([
+            ['Week', 'Date', 'Type', 'Team', 'Amount (INR)', 'Reference'],
+            ...ledgers.flatMap(ledger => ledger.entries.map(e => [
+                ledger.weekId, e.at, e.type, e.teamName, e.amount, e.reference ?? '',
+            ])),
+        ]);
+    }
+    return toCsv([
+        ['Week', 'Teams Paid', 'Fees Collected', 'Prizes Owed', 'Prizes Paid', 'Prizes Outstanding', 'Refunds', 'Net'],
+        ...ledgers.map(l => [
+            l.weekId, l.teamsPaid, l.feesCollected, l.prizesOwed, l.prizesPaid, l.prizesOutstanding, l.refunds, l.net,
+        ]),
+    ]);
+}
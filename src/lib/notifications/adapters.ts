@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PhoneChannel } from '@/lib/types';
+
+// --- WhatsApp and SMS Adapters ---
+
+export type OutgoingPhoneMessage = {
+    to: string; // E.164
+    body: string;
+};
+
+/**
+ * Hands a message to a WhatsApp or SMS provider. Throws `MessageDeliveryError` if
+ * it was not accepted.
+ */
+export interface MessageAdapter {
+    readonly name: string;
+    readonly channel: PhoneChannel;
+    send(message: OutgoingPhoneMessage): Promise<{ messageId?: string }>;
+}
+
+/**
+ * Thrown when a message could not be sent. Permanent errors, such as a number that
+ * can't receive messages, are not retried.
+ */
+export class MessageDeliveryError extends Error {
+    constructor(message: string, readonly permanent = false) {
+        super(message);
+        this.name = 'MessageDeliveryError';
+    }
+}
+
+// 4xx responses mean the request itself was refused, except when rate limited.
+function isPermanentStatus(status: number): boolean {
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+async function postToProvider(url: string, init: RequestInit): Promise<unknown> {
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, signal: AbortSignal.timeout(15_000) });
+    } catch (error) {
+        throw new MessageDeliveryError(error instanceof Error ? error.message : String(error));
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        const detail = body as { error?: { message?: string }; message?: string } | null;
+        throw new MessageDeliveryError(
+            `HTTP ${response.status}: ${detail?.error?.message ?? detail?.message ?? response.statusText}`,
+            isPermanentStatus(response.status)
+        );
+    }
+    return body;
+}
+
+/**
+ * Sends WhatsApp messages through the WhatsApp Business Cloud API.
+ */
+export function createWhatsAppCloudAdapter(options: { accessToken: string; phoneNumberId: string }): MessageAdapter {
+    return {
+        name: 'whatsapp-cloud',
+        channel: 'whatsapp',
+        async send({ to, body }) {
+            const result = await postToProvider(`https://graph.facebook.com/v20.0/${options.phoneNumberId}/messages`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${options.accessToken}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ messaging_product: 'whatsapp', to: to.replace(/^\+/, ''), type: 'text', text: { body } }),
+            }) as { messages?: { id: string }[] };
+            return { messageId: result.messages?.[0]?.id };
+        },
+    };
+}
+
+/**
+ * Sends SMS or WhatsApp messages through Twilio, from `from` (a number, or for
+ * WhatsApp a sender approved for the account).
+ */
+export function createTwilioAdapter(channel: PhoneChannel, options: { accountSid: string; authToken: string; from: string }): MessageAdapter {
+    const address = (number: string) => (channel === 'whatsapp' ? `whatsapp:${number}` : number);
+    return {
+        name: 'twilio',
+        channel,
+        async send({ to, body }) {
+            const auth = Buffer.from(`${options.accountSid}:${options.authToken}`).toString('base64');
+            const result = await postToProvider(`https://api.twilio.com/2010-04-01/Accounts/${options.accountSid}/Messages.json`, {
+                method: 'POST',
+                headers: { Authorization: `Basic ${auth}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams({ To: address(to), From: address(options.from), Body: body }),
+            }) as { sid?: string };
+            return { messageId: result.sid };
+        },
+    };
+}
+
+/**
+ * Writes each message to `dir` as JSON instead of sending it, for development and tests.
+ */
+export function createMockAdapter(channel: PhoneChannel, dir: string): MessageAdapter {
+    return {
+        name: 'mock',
+        channel,
+        async send(message) {
+            await fs.mkdir(dir, { recursive: true });
+            const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${channel}-${crypto.randomUUID().slice(0, 8)}`;
+            await fs.writeFile(path.join(dir, `${messageId}.json`), JSON.stringify({ channel, ...message }, null, 2));
+            return { messageId };
+        },
+    };
+}
+
+function twilioOptions(from: string | undefined) {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !from) return null;
+    return { accountSid: TWILIO_ACCOUNT_SID, authToken: TWILIO_AUTH_TOKEN, from };
+}
+
+/**
+ * Whether an adapter is chosen for the channel, so teams can be offered it.
+ */
+export function isChannelSetUp(channel: PhoneChannel): boolean {
+    return Boolean(channel === 'whatsapp' ? process.env.WHATSAPP_ADAPTER : process.env.SMS_ADAPTER);
+}
+
+/**
+ * The adapter set for a channel by `WHATSAPP_ADAPTER` (`cloud`, `twilio` or `mock`)
+ * or `SMS_ADAPTER` (`twilio` or `mock`), or null if the channel is not set up, in
+ * which case nothing is sent on it.
+ */
+export function getMessageAdapter(channel: PhoneChannel): MessageAdapter | null {
+    const env = process.env;
+    const kind = channel === 'whatsapp' ? env.WHATSAPP_ADAPTER : env.SMS_ADAPTER;
+    if (!kind) return null;
+    if (kind === 'mock') {
+        return createMockAdapter(channel, env.MESSAGE_MOCK_DIR ?? path.join(process.cwd(), 'src', 'data', 'sent-messages'));
+    }
+    if (kind === 'cloud' && channel === 'whatsapp') {
+        if (!env.WHATSAPP_ACCESS_TOKEN || !env.WHATSAPP_PHONE_NUMBER_ID) {
+            throw new MessageDeliveryError('WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID must be set.');
+        }
+        return createWhatsAppCloudAdapter({ accessToken: env.WHATSAPP_ACCESS_TOKEN, phoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID });
+    }
+    if (kind === 'twilio') {
+        const options = twilioOptions(channel === 'whatsapp' ? env.TWILIO_WHATSAPP_FROM : env.TWILIO_SMS_FROM);
+        if (!options) {
+            throw new MessageDeliveryError(`TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and ${channel === 'whatsapp' ? 'TWILIO_WHATSAPP_FROM' : 'TWILIO_SMS_FROM'} must be set.`);
+        }
+        return createTwilioAdapter(channel, options);
+    }
+    throw new MessageDeliveryError(`Unknown ${channel === 'whatsapp' ? 'WHATSAPP_ADAPTER' : 'SMS_ADAPTER'} "${kind}".`);
+}
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { attemptQueuedDelivery, deliverDueMessages, MAX_DELIVERY_ATTEMPTS, sendUnqueued, type DeliveryQueue } from '@/lib/delivery-queue';
+import type { EmailTemplateData } from '@/lib/email';
+import { getDataStore, type Repository } from '@/lib/repository';
+import type { NotificationEvent, PhoneChannel, PhoneMessage, PhoneMessageEvent } from '@/lib/types';
+import { getMessageAdapter, MessageDeliveryError } from './adapters';
+import { renderPhoneMessage } from './messages';
+
+// --- WhatsApp and SMS Deliveries ---
+
+/**
+ * Attempts before a message is given up on.
+ */
+export const MAX_MESSAGE_ATTEMPTS = MAX_DELIVERY_ATTEMPTS;
+
+/**
+ * A 10-digit Indian mobile number in E.164, with the country code from
+ * `PHONE_COUNTRY_CODE` (default 91). Numbers already starting with + are kept.
+ */
+export function toE164(phone: string): string {
+    const trimmed = phone.trim();
+    if (trimmed.startsWith('+')) return `+${trimmed.replace(/\D/g, '')}`;
+    return `+${process.env.PHONE_COUNTRY_CODE ?? '91'}${trimmed.replace(/\D/g, '')}`;
+}
+
+function renderMessage<K extends PhoneMessageEvent>(
+    channel: PhoneChannel,
+    event: K,
+    to: string,
+    data: EmailTemplateData[K],
+    now: Date
+): PhoneMessage {
+    return {
+        id: crypto.randomUUID(),
+        channel,
+        event,
+        to: toE164(to),
+        body: renderPhoneMessage(event, data),
+        status: 'pending',
+        attempts: 0,
+        createdAt: now.toISOString(),
+        nextAttemptAt: now.toISOString(),
+    };
+}
+
+/**
+ * Renders a message and adds it to the queue. Messages with one-time codes are
+ * sent with `sendPhoneMessageUnstored` instead. Must be called inside a transaction.
+ */
+export async function queuePhoneMessage<K extends NotificationEvent>(
+    repo: Repository,
+    channel: PhoneChannel,
+    event: K,
+    to: string,
+    data: EmailTemplateData[K],
+    now: Date = new Date()
+): Promise<PhoneMessage> {
+    const message = renderMessage(channel, event, to, data, now);
+    await repo.phoneMessages.add(message);
+    return message;
+}
+
+const phoneQueue: DeliveryQueue<PhoneMessage> = {
+    name: 'messages',
+    messages: repo => repo.phoneMessages,
+    async send(message) {
+        const adapter = getMessageAdapter(message.channel);
+        if (!adapter) throw new MessageDeliveryError(`No ${message.channel} adapter is set up.`, true);
+        const { messageId } = await adapter.send({ to: message.to, body: message.body });
+        return { adapter: adapter.name, providerMessageId: messageId };
+    },
+    isPermanent: error => error instanceof MessageDeliveryError && error.permanent,
+    describe: message => `${message.event} ${message.channel} message to ${message.to}`,
+};
+
+/**
+ * Makes one attempt at sending a message; see `attemptQueuedDelivery`.
+ */
+export function attemptPhoneDelivery(id: string, now: Date = new Date()): Promise<PhoneMessage | null> {
+    return attemptQueuedDelivery(phoneQueue, id, now);
+}
+
+/**
+ * Queues a message and makes the first attempt straight away. A failed attempt is
+ * retried by `deliverDuePhoneMessages`, so this only throws if the message could
+ * not be queued.
+ */
+export async function sendPhoneMessage<K extends NotificationEvent>(
+    channel: PhoneChannel,
+    event: K,
+    to: string,
+    data: EmailTemplateData[K]
+): Promise<PhoneMessage> {
+    const queued = await getDataStore().transaction(repo => queuePhoneMessage(repo, channel, event, to, data));
+    return (await attemptPhoneDelivery(queued.id)) ?? queued;
+}
+
+/**
+ * Sends a message with a one-time code once, without storing it. Not retried;
+ * returns whether the adapter took it, so the caller can ask the user to try again.
+ */
+export function sendPhoneMessageUnstored(
+    channel: PhoneChannel,
+    event: 'verification_code',
+    to: string,
+    data: EmailTemplateData['verification_code']
+): Promise<boolean> {
+    return sendUnqueued(phoneQueue, renderMessage(channel, event, to, data, new Date()));
+}
+
+/**
+ * Retries every message that is due, oldest first. Runs alongside `deliverDueEmails`.
+ */
+export function deliverDuePhoneMessages(now: Date = new Date(), limit = 100): Promise<{ sent: number; retrying: number; dead: number }> {
+    return deliverDueMessages(phoneQueue, now, limit);
+}
@@ -0,0 +1,21 @@
+export {
+    createMockAdapter,
+    createTwilioAdapter,
+    createWhatsAppCloudAdapter,
+    getMessageAdapter,
+    isChannelSetUp,
+    MessageDeliveryError,
+} from './adapters';
+export type { MessageAdapter, OutgoingPhoneMessage } from './adapters';
+export {
+    attemptPhoneDelivery,
+    deliverDuePhoneMessages,
+    MAX_MESSAGE_ATTEMPTS,
+    queuePhoneMessage,
+    sendPhoneMessage,
+    sendPhoneMessageUnstored,
+    toE164,
+} from './deliveries';
+export { renderPhoneMessage } from './messages';
+export { availableChannels, channelsFor, notificationChannelsSchema, notify, sendNotification } from './notify';
+export type { NotificationContact, NotificationDelivery } from './notify';
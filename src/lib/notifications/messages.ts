@@ -0,0 +1,48 @@
+import type { EmailTemplateData } from '@/lib/email';
+import { formatRupees, ordinal, prizeForRank } from '@/lib/tournaments';
+import type { PhoneMessageEvent } from '@/lib/types';
+
+// --- WhatsApp and SMS Messages ---
+
+const SENDER = 'The Founders Official';
+
+// Kept short, as SMS providers split and charge per 160 characters.
+const MESSAGES: { [K in PhoneMessageEvent]: (data: EmailTemplateData[K]) => string } = {
+    registration_confirmed({ team, tournament }) {
+        return `${SENDER}: ${team.teamName} is registered for ${tournament.name} (UTR ${team.utrNumber}). Good luck!`;
+    },
+
+    room_details({ room, stageName, tournament }) {
+        return `${SENDER}: ${tournament.name}, ${stageName}, Lobby ${room.lobby}. Room ID ${room.roomId}, password ${room.password}. Do not share these.`;
+    },
+
+    waitlist_invite({ entry, link, tournament }) {
+        const expiresAt = new Date(entry.invite!.expiresAt).toLocaleString('en-IN', {
+            timeZone: tournament.timezone,
+            timeZoneName: 'short',
+        });
+        return `${SENDER}: a slot in ${tournament.name} is held for ${entry.teamName} until ${expiresAt}. Register and pay ${formatRupees(tournament.entryFee)} here: ${link}`;
+    },
+
+    winner({ teamName, rank, points, tournament, claimUrl }) {
+        const prize = prizeForRank(tournament, rank);
+        const claim = prize === null
+            ? ''
+            : claimUrl
+                ? ` Claim your ${formatRupees(prize)} prize within 7 days: ${claimUrl}`
+                : ` We will contact you about your ${formatRupees(prize)} prize.`;
+        return `${SENDER}: congratulations, ${teamName}! ${ordinal(rank)} place in ${tournament.name} with ${points} points.${claim}`;
+    },
+
+    verification_code({ code, expiresInMinutes }) {
+        return `${code} is your ${SENDER} verification code. It expires in ${expiresInMinutes} minutes. Do not share it with anyone.`;
+    },
+};
+
+/**
+ * The text of a WhatsApp or SMS message. Control characters from team names and
+ * other form values are replaced with spaces.
+ */
+export function renderPhoneMessage<K extends PhoneMessageEvent>(event: K, data: EmailTemplateData[K]): string {
+    return MESSAGES[event](data).replace(/[\u0000-\u001f\u007f-\u009f]/g, ' ').replace(/ {2,}/g, ' ').trim();
+}
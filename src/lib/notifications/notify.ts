@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { sendEmail, type EmailTemplateData } from '@/lib/email';
+import type { NotificationChannel, NotificationEvent, OutboxStatus, PhoneChannel, TeamRegistrationData } from '@/lib/types';
+import { isChannelSetUp } from './adapters';
+import { sendPhoneMessage } from './deliveries';
+
+// --- Notifications ---
+
+const PHONE_CHANNELS: PhoneChannel[] = ['whatsapp', 'sms'];
+
+export const notificationChannelsSchema = z
+    .array(z.enum(['email', 'whatsapp', 'sms']))
+    .min(1, 'Choose at least one way to be notified.')
+    .transform(channels => [...new Set(channels)]);
+
+/**
+ * Who a notification goes to: a team, or a team on the waitlist.
+ */
+export type NotificationContact = Pick<TeamRegistrationData, 'contactEmail' | 'contactPhone' | 'notificationChannels'>;
+
+/**
+ * One message a notification sent, with where it stands.
+ */
+export type NotificationDelivery = {
+    channel: NotificationChannel;
+    id: string; // The outbox email or WhatsApp/SMS message
+    status: OutboxStatus;
+    error?: string;
+};
+
+/**
+ * The channels teams can choose from: email, and WhatsApp and SMS if set up.
+ */
+export function availableChannels(): NotificationChannel[] {
+    return ['email', ...PHONE_CHANNELS.filter(isChannelSetUp)];
+}
+
+/**
+ * The channels a contact is notified on: those they chose that are set up, or
+ * email if none of them are, so nobody misses a notification.
+ */
+export function channelsFor(contact: NotificationContact): NotificationChannel[] {
+    const chosen = (contact.notificationChannels?.length ? contact.notificationChannels : ['email' as const])
+        .filter(channel => channel === 'email' || isChannelSetUp(channel));
+    return chosen.length > 0 ? chosen : ['email'];
+}
+
+/**
+ * Sends a notification on one channel. Failed sends are retried by the outbox
+ * and the WhatsApp/SMS queue, so this only throws if the message could not be queued.
+ */
+export async function sendNotification<K extends NotificationEvent>(
+    channel: NotificationChannel,
+    event: K,
+    contact: NotificationContact,
+    data: EmailTemplateData[K]
+): Promise<NotificationDelivery> {
+    const message = channel === 'email'
+        ? await sendEmail(event, contact.contactEmail, data)
+        : await sendPhoneMessage(channel, event, contact.contactPhone, data);
+    return { channel, id: message.id, status: message.status, ...(message.lastError && { error: message.lastError }) };
+}
+
+/**
+ * Sends a notification on every channel in `channelsFor`.
+ */
+export async function notify<K extends NotificationEvent>(
+    event: K,
+    contact: NotificationContact,
+    data: EmailTemplateData[K]
+): Promise<NotificationDelivery[]> {
+    return Promise.all(channelsFor(contact).map(channel => sendNotification(channel, event, contact, data)));
+}
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import type { TournamentScope } from '@/lib/repository';
+import type { PaymentIntent } from '@/lib/types';
+
+// --- Payment Intents ---
+
+const REFERENCE_PREFIX = 'TF';
+// No 0/O or 1/I, so a reference read off a screenshot can't be misread.
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const REFERENCE_LENGTH = 10;
+
+export const PAYMENT_REFERENCE_PATTERN = new RegExp(`^${REFERENCE_PREFIX}[${REFERENCE_ALPHABET}]{${REFERENCE_LENGTH}}$`);
+
+export type UpiPayee = { upiId: string; name: string };
+
+/**
+ * Where entry fees are paid, from `UPI_PAYEE_ID` and `UPI_PAYEE_NAME`, or null if not configured.
+ */
+export function getUpiPayee(): UpiPayee | null {
+    const { UPI_PAYEE_ID, UPI_PAYEE_NAME } = process.env;
+    if (!UPI_PAYEE_ID || !UPI_PAYEE_NAME) return null;
+    return { upiId: UPI_PAYEE_ID, name: UPI_PAYEE_NAME };
+}
+
+function generateReference(): string {
+    // The alphabet has 32 letters, so masking each byte keeps every letter equally likely.
+    const letters = [...crypto.randomBytes(REFERENCE_LENGTH)].map(byte => REFERENCE_ALPHABET[byte & 31]);
+    return REFERENCE_PREFIX + letters.join('');
+}
+
+/**
+ * Hands out a new payment reference for the week. Must be called inside a transaction.
+ */
+export async function issuePaymentIntent(
+    scope: TournamentScope,
+    params: { registrationWeekStart: string; amount: number; now: Date }
+): Promise<PaymentIntent> {
+    let reference = generateReference();
+    while (await scope.paymentIntents.get(reference)) {
+        reference = generateReference();
+    }
+    const intent: PaymentIntent = {
+        reference,
+        registrationWeekStart: params.registrationWeekStart,
+        amount: params.amount,
+        createdAt: params.now.toISOString(),
+    };
+    await scope.paymentIntents.add(intent);
+    return intent;
+}
+
+/**
+ * The `upi://pay` link for an intent. The reference goes in both the note (`tn`),
+ * which payment apps show on the receipt, and the transaction reference (`tr`).
+ * Parameters are percent-encoded by hand, as some apps read `+` literally and
+ * expect the `@` of a UPI ID as is.
+ */
+export function buildUpiLink(payee: UpiPayee, intent: PaymentIntent): string {
+    const params: [string, string][] = [
+        ['pa', payee.upiId],
+        ['pn', payee.name],
+        ['am', intent.amount.toFixed(2)],
+        ['cu', 'INR'],
+        ['tn', intent.reference],
+        ['tr', intent.reference],
+    ];
+    return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`).join('&')}`;
+}
+
+/**
+ * Renders a link as a QR code, as an SVG data URL to use as an image source.
+ */
+export async function renderQrCode(link: string): Promise<string> {
+    const svg = await QRCode.toString(link, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
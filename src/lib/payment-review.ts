@@ -0,0 +1,69 @@
+import { applyStatusChange } from '@/lib/registrations';
+import type { TournamentScope } from '@/lib/repository';
+import { getWeekId } from '@/lib/time';
+import type { TeamRegistrationData, Tournament } from '@/lib/types';
+import { findRegistration, listAllWeeks } from '@/lib/weeks';
+
+// --- Manual Payment Review ---
+
+export type PendingReview = {
+    weekId: string;
+    registrationWeekStart: string;
+    team: TeamRegistrationData;
+};
+
+/**
+ * Registrations waiting for an admin to check the payment, oldest first.
+ * Must be called inside a transaction.
+ */
+export async function listPendingReviews(scope: TournamentScope, tournament: Tournament): Promise<PendingReview[]> {
+    const pending = (await listAllWeeks(scope)).flatMap(week =>
+        week.teams
+            .filter(team => team.status === 'pending_review')
+            .map(team => ({
+                weekId: getWeekId(week.registrationWeekStart, tournament.timezone),
+                registrationWeekStart: week.registrationWeekStart,
+                team,
+            }))
+    );
+    return pending.sort((a, b) => a.team.registrationTime.localeCompare(b.team.registrationTime));
+}
+
+/**
+ * Approves or rejects a payment under review. Rejecting gives the slot back.
+ * Must be called inside a transaction.
+ */
+export async function decidePaymentReview(
+    scope: TournamentScope,
+    params: { teamId: string; approve: boolean; decidedBy: string; note?: string; now: Date }
+): Promise<{ team: TeamRegistrationData; error?: undefined } | { error: string }> {
+    const { teamId, approve, decidedBy, note, now } = params;
+    const found = await findRegistration(scope, teamId);
+    if (!found) {
+        return { error: 'Registration not found.' };
+    }
+    const { registrationWeekStart, team } = found;
+    if (team.status !== 'pending_review' || !team.review) {
+        return { error: `This registration is not awaiting review (it is ${team.status}).` };
+    }
+
+    const changed = applyStatusChange(team, {
+        to: approve ? 'confirmed' : 'rejected',
+        at: now.toISOString(),
+        by: decidedBy,
+        reason: note?.trim() || (approve ? 'Payment approved on review.' : 'Payment rejected on review.'),
+    });
+    if (changed.error !== undefined) return changed;
+
+    const decided: TeamRegistrationData = {
+        ...changed.team,
+        review: {
+            ...team.review,
+            decidedBy,
+            decidedAt: now.toISOString(),
+            ...(note?.trim() && { note: note.trim() }),
+        },
+    };
+    await scope.teams.update(registrationWeekStart, decided);
+    return { team: decided };
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { judgePayment, type PaymentCheck } from '@/lib/payment-verification';
+
+// Week starting Monday 6 May 2024, 00:00 IST.
+const EXPECTED = { amount: 50, reference: 'TF7K3M9Q2XPA', registrationWeekStart: '2024-05-05T18:30:00.000Z', timeZone: 'Asia/Kolkata' };
+
+function aiCheck(overrides: Partial<PaymentCheck> = {}): PaymentCheck {
+    return {
+        engine: 'ai',
+        conclusive: true,
+        isUtrMatch: true,
+        isReferenceMatch: true,
+        utr: '412345678901',
+        amountPaid: 50,
+        payee: null,
+        transactionDate: '2024-05-06 21:15',
+        confidence: null,
+        reason: 'UTR, reference and amount found.',
+        latencyMs: 1200,
+        ...overrides,
+    };
+}
+
+describe('judgePayment', () => {
+    test('verifies a matching payment', () => {
+        assert.equal(judgePayment(aiCheck(), EXPECTED).outcome, 'verified');
+    });
+
+    test('sends a payment whose amount could not be read to review', () => {
+        const judgement = judgePayment(aiCheck({ amountPaid: null }), EXPECTED);
+        assert.equal(judgement.outcome, 'inconclusive');
+        assert.match(judgement.reason, /could not read the amount paid/);
+    });
+
+    test('rejects a payment of another amount', () => {
+        const judgement = judgePayment(aiCheck({ amountPaid: 5 }), EXPECTED);
+        assert.equal(judgement.outcome, 'mismatch');
+        assert.match(judgement.reason, /entry fee/);
+    });
+
+    test('sends a payment without the reference to review', () => {
+        assert.equal(judgePayment(aiCheck({ isReferenceMatch: false }), EXPECTED).outcome, 'inconclusive');
+    });
+
+    test('rejects a payment from before the week', () => {
+        assert.equal(judgePayment(aiCheck({ transactionDate: '2024-05-05 23:59' }), EXPECTED).outcome, 'mismatch');
+    });
+});
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { parseDateInZone } from '@/lib/time';
+import { formatRupees } from '@/lib/tournaments';
+import type { PaymentVerification, TeamRegistrationData, VerificationEngine, VerificationOutcome } from '@/lib/types';
+
+// --- Payment Verification Records ---
+
+export const ENGINE_NAMES: Record<VerificationEngine, string> = { ai: 'AI', ocr: 'OCR' };
+
+/**
+ * What the AI flow (`verifyUtrFromScreenshot` in `@/ai/flows/verify-payment-flow`)
+ * is given. Its prompt asks it to look for the UTR and the payment reference and to
+ * read the amount and date paid.
+ */
+export type AiPaymentCheckInput = {
+    screenshotDataUri: string;
+    utr: string;
+    paymentReference: string;
+    expectedAmount: number;
+};
+
+/**
+ * What the AI flow must return. Its output is checked against this, so an answer
+ * without the reference check sends the registration to review instead of being
+ * read as a match. An amount it could not read (null) is left to `judgePayment`,
+ * which sends the registration to review too.
+ */
+export const aiPaymentCheckOutputSchema = z.object({
+    isUtrMatch: z.boolean(),
+    isReferenceMatch: z.boolean(),
+    amountPaid: z.number().nonnegative().nullish(),
+    transactionDate: z.string().nullish(), // As shown on the screenshot, e.g. `2024-05-06 21:15`
+    reason: z.string(),
+});
+
+export type AiPaymentCheckOutput = z.infer<typeof aiPaymentCheckOutputSchema>;
+
+/**
+ * What one engine read off a payment screenshot, before it is judged against the
+ * registration.
+ */
+export type PaymentCheck = {
+    engine: VerificationEngine;
+    model?: string;
+    conclusive: boolean; // False if the engine couldn't settle the payment either way
+    isUtrMatch: boolean;
+    isReferenceMatch: boolean;
+    utr: string | null;
+    amountPaid: number | null;
+    payee: string | null;
+    transactionDate: string | null;
+    confidence: number | null;
+    reason: string;
+    latencyMs: number;
+};
+
+/**
+ * Decides what a check means for a registration. A mismatch's reason is shown to
+ * the team; an inconclusive check's reason is shown to reviewers.
+ */
+export function judgePayment(
+    check: PaymentCheck,
+    expected: { amount: number; reference?: string; registrationWeekStart: string; timeZone: string }
+): { outcome: VerificationOutcome; reason: string } {
+    const engineName = ENGINE_NAMES[check.engine];
+    if (!check.conclusive) {
+        return { outcome: 'inconclusive', reason: check.reason };
+    }
+    if (!check.isUtrMatch) {
+        return { outcome: 'mismatch', reason: check.reason };
+    }
+    if (check.amountPaid == null) {
+        return { outcome: 'inconclusive', reason: `${engineName} could not read the amount paid. ${check.reason}`.trim() };
+    }
+    if (check.amountPaid !== expected.amount) {
+        return {
+            outcome: 'mismatch',
+            reason: `The screenshot shows a payment of ${formatRupees(check.amountPaid)}, but the entry fee is ${formatRupees(expected.amount)}.`,
+        };
+    }
+    // Some apps cut the note short on the receipt, so a missing reference is checked by hand.
+    // Registrations from before payment references have none to look for.
+    if (expected.reference && !check.isReferenceMatch) {
+        return {
+            outcome: 'inconclusive',
+            reason: `${engineName} could not find the payment reference ${expected.reference} on the screenshot. ${check.reason}`.trim(),
+        };
+    }
+    if (!check.transactionDate) {
+        return { outcome: 'inconclusive', reason: `${engineName} could not determine the transaction date. ${check.reason}`.trim() };
+    }
+    // Dates read off the screenshot carry no offset; they are local to the tournament.
+    if (parseDateInZone(check.transactionDate, expected.timeZone) < new Date(expected.registrationWeekStart)) {
+        return {
+            outcome: 'mismatch',
+            reason: "This payment screenshot is from a previous week. Please use a new payment for this week's registration.",
+        };
+    }
+    return { outcome: 'verified', reason: `Payment verified by ${engineName}.` };
+}
+
+/**
+ * The record of a check to keep with the registration.
+ */
+export function toVerificationRecord(
+    check: PaymentCheck,
+    judgement: { outcome: VerificationOutcome; reason: string },
+    params: { checkedAt: string; requestedBy?: string }
+): PaymentVerification {
+    return {
+        engine: check.engine,
+        ...(check.model && { model: check.model }),
+        outcome: judgement.outcome,
+        reason: judgement.reason,
+        utr: check.utr,
+        amount: check.amountPaid,
+        payee: check.payee,
+        transactionDate: check.transactionDate,
+        referenceFound: check.isReferenceMatch,
+        confidence: check.confidence,
+        latencyMs: check.latencyMs,
+        checkedAt: params.checkedAt,
+        ...(params.requestedBy && { requestedBy: params.requestedBy }),
+    };
+}
+
+export function latestVerification(team: TeamRegistrationData): PaymentVerification | null {
+    const verifications = team.verifications ?? [];
+    return verifications[verifications.length - 1] ?? null;
+}
@@ -0,0 +1,126 @@
+import type { Repository } from '@/lib/repository';
+import type { Player, PlayerRecord, TeamRegistrationData } from '@/lib/types';
+import { listTournaments } from '@/lib/tournaments';
+import { listAllWeeks } from '@/lib/weeks';
+
+// --- Player Registry ---
+
+/**
+ * In-game IDs are compared trimmed and case-insensitively.
+ */
+export function normalisePlayerId(id: string): string {
+    return id.trim().toLowerCase();
+}
+
+/**
+ * Returns an in-game ID that appears more than once in the team, or null.
+ */
+export function findRepeatedPlayer(players: Player[]): string | null {
+    const seen = new Set<string>();
+    for (const player of players) {
+        const id = normalisePlayerId(player.id);
+        if (seen.has(id)) return player.id.trim();
+        seen.add(id);
+    }
+    return null;
+}
+
+/**
+ * Returns an error message if any of the players is banned.
+ * Must be called inside a transaction.
+ */
+export async function checkPlayersAllowed(repo: Repository, players: Player[]): Promise<string | null> {
+    const records = await repo.players.getMany(players.map(p => normalisePlayerId(p.id)));
+    const banned = records.find(record => record.ban);
+    return banned ? `Player ${banned.displayId} is banned from The Founders tournaments.` : null;
+}
+
+/**
+ * Adds a registration to the history of each of its players, creating records
+ * for players seen for the first time. Recording the same registration again
+ * changes nothing. Must be called inside a transaction.
+ */
+export async function recordPlayerAppearances(
+    repo: Repository,
+    params: { tournamentId: string; registrationWeekStart: string; team: TeamRegistrationData }
+) {
+    const { tournamentId, registrationWeekStart, team } = params;
+    for (const player of team.players) {
+        const id = normalisePlayerId(player.id);
+        const existing = await repo.players.get(id);
+        if (existing?.appearances.some(a => a.teamId === team.id && a.tournamentId === tournamentId)) {
+            continue;
+        }
+        const seenAt = team.registrationTime;
+        const record: PlayerRecord = existing ?? {
+            id,
+            displayId: player.id,
+            lastLevel: player.level,
+            firstSeen: null,
+            lastSeen: null,
+            appearances: [],
+        };
+        const isLatest = !record.lastSeen || seenAt >= record.lastSeen;
+        await repo.players.save({
+            ...record,
+            displayId: isLatest ? player.id : record.displayId,
+            lastLevel: isLatest ? player.level : record.lastLevel,
+            firstSeen: !record.firstSeen || seenAt < record.firstSeen ? seenAt : record.firstSeen,
+            lastSeen: isLatest ? seenAt : record.lastSeen,
+            appearances: [
+                ...record.appearances,
+                { tournamentId, registrationWeekStart, teamId: team.id, teamName: team.teamName, registeredAt: seenAt },
+            ].sort((a, b) => a.registeredAt.localeCompare(b.registeredAt)),
+        });
+    }
+}
+
+/**
+ * Bans or unbans a player. A player can be banned before they ever register.
+ * Must be called inside a transaction.
+ */
+export async function setPlayerBan(
+    repo: Repository,
+    playerId: string,
+    ban: PlayerRecord['ban'] | null
+): Promise<PlayerRecord> {
+    const id = normalisePlayerId(playerId);
+    const record: PlayerRecord = (await repo.players.get(id)) ?? {
+        id,
+        displayId: playerId.trim(),
+        lastLevel: 0,
+        firstSeen: null,
+        lastSeen: null,
+        appearances: [],
+    };
+    const updated: PlayerRecord = { ...record };
+    if (ban) {
+        updated.ban = ban;
+    } else {
+        delete updated.ban;
+    }
+    await repo.players.save(updated);
+    return updated;
+}
+
+/**
+ * Records every registration on file, in every tournament and week, in the player
+ * registry. Used to fill the registry from data stored before it existed; safe to
+ * run again. Must be called inside a transaction.
+ */
+export async function rebuildPlayerRegistry(repo: Repository): Promise<number> {
+    let registrations = 0;
+    for (const tournament of await listTournaments(repo)) {
+        for (const week of await listAllWeeks(repo.forTournament(tournament.id))) {
+            for (const team of week.teams) {
+                await recordPlayerAppearances(repo, {
+                    tournamentId: tournament.id,
+                    registrationWeekStart: week.registrationWeekStart,
+                    team,
+                });
+                registrations++;
+            }
+        }
+    }
+    return registrations;
+}
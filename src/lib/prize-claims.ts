@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { prizeOwed } from '@/lib/ledger';
+import { getWeekId } from '@/lib/time';
+import { ordinal } from '@/lib/tournaments';
+import type { Payout, PrizeClaim, PrizeClaimStatus, PrizePayoutItem, Tournament, WeeklyWinner, WinnerInfo } from '@/lib/types';
+
+// --- Prize Claim Links ---
+
+/**
+ * How long a winner has to give their payout details before the link must be sent again.
+ */
+export const CLAIM_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ClaimPayload = {
+    tournamentId: string;
+    registrationWeekStart: string;
+    rank: number;
+    nonce: string;
+    expiresAt: number; // Epoch milliseconds
+};
+
+export const prizeClaimSchema = z.object({
+    upiId: z.string().trim()
+        .regex(/^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/, 'Enter a valid UPI ID, e.g. name@okhdfcbank.'),
+    accountHolder: z.string().trim()
+        .min(2, 'Enter the account holder name as shown in your UPI app.')
+        .max(100, 'Account holder name is too long.')
+        .regex(/^[\p{L} .'-]+$/u, 'Account holder name can only contain letters, spaces, dots, hyphens and apostrophes.'),
+});
+
+function getClaimSecret(): string {
+    const secret = process.env.CLAIM_LINK_SECRET;
+    if (!secret || secret.length < 32) {
+        throw new Error('CLAIM_LINK_SECRET must be set to at least 32 characters.');
+    }
+    return secret;
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getClaimSecret()).update(data).digest('base64url');
+}
+
+function hashNonce(nonce: string): string {
+    return crypto.createHash('sha256').update(nonce).digest('hex');
+}
+
+/**
+ * Issues a signed claim link token for a winning rank, and the claim to store
+ * with the winner. Only the hash of the token's nonce is kept, so the stored
+ * record can't be turned back into a working link.
+ */
+export function createClaimToken(
+    params: { tournamentId: string; registrationWeekStart: string; rank: number },
+    now: Date = new Date()
+): { token: string; claim: PrizeClaim } {
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const expiresAt = now.getTime() + CLAIM_LINK_TTL_MS;
+    const payload: ClaimPayload = { ...params, nonce, expiresAt };
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return {
+        token: `${data}.${sign(data)}`,
+        claim: {
+            nonceHash: hashNonce(nonce),
+            issuedAt: now.toISOString(),
+            expiresAt: new Date(expiresAt).toISOString(),
+        },
+    };
+}
+
+/**
+ * Returns the token's payload if its signature is valid and it has not expired.
+ */
+export function readClaimToken(token: string, now: Date = new Date()): ClaimPayload | null {
+    const [data, signature] = token.split('.');
+    if (!data || !signature) return null;
+
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return null;
+    }
+    try {
+        const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8')) as ClaimPayload;
+        return payload.expiresAt > now.getTime() ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
+export function claimStatus(claim: PrizeClaim | undefined, now: Date = new Date()): PrizeClaimStatus {
+    if (!claim) return 'not_sent';
+    if (claim.claimedAt) return 'claimed';
+    return new Date(claim.expiresAt) > now ? 'pending' : 'expired';
+}
+
+/**
+ * The winner a token was issued for, if the token is still that winner's latest link.
+ */
+export function findWinnerForClaim(records: WeeklyWinner[], payload: ClaimPayload): WinnerInfo | null {
+    const record = records.find(w => w.weekStart === payload.registrationWeekStart);
+    const winner = record?.winners.find(w => w.rank === ordinal(payload.rank));
+    if (!winner?.claim || winner.claim.nonceHash !== hashNonce(payload.nonce)) return null;
+    return winner;
+}
+
+/**
+ * Every settled prize worth paying, most recent week first, with the winner's
+ * payout details and the payment made, if any.
+ */
+export function listPrizePayouts(
+    tournament: Tournament,
+    records: WeeklyWinner[],
+    payouts: Payout[],
+    now: Date = new Date()
+): PrizePayoutItem[] {
+    return [...records]
+        .sort((a, b) => b.weekStart.localeCompare(a.weekStart))
+        .flatMap(record => record.winners.map(winner => {
+            const rank = parseInt(winner.rank, 10);
+            return {
+                weekId: getWeekId(record.weekStart, tournament.timezone),
+                registrationWeekStart: record.weekStart,
+                rank,
+                teamId: winner.teamId,
+                teamName: winner.teamName,
+                prize: prizeOwed(tournament, winner),
+                claimStatus: claimStatus(winner.claim, now),
+                upiId: winner.claim?.upiId,
+                accountHolder: winner.claim?.accountHolder,
+                claimedAt: winner.claim?.claimedAt,
+                payout: payouts.find(p => p.kind === 'prize' && p.registrationWeekStart === record.weekStart && p.rank === rank),
+            };
+        }))
+        .filter(item => item.prize > 0);
+}
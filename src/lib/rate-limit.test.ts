@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date('2024-05-08T06:30:00Z');
+
+function later(ms: number): Date {
+    return new Date(NOW.getTime() + ms);
+}
+
+describe('persistent rate limits', () => {
+    let dir: string;
+    let rateLimit: typeof import('./rate-limit');
+    let repository: typeof import('@/lib/repository');
+    const originalEnv = { ...process.env };
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-rate-limit-'));
+        Object.assign(process.env, { DATA_STORE: 'sqlite', SQLITE_DB_PATH: path.join(dir, 'test.db') });
+        rateLimit = await import('./rate-limit');
+        repository = await import('@/lib/repository');
+    });
+
+    after(async () => {
+        await repository.getDataStore().close();
+        process.env = originalEnv;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function keys(): Promise<string[]> {
+        const buckets = await repository.getDataStore().transaction(repo => repo.rateLimits.list());
+        return buckets.map(b => b.key).sort();
+    }
+
+    test('stops counting at the limit', async () => {
+        const backend = rateLimit.createPersistentRateLimitBackend();
+        assert.equal(await backend.consume('limited', 2, 10 * MINUTE, NOW), true);
+        assert.equal(await backend.consume('limited', 2, 10 * MINUTE, later(MINUTE)), true);
+        assert.equal(await backend.consume('limited', 2, 10 * MINUTE, later(2 * MINUTE)), false);
+        assert.equal(await backend.count('limited', 10 * MINUTE, later(2 * MINUTE)), 2);
+    });
+
+    test('deletes buckets once their last hit leaves the window', async () => {
+        const backend = rateLimit.createPersistentRateLimitBackend();
+        await backend.hit('short', 5 * MINUTE, NOW);
+        await backend.hit('long', 60 * MINUTE, NOW);
+        assert.deepEqual(await keys(), ['limited', 'long', 'short']);
+
+        await backend.hit('other', 5 * MINUTE, later(30 * MINUTE));
+        assert.deepEqual(await keys(), ['long', 'other']);
+    });
+
+    test('keeps a bucket for the longest window it is counted in', async () => {
+        const backend = rateLimit.createPersistentRateLimitBackend();
+        await backend.hit('mixed', 60 * MINUTE, later(30 * MINUTE));
+        assert.equal(await backend.consume('mixed', 5, 5 * MINUTE, later(31 * MINUTE)), true);
+
+        await backend.hit('other', 5 * MINUTE, later(45 * MINUTE));
+        assert.ok((await keys()).includes('mixed'));
+    });
+});
+
+describe('memory rate limits', () => {
+    test('forgets hits outside the window', async () => {
+        const { createMemoryRateLimitBackend } = await import('./rate-limit');
+        const backend = createMemoryRateLimitBackend();
+        assert.equal(await backend.consume('key', 1, 5 * MINUTE, NOW), true);
+        assert.equal(await backend.consume('key', 1, 5 * MINUTE, later(MINUTE)), false);
+        assert.equal(await backend.consume('key', 1, 5 * MINUTE, later(6 * MINUTE)), true);
+    });
+});
@@ -0,0 +1,173 @@
+import { getDataStore, type Repository } from '@/lib/repository';
+import type { RateLimitBucket } from '@/lib/types';
+
+// --- Rate Limits ---
+
+/**
+ * At most `limit` hits per subject in any `windowMs`.
+ */
+export type RateLimit = {
+    name: string; // Keys the hits, with the subject
+    limit: number;
+    windowMs: number;
+};
+
+export type RateLimitCheck = { limit: RateLimit; subject: string };
+
+/**
+ * Where hits are counted. Each hit is kept for `keepMs`, the longest window it
+ * is counted in.
+ */
+export interface RateLimitBackend {
+    count(key: string, windowMs: number, now: Date): Promise<number>;
+    hit(key: string, keepMs: number, now: Date): Promise<void>;
+    /**
+     * Counts a hit unless `limit` hits have already been counted in `windowMs`,
+     * checking and counting in one step so concurrent requests can't both slip
+     * under the limit. Returns whether the hit was counted.
+     */
+    consume(key: string, limit: number, windowMs: number, now: Date): Promise<boolean>;
+}
+
+/**
+ * Counts hits in this process only. Fast, but limits reset on restart and are
+ * not shared between servers.
+ */
+export function createMemoryRateLimitBackend(): RateLimitBackend {
+    const buckets = new Map<string, { hits: number[]; expiresAt: number }>();
+
+    // Keeps the hits still in the window and adds one, dropping keys that have expired.
+    function record(key: string, kept: number[], keepMs: number, now: Date) {
+        for (const [other, bucket] of buckets) {
+            if (bucket.expiresAt <= now.getTime()) buckets.delete(other);
+        }
+        const expiresAt = Math.max(buckets.get(key)?.expiresAt ?? 0, now.getTime() + keepMs);
+        buckets.set(key, { hits: [...kept, now.getTime()], expiresAt });
+    }
+
+    function hitsWithin(key: string, windowMs: number, now: Date): number[] {
+        return (buckets.get(key)?.hits ?? []).filter(at => at > now.getTime() - windowMs);
+    }
+
+    return {
+        async count(key, windowMs, now) {
+            return hitsWithin(key, windowMs, now).length;
+        },
+        async hit(key, keepMs, now) {
+            record(key, hitsWithin(key, keepMs, now), keepMs, now);
+        },
+        async consume(key, limit, windowMs, now) {
+            const kept = hitsWithin(key, windowMs, now);
+            if (kept.length >= limit) return false;
+            record(key, kept, windowMs, now);
+            return true;
+        },
+    };
+}
+
+/**
+ * Counts hits in the data store, so limits hold across restarts and servers.
+ * Expired buckets are deleted whenever a hit is counted.
+ */
+export function createPersistentRateLimitBackend(): RateLimitBackend {
+    function hitsWithin(bucket: RateLimitBucket | null, windowMs: number, now: Date): string[] {
+        return (bucket?.hits ?? []).filter(at => new Date(at).getTime() > now.getTime() - windowMs);
+    }
+
+    // Keeps the hits still in the window and adds one, deleting buckets that have expired.
+    async function record(repo: Repository, key: string, bucket: RateLimitBucket | null, kept: string[], keepMs: number, now: Date) {
+        await repo.rateLimits.removeExpired(now.toISOString());
+        const expiresAt = new Date(now.getTime() + keepMs).toISOString();
+        await repo.rateLimits.save({
+            key,
+            hits: [...kept, now.toISOString()],
+            expiresAt: bucket?.expiresAt && bucket.expiresAt > expiresAt ? bucket.expiresAt : expiresAt,
+        });
+    }
+
+    return {
+        async count(key, windowMs, now) {
+            const bucket = await getDataStore().transaction(repo => repo.rateLimits.get(key));
+            return hitsWithin(bucket, windowMs, now).length;
+        },
+        async hit(key, keepMs, now) {
+            await getDataStore().transaction(async repo => {
+                const bucket = await repo.rateLimits.get(key);
+                await record(repo, key, bucket, hitsWithin(bucket, keepMs, now), keepMs, now);
+            });
+        },
+        async consume(key, limit, windowMs, now) {
+            return getDataStore().transaction(async repo => {
+                const bucket = await repo.rateLimits.get(key);
+                const kept = hitsWithin(bucket, windowMs, now);
+                if (kept.length >= limit) return false;
+                await record(repo, key, bucket, kept, windowMs, now);
+                return true;
+            });
+        },
+    };
+}
+
+// Cached on globalThis so that dev-server hot reloads keep the in-memory counts.
+const globalForRateLimits = globalThis as unknown as { rateLimitBackend?: RateLimitBackend };
+
+/**
+ * The backend set by `RATE_LIMIT_STORE`: `persistent` (the default) or `memory`.
+ */
+export function getRateLimitBackend(): RateLimitBackend {
+    if (!globalForRateLimits.rateLimitBackend) {
+        const kind = process.env.RATE_LIMIT_STORE ?? 'persistent';
+        if (kind === 'persistent') {
+            globalForRateLimits.rateLimitBackend = createPersistentRateLimitBackend();
+        } else if (kind === 'memory') {
+            globalForRateLimits.rateLimitBackend = createMemoryRateLimitBackend();
+        } else {
+            throw new Error(`Unknown RATE_LIMIT_STORE "${kind}". Expected "persistent" or "memory".`);
+        }
+    }
+    return globalForRateLimits.rateLimitBackend;
+}
+
+function keyOf({ limit, subject }: RateLimitCheck): string {
+    return `${limit.name}:${subject}`;
+}
+
+/**
+ * The first check whose subject has already reached its limit, or null.
+ */
+export async function findExceededLimit(
+    backend: RateLimitBackend,
+    checks: RateLimitCheck[],
+    now: Date
+): Promise<RateLimitCheck | null> {
+    for (const check of checks) {
+        if (await backend.count(keyOf(check), check.limit.windowMs, now) >= check.limit.limit) return check;
+    }
+    return null;
+}
+
+/**
+ * Counts a hit against each check in turn, stopping at the first whose subject
+ * has already reached its limit and returning it; null if every hit was counted.
+ * Hits counted before that check stand, so a refused request still counts
+ * against the limits checked ahead of it.
+ */
+export async function consumeLimits(
+    backend: RateLimitBackend,
+    checks: RateLimitCheck[],
+    now: Date
+): Promise<RateLimitCheck | null> {
+    for (const check of checks) {
+        if (!await backend.consume(keyOf(check), check.limit.limit, check.limit.windowMs, now)) return check;
+    }
+    return null;
+}
+
+/**
+ * Counts a hit against every check.
+ */
+export async function recordHits(backend: RateLimitBackend, checks: RateLimitCheck[], now: Date): Promise<void> {
+    for (const check of checks) {
+        await backend.hit(keyOf(check), check.limit.windowMs, now);
+    }
+}
@@ -0,0 +1,168 @@
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker } from 'tesseract.js';
+import { formatRupees } from '@/lib/tournaments';
+
+// --- Local Receipt OCR ---
+
+/**
+ * Recorded as the model of OCR checks.
+ */
+export const OCR_MODEL = 'Tesseract (eng)';
+
+export type ReceiptApp = 'gpay' | 'phonepe' | 'paytm' | 'unknown';
+
+/**
+ * What could be read off a UPI payment receipt. `transactionDate` is wall-clock
+ * `YYYY-MM-DD HH:mm`, like the AI check's.
+ */
+export type ReceiptFields = {
+    app: ReceiptApp;
+    utr: string | null;
+    amount: number | null;
+    transactionDate: string | null;
+    payee: string | null;
+};
+
+/**
+ * The outcome of checking a receipt with OCR alone. OCR misreads digits, so it
+ * only settles a payment when it read everything and it all matched; anything
+ * else is `conclusive: false` and needs the AI or an admin.
+ */
+export type ReceiptCheck = {
+    conclusive: boolean;
+    isUtrMatch: boolean;
+    isReferenceMatch: boolean;
+    amountPaid: number | null;
+    transactionDate: string | null;
+    reason: string;
+    fields: ReceiptFields;
+    confidence: number; // Tesseract's mean word confidence, 0-100
+};
+
+const APP_NAMES: Record<ReceiptApp, string> = { gpay: 'Google Pay', phonepe: 'PhonePe', paytm: 'Paytm', unknown: 'UPI' };
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Labels the apps put before the UTR: "UPI transaction ID" (GPay), "UTR" (PhonePe),
+// "UPI Ref No" (Paytm), and the generic "Ref No". Digits may be split by spaces or a line break.
+const UTR_LABELLED = /(?:UPI\s*transaction\s*ID|UTR(?:\s*No\.?)?|UPI\s*Ref(?:erence)?\.?\s*(?:No|ID)\.?|Ref(?:erence)?\.?\s*No\.?)\s*[:.#-]?\s*((?:\d\s?){12})(?!\d)/i;
+const UTR_ANYWHERE = /(?<!\d)\d{12}(?!\d)/;
+const AMOUNT_WITH_CURRENCY = /(?:₹|Rs\.?|INR)\s*(\d{1,3}(?:,\d{2,3})*(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)/i;
+// GPay shows the amount large on a line of its own, where OCR often misses the ₹.
+const AMOUNT_ON_OWN_LINE = /^\s*\S?\s*(\d{1,3}(?:,\d{2,3})*(?:\.\d{2})?)\s*$/m;
+const DATE = /(\d{1,2})\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*,?\s+(\d{4})/i;
+const TIME = /(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?/i;
+const PAYEE = /^(?:Paid\s+to|To)\b:?[ \t]*(.*)$/im;
+
+/**
+ * The trained data Tesseract reads, bundled with `@tesseract.js-data/eng` so OCR
+ * works without network access. `TESSERACT_LANG_PATH` points elsewhere.
+ */
+function langPath(): string {
+    return process.env.TESSERACT_LANG_PATH
+        ?? path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0');
+}
+
+/**
+ * Runs Tesseract over the image, enlarged and in high-contrast greyscale, which
+ * suits the small text on phone receipts.
+ */
+export async function recogniseText(image: Buffer): Promise<{ text: string; confidence: number }> {
+    const prepared = await sharp(image).greyscale().normalise().resize({ width: 1400 }).png().toBuffer();
+    const worker = await createWorker('eng', 1, { langPath: langPath(), gzip: true, cacheMethod: 'none' });
+    try {
+        const { data } = await worker.recognize(prepared);
+        return { text: data.text, confidence: data.confidence };
+    } finally {
+        await worker.terminate();
+    }
+}
+
+function detectApp(text: string): ReceiptApp {
+    if (/phone\s?pe/i.test(text)) return 'phonepe';
+    if (/paytm/i.test(text)) return 'paytm';
+    if (/google\s*pay|\bG\s?Pay\b|UPI\s*transaction\s*ID/i.test(text)) return 'gpay';
+    return 'unknown';
+}
+
+/**
+ * Pulls the UTR, amount, date and payee out of the text of a GPay, PhonePe or Paytm
+ * receipt. Fields that can't be found are null.
+ */
+export function parseReceiptText(text: string): ReceiptFields {
+    const labelled = text.match(UTR_LABELLED)?.[1].replace(/\s/g, '');
+    const utr = labelled ?? text.match(UTR_ANYWHERE)?.[0] ?? null;
+
+    const amountText = text.match(AMOUNT_WITH_CURRENCY)?.[1] ?? text.match(AMOUNT_ON_OWN_LINE)?.[1];
+    const amount = amountText ? parseFloat(amountText.replace(/,/g, '')) : null;
+
+    let transactionDate: string | null = null;
+    const date = text.match(DATE);
+    if (date) {
+        const time = text.match(TIME);
+        let hour = time ? +time[1] : 0;
+        const meridiem = time?.[3]?.toLowerCase();
+        if (meridiem === 'pm' && hour < 12) hour += 12;
+        if (meridiem === 'am' && hour === 12) hour = 0;
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const month = MONTHS.indexOf(date[2].toLowerCase()) + 1;
+        transactionDate = `${date[3]}-${pad(month)}-${pad(+date[1])} ${pad(hour)}:${time ? time[2] : '00'}`;
+    }
+
+    // The payee's name follows "Paid to" or "To", on the same line or the next.
+    let payee: string | null = null;
+    const payeeMatch = text.match(PAYEE);
+    if (payeeMatch) {
+        const sameLine = payeeMatch[1].trim();
+        const nextLine = text.slice((payeeMatch.index ?? 0) + payeeMatch[0].length).split('\n').map(l => l.trim()).find(Boolean);
+        payee = sameLine || nextLine || null;
+    }
+
+    return { app: detectApp(text), utr, amount, transactionDate, payee };
+}
+
+/**
+ * Checks a receipt's text against what the team gave and what they should have paid.
+ */
+export function checkReceiptText(
+    text: string,
+    confidence: number,
+    expected: { utr: string; reference: string; amount: number }
+): ReceiptCheck {
+    const fields = parseReceiptText(text);
+    const isUtrMatch = fields.utr !== null && fields.utr === expected.utr.replace(/\s/g, '');
+    const isReferenceMatch = text.replace(/\s/g, '').toUpperCase().includes(expected.reference);
+    const base = { isUtrMatch, isReferenceMatch, amountPaid: fields.amount, transactionDate: fields.transactionDate, fields, confidence };
+
+    if (!fields.utr) {
+        return { ...base, conclusive: false, reason: 'OCR could not find a UTR on the screenshot.' };
+    }
+    if (!isUtrMatch) {
+        return { ...base, conclusive: false, reason: `OCR read UTR ${fields.utr}, which does not match the UTR entered.` };
+    }
+    if (fields.amount === null || !fields.transactionDate) {
+        return { ...base, conclusive: false, reason: 'OCR found the UTR but could not read the amount or date.' };
+    }
+    // A misread amount must not settle a payment, so anything but the fee is left to the AI or a reviewer.
+    if (fields.amount !== expected.amount) {
+        return { ...base, conclusive: false, reason: `OCR read an amount of ${formatRupees(fields.amount)}, not the entry fee of ${formatRupees(expected.amount)}.` };
+    }
+    return { ...base, conclusive: true, reason: `OCR read the UTR, fee and date off a ${APP_NAMES[fields.app]} receipt.` };
+}
+
+/**
+ * Reads a receipt with OCR and checks it. Returns null if OCR could not run.
+ */
+export async function verifyReceiptWithOcr(
+    image: Buffer,
+    expected: { utr: string; reference: string; amount: number }
+): Promise<ReceiptCheck | null> {
+    try {
+        const { text, confidence } = await recogniseText(image);
+        return checkReceiptText(text, confidence, expected);
+    } catch (error) {
+        console.error('Local OCR failed.', error);
+        return null;
+    }
+}
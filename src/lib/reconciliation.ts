@@ -0,0 +1,298 @@
+import { entryFeeOf, feeCollected } from '@/lib/ledger';
+import { holdsSlot } from '@/lib/registrations';
+import { getWeekId, zonedTimeToUtc } from '@/lib/time';
+import type { RegistrationStatus, TeamRegistrationData, Tournament, WeeklyData } from '@/lib/types';
+
+// --- Statement Parsing ---
+
+/**
+ * `upi`: a payment app or UPI statement.
+ * `bank`: a bank account statement with a running balance, typically converted
+ * from PDF, where the UTR may only appear in the narration.
+ */
+export type StatementLayout = 'upi' | 'bank';
+
+/**
+ * A payment received, read off one line of a statement.
+ */
+export type StatementPayment = {
+    line: number; // 1-based row in the file
+    utr: string;
+    amount: number; // INR
+    paidAt: string | null; // ISO string; null if the line had no readable date
+};
+
+export type ParsedStatement = {
+    layout: StatementLayout;
+    payments: StatementPayment[];
+    skipped: { line: number; reason: string }[];
+};
+
+// Header names are compared with everything but letters and digits stripped.
+const UTR_HEADERS = ['utr', 'utrno', 'utrnumber', 'upirefno', 'upireference', 'upirefid', 'rrn', 'bankreferenceno', 'referenceno', 'referencenumber', 'refno', 'chqrefno'];
+const CREDIT_HEADERS = ['credit', 'creditamount', 'creditamt', 'deposit', 'deposits', 'depositamt', 'depositamount', 'cramount', 'amount', 'amountinr', 'amountrs', 'transactionamount'];
+const DEBIT_HEADERS = ['debit', 'debitamount', 'debitamt', 'withdrawal', 'withdrawals', 'withdrawalamt', 'withdrawalamount', 'dramount'];
+const DIRECTION_HEADERS = ['type', 'drcr', 'crdr', 'transactiontype'];
+const DATE_HEADERS = ['transactiondatetime', 'datetime', 'dateandtime', 'transactiondate', 'txndate', 'date', 'postingdate', 'valuedate', 'valuedt'];
+const TIME_HEADERS = ['time', 'transactiontime', 'txntime'];
+const NARRATION_HEADERS = ['narration', 'description', 'particulars', 'remarks', 'details', 'transactiondetails', 'transactionremarks'];
+const BALANCE_HEADERS = ['closingbalance', 'balance', 'runningbalance', 'availablebalance'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting.
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+function headerKey(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findColumn(headers: string[], names: string[]): number {
+    const keys = headers.map(headerKey);
+    for (const name of names) {
+        const index = keys.indexOf(name);
+        if (index !== -1) return index;
+    }
+    return -1;
+}
+
+/**
+ * UTRs as banks print them: some pad the 12-digit UPI reference with leading zeros.
+ */
+export function normaliseUtr(utr: string): string {
+    const compact = utr.replace(/\s/g, '').toUpperCase();
+    const padded = compact.match(/^0+(\d{12})$/);
+    return padded ? padded[1] : compact;
+}
+
+/**
+ * The UPI reference in a bank narration, e.g. `UPI/412345678901/Team/...` or
+ * `UPI-NAME-name@okaxis-HDFC0000001-412345678901-NOTE`: the first 12-digit number.
+ */
+function utrFromNarration(narration: string): string | null {
+    return narration.match(/(?<!\d)\d{12}(?!\d)/)?.[0] ?? null;
+}
+
+/**
+ * Reads an amount such as `1,000.00`, `₹100`, `Rs. 100.00`, `INR 100`, `100.00 Cr`
+ * or `(100.00)`. Negative amounts, and amounts marked `Dr`, are money going out.
+ */
+function parseAmount(value: string): { amount: number; outgoing: boolean } | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    const outgoing = /^-|^\(.*\)$|\bdr\.?$/i.test(trimmed);
+    // Currency marks go first, so the dot in `Rs.` or `INR.` isn't read as a decimal point.
+    const number = trimmed.replace(/₹|\b(?:rs|inr)\.?/gi, '').match(/\d[\d,]*(\.\d+)?/)?.[0];
+    if (!number) return null;
+    const amount = parseFloat(number.replace(/,/g, ''));
+    return Number.isFinite(amount) ? { amount, outgoing } : null;
+}
+
+/**
+ * Reads the dates statements use: `2024-05-06 21:15`, `06/05/2024`, `06-05-24 09:15 PM`
+ * or `06 May 2024`, as wall-clock time in `timeZone`. Day comes before month.
+ */
+export function parseStatementDate(value: string, timeZone: string): Date | null {
+    const trimmed = value.trim();
+    const time = trimmed.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+    let year: number, month: number, day: number;
+
+    const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    const numeric = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+    const named = trimmed.match(/^(\d{1,2})[\s-]([a-z]{3})[a-z]*[\s,-]+(\d{2}|\d{4})\b/i);
+    if (iso) {
+        [year, month, day] = [+iso[1], +iso[2], +iso[3]];
+    } else if (numeric) {
+        [day, month, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    } else if (named) {
+        [day, month, year] = [+named[1], MONTHS.indexOf(named[2].toLowerCase()) + 1, +named[3]];
+    } else {
+        return null;
+    }
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    let hour = time ? +time[1] : 0;
+    const minute = time ? +time[2] : 0;
+    const second = time?.[3] ? +time[3] : 0;
+    const meridiem = time?.[4]?.toLowerCase();
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    return zonedTimeToUtc(timeZone, year, month, day, hour, minute, second);
+}
+
+/**
+ * Reads the payments received from a statement CSV. Lines above the column headers
+ * (account details in PDF exports), money going out and lines without a UTR are skipped.
+ */
+export function parseStatementCsv(text: string, timeZone: string): ParsedStatement | { error: string } {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    const headerIndex = rows.slice(0, 30).findIndex(row =>
+        findColumn(row, CREDIT_HEADERS) !== -1 && (findColumn(row, UTR_HEADERS) !== -1 || findColumn(row, NARRATION_HEADERS) !== -1)
+    );
+    if (headerIndex === -1) {
+        return { error: 'Could not find the column headers. The statement needs an amount or credit column, and a UTR or narration column.' };
+    }
+
+    const headers = rows[headerIndex];
+    const columns = {
+        utr: findColumn(headers, UTR_HEADERS),
+        credit: findColumn(headers, CREDIT_HEADERS),
+        debit: findColumn(headers, DEBIT_HEADERS),
+        direction: findColumn(headers, DIRECTION_HEADERS),
+        date: findColumn(headers, DATE_HEADERS),
+        time: findColumn(headers, TIME_HEADERS),
+        narration: findColumn(headers, NARRATION_HEADERS),
+    };
+    const layout: StatementLayout = findColumn(headers, BALANCE_HEADERS) !== -1 ? 'bank' : 'upi';
+    const payments: StatementPayment[] = [];
+    const skipped: { line: number; reason: string }[] = [];
+
+    rows.slice(headerIndex + 1).forEach((row, index) => {
+        const line = headerIndex + index + 2;
+        const cell = (column: number) => (column === -1 ? '' : row[column] ?? '').trim();
+        if (row.every(field => field.trim() === '')) return;
+
+        const credit = parseAmount(cell(columns.credit));
+        const direction = cell(columns.direction).toLowerCase();
+        if (!credit || credit.amount === 0) {
+            // Bank statements leave the deposit column empty on withdrawals.
+            if (!cell(columns.debit)) skipped.push({ line, reason: 'No amount.' });
+            return;
+        }
+        if (credit.outgoing || /^(dr|debit|sent|paid)/.test(direction)) return;
+
+        const utrText = cell(columns.utr) || utrFromNarration(cell(columns.narration));
+        if (!utrText) {
+            skipped.push({ line, reason: 'No UTR found.' });
+            return;
+        }
+        const dateText = [cell(columns.date), cell(columns.time)].filter(Boolean).join(' ');
+        const paidAt = dateText ? parseStatementDate(dateText, timeZone) : null;
+        if (dateText && !paidAt) {
+            skipped.push({ line, reason: `Unreadable date "${dateText}".` });
+            return;
+        }
+        payments.push({ line, utr: normaliseUtr(utrText), amount: credit.amount, paidAt: paidAt?.toISOString() ?? null });
+    });
+
+    return { layout, payments, skipped };
+}
+
+// --- Reconciliation ---
+
+type ReconciledTeam = { teamId: string; teamName: string; utrNumber: string; status: RegistrationStatus };
+
+export type StatementReconciliation = {
+    weekId: string;
+    registrationWeekStart: string;
+    layout: StatementLayout;
+    paymentsRead: number;
+    skipped: { line: number; reason: string }[];
+    /** Registrations whose payment is on the statement, for the right amount and in the week. */
+    matched: (ReconciledTeam & { payment: StatementPayment })[];
+    /** Registrations holding a slot or counted as paid whose UTR is not on the statement. */
+    unmatchedRegistrations: ReconciledTeam[];
+    wrongAmounts: (ReconciledTeam & { payment: StatementPayment; expected: number })[];
+    /** Payments made before the registration week started, i.e. reused from an earlier week. */
+    paidBeforeWeek: (ReconciledTeam & { payment: StatementPayment })[];
+    /** Payments during the week whose UTR no registration gave. */
+    unknownPayments: StatementPayment[];
+};
+
+/**
+ * Matches a week's registrations against the payments on a statement by UTR.
+ * A statement usually covers more than one week, so payments dated outside the
+ * week are only reported when a registration claims them.
+ */
+export function reconcileStatement(tournament: Tournament, week: WeeklyData, statement: ParsedStatement): StatementReconciliation {
+    const weekStart = new Date(week.registrationWeekStart);
+    const weekEnd = new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+    const paymentsByUtr = new Map<string, StatementPayment>();
+    for (const payment of statement.payments) {
+        if (!paymentsByUtr.has(payment.utr)) paymentsByUtr.set(payment.utr, payment);
+    }
+
+    const report: StatementReconciliation = {
+        weekId: getWeekId(week.registrationWeekStart, tournament.timezone),
+        registrationWeekStart: week.registrationWeekStart,
+        layout: statement.layout,
+        paymentsRead: statement.payments.length,
+        skipped: statement.skipped,
+        matched: [],
+        unmatchedRegistrations: [],
+        wrongAmounts: [],
+        paidBeforeWeek: [],
+        unknownPayments: [],
+    };
+
+    const claimed = new Set<string>();
+    for (const team of week.teams) {
+        const utr = normaliseUtr(team.utrNumber);
+        const payment = paymentsByUtr.get(utr);
+        const summary: ReconciledTeam = { teamId: team.id, teamName: team.teamName, utrNumber: team.utrNumber, status: team.status };
+        if (payment) claimed.add(utr);
+
+        if (!payment) {
+            if (expectsPayment(team)) report.unmatchedRegistrations.push(summary);
+        } else if (payment.amount !== entryFeeOf(team, tournament)) {
+            report.wrongAmounts.push({ ...summary, payment, expected: entryFeeOf(team, tournament) });
+        } else if (payment.paidAt && new Date(payment.paidAt) < weekStart) {
+            report.paidBeforeWeek.push({ ...summary, payment });
+        } else {
+            report.matched.push({ ...summary, payment });
+        }
+    }
+
+    report.unknownPayments = statement.payments.filter(payment =>
+        !claimed.has(payment.utr)
+        && (!payment.paidAt || (new Date(payment.paidAt) >= weekStart && new Date(payment.paidAt) < weekEnd))
+    );
+    return report;
+}
+
+/**
+ * Registrations whose money should be in the account: those holding a slot, and
+ * those whose payment was accepted before they were withdrawn or refunded.
+ */
+function expectsPayment(team: TeamRegistrationData): boolean {
+    return holdsSlot(team) || feeCollected(team);
+}
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import type { TournamentScope } from '@/lib/repository';
+import type { RegistrationStatus, StatusChange, TeamRegistrationData } from '@/lib/types';
+import { findRegistration } from '@/lib/weeks';
+
+// --- Registration Records ---
+
+/**
+ * Teams stored before registrations had ids and statuses were all confirmed on
+ * the spot. Gives them a stable id, derived from fields that never change, and
+ * that status, so older records read the same as new ones.
+ */
+export function normaliseTeam(team: Partial<Pick<TeamRegistrationData, 'id' | 'status'>> & Omit<TeamRegistrationData, 'id' | 'status'>): TeamRegistrationData {
+    if (team.id && team.status) return team as TeamRegistrationData;
+    const id = team.id ?? `legacy-${crypto
+        .createHash('sha256')
+        .update(`${team.utrNumber}|${team.registrationTime}`)
+        .digest('hex')
+        .slice(0, 16)}`;
+    return { ...team, id, status: team.status ?? 'confirmed' };
+}
+
+/**
+ * Whether the team occupies one of the week's slots. Rejected, withdrawn,
+ * disqualified and refunded registrations give theirs back.
+ */
+export function holdsSlot(team: TeamRegistrationData): boolean {
+    return team.status === 'pending_review' || team.status === 'confirmed';
+}
+
+/**
+ * Whether the team's UTR, screenshot, payment reference, contacts and players stay
+ * taken for the week. Only a rejected registration frees them, so a team can try
+ * again; a withdrawn, disqualified or refunded one keeps them, or the same payment
+ * could be registered twice.
+ */
+export function claimsDetails(team: TeamRegistrationData): boolean {
+    return team.status !== 'rejected';
+}
+
+/**
+ * Finds a team by UTR, preferring the registration that still holds a slot
+ * over any earlier rejected attempt with the same UTR.
+ */
+export function findTeamByUtr(teams: TeamRegistrationData[], utr: string): TeamRegistrationData | undefined {
+    const matches = teams.filter(team => team.utrNumber.trim().toLowerCase() === utr.trim().toLowerCase());
+    return matches.find(holdsSlot) ?? matches[matches.length - 1];
+}
+
+/**
+ * A registration as shown to the team itself, and to admins looking it up by UTR.
+ * The screenshot hashes are only used for duplicate detection and never leave the
+ * server. The fraud signals, payment checks and stored screenshot are not shown to
+ * the team they are about.
+ */
+export type TeamView = Omit<
+    TeamRegistrationData,
+    'screenshotHash' | 'screenshotPerceptualHash' | 'fraud' | 'verifications' | 'screenshotUrl'
+>;
+
+export function toTeamView(team: TeamRegistrationData): TeamView {
+    const view: Partial<TeamRegistrationData> = { ...team };
+    delete view.screenshotHash;
+    delete view.screenshotPerceptualHash;
+    delete view.fraud;
+    delete view.verifications;
+    delete view.screenshotUrl;
+    return view as TeamView;
+}
+
+// --- Status Transitions ---
+
+/**
+ * The statuses each status may move to. Anything else is refused.
+ */
+const ALLOWED_TRANSITIONS: Record<RegistrationStatus, RegistrationStatus[]> = {
+    pending_review: ['confirmed', 'rejected', 'withdrawn'],
+    confirmed: ['withdrawn', 'disqualified'],
+    rejected: ['refunded'],
+    withdrawn: ['refunded'],
+    disqualified: ['refunded'],
+    refunded: [],
+};
+
+export function canTransition(from: RegistrationStatus, to: RegistrationStatus): boolean {
+    return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Moves a team to a new status and appends the change to its audit log.
+ * Returns an error message if the transition is not allowed.
+ */
+export function applyStatusChange(
+    team: TeamRegistrationData,
+    change: Omit<StatusChange, 'from'>
+): { team: TeamRegistrationData; error?: undefined } | { error: string } {
+    if (!canTransition(team.status, change.to)) {
+        return { error: `A ${team.status} registration cannot be marked ${change.to}.` };
+    }
+    const entry: StatusChange = { from: team.status, ...change };
+    return {
+        team: { ...team, status: change.to, statusHistory: [...(team.statusHistory ?? []), entry] },
+    };
+}
+
+/**
+ * Changes the status of a registration in any week. Must be called inside a transaction.
+ */
+export async function changeRegistrationStatus(
+    scope: TournamentScope,
+    teamId: string,
+    change: Omit<StatusChange, 'from'>
+): Promise<{ team: TeamRegistrationData; registrationWeekStart: string; error?: undefined } | { error: string }> {
+    const found = await findRegistration(scope, teamId);
+    if (!found) {
+        return { error: 'Registration not found.' };
+    }
+    const changed = applyStatusChange(found.team, change);
+    if (changed.error !== undefined) return changed;
+
+    await scope.teams.update(found.registrationWeekStart, changed.team);
+    return { team: changed.team, registrationWeekStart: found.registrationWeekStart };
+}
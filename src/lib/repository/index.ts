@@ -0,0 +1,31 @@
+import path from 'path';
+import { createJsonDataStore } from './json-store';
+import { createSqliteDataStore } from './sqlite-store';
+import type { DataStore } from './types';
+
+export type { DataStore, Repository, TournamentScope } from './types';
+export { createJsonDataStore, createSqliteDataStore };
+
+export const DEFAULT_DATA_DIR = path.join(process.cwd(), 'src', 'data');
+export const DEFAULT_SQLITE_PATH = path.join(DEFAULT_DATA_DIR, 'founders.db');
+
+// Cached on globalThis so that dev-server hot reloads don't open a second store.
+const globalForStore = globalThis as unknown as { dataStore?: DataStore };
+
+/**
+ * Returns the configured data store. Set `DATA_STORE=sqlite` to use the embedded
+ * SQLite database (path from `SQLITE_DB_PATH`); the JSON files are the default.
+ */
+export function getDataStore(): DataStore {
+    if (!globalForStore.dataStore) {
+        const kind = process.env.DATA_STORE ?? 'json';
+        if (kind === 'sqlite') {
+            globalForStore.dataStore = createSqliteDataStore(process.env.SQLITE_DB_PATH ?? DEFAULT_SQLITE_PATH);
+        } else if (kind === 'json') {
+            globalForStore.dataStore = createJsonDataStore(DEFAULT_DATA_DIR);
+        } else {
+            throw new Error(`Unknown DATA_STORE "${kind}". Expected "json" or "sqlite".`);
+        }
+    }
+    return globalForStore.dataStore;
+}
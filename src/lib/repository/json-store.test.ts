@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { createJsonDataStore, type DataStore } from '@/lib/repository';
+import { DEFAULT_TOURNAMENT_ID } from '@/lib/tournaments';
+import type { TeamRegistrationData } from '@/lib/types';
+
+// The week of Monday 6 May 2024 IST starts on Sunday 5 May in UTC.
+const WEEK_START = '2024-05-05T18:30:00.000Z';
+
+const team: TeamRegistrationData = {
+    id: 'team-1',
+    status: 'confirmed',
+    teamName: 'Squad',
+    players: [{ id: '1234567890', level: 50 }],
+    contactEmail: 'team@example.com',
+    contactPhone: '9876543210',
+    utrNumber: '412345678901',
+    screenshotHash: 'hash',
+    screenshotUrl: null,
+    registrationTime: '2024-05-06T15:45:00.000Z',
+};
+
+describe('JSON store archives', () => {
+    let dir: string;
+    let store: DataStore;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-json-'));
+        // Named after the UTC date, as archives were before weeks were kept in the tournament's zone.
+        fs.mkdirSync(path.join(dir, 'archive'));
+        fs.writeFileSync(
+            path.join(dir, 'archive', 'registrations-2024-05-05.json'),
+            JSON.stringify({ registrationWeekStart: WEEK_START, teams: [team] })
+        );
+        store = createJsonDataStore(dir);
+    });
+
+    after(async () => {
+        await store.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('finds a week archived under its UTC date', async () => {
+        const teams = await store.transaction(repo => repo.forTournament(DEFAULT_TOURNAMENT_ID).teams.listByWeek(WEEK_START));
+        assert.deepEqual(teams.map(t => t.id), ['team-1']);
+    });
+
+    test('updates a team in that archive in place', async () => {
+        await store.transaction(repo => repo.forTournament(DEFAULT_TOURNAMENT_ID).teams.update(WEEK_START, { ...team, status: 'refunded' }));
+        assert.deepEqual(fs.readdirSync(path.join(dir, 'archive')), ['registrations-2024-05-05.json']);
+        const archives = await store.transaction(repo => repo.forTournament(DEFAULT_TOURNAMENT_ID).archives.list());
+        assert.equal(archives[0].teams[0].status, 'refunded');
+    });
+});
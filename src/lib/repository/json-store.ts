@@ -0,0 +1,584 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { holdsSlot, normaliseTeam } from '@/lib/registrations';
+import { formatDateInZone } from '@/lib/time';
+import { DEFAULT_STAGE_ID, DEFAULT_TOURNAMENT_ID, getTournament } from '@/lib/tournaments';
+import type { AdminUser, ContactCode, LobbyAssignment, MatchResult, OutboxMessage, PaymentIntent, Payout, PhoneMessage, PlayerRecord, RateLimitBucket, RegistrationState, RejectedAttempt, RoomDetails, SlotReservation, TeamRegistrationData, Tournament, WaitlistEntry, WeeklyData, WeeklyWinner } from '@/lib/types';
+import { createMutex } from './mutex';
+import type { DataStore, Repository, TournamentScope } from './types';
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+
+type MatchKey = Pick<MatchResult, 'registrationWeekStart' | 'stageId' | 'lobby' | 'matchNumber'>;
+type LobbyKey = Pick<LobbyAssignment, 'registrationWeekStart' | 'stageId' | 'lobby'>;
+
+function isSameLobby(a: LobbyKey, b: LobbyKey): boolean {
+    return a.registrationWeekStart === b.registrationWeekStart && a.stageId === b.stageId && a.lobby === b.lobby;
+}
+
+function isSameMatch(a: MatchKey, b: MatchKey): boolean {
+    return isSameLobby(a, b) && a.matchNumber === b.matchNumber;
+}
+
+/**
+ * Stores everything as JSON files in `dataDir`, using the original file layout:
+ * `registration-state.json`, `registrations.json`, `winners.json` and
+ * `archive/registrations-YYYY-MM-DD.json`. Newer data gets a file of its own,
+ * such as `reservations.json`.
+ *
+ * The default tournament uses `dataDir` itself; every other tournament gets the
+ * same layout under `tournaments/<id>/`.
+ */
+export function createJsonDataStore(dataDir: string): DataStore {
+    const tournamentsPath = path.join(dataDir, 'tournaments.json');
+    const adminsPath = path.join(dataDir, 'admins.json');
+    const playersPath = path.join(dataDir, 'players.json');
+    const outboxPath = path.join(dataDir, 'outbox.json');
+    const phoneMessagesPath = path.join(dataDir, 'phone-messages.json');
+    const contactCodesPath = path.join(dataDir, 'contact-codes.json');
+    const rateLimitsPath = path.join(dataDir, 'rate-limits.json');
+    const rejectedAttemptsPath = path.join(dataDir, 'rejected-attempts.json');
+    const lockPath = path.join(dataDir, '.lock');
+    const runExclusive = createMutex();
+
+    function tournamentPaths(tournamentId: string) {
+        if (!/^[a-z0-9][a-z0-9-]*$/.test(tournamentId)) {
+            throw new Error(`Invalid tournament id "${tournamentId}".`);
+        }
+        const dir = tournamentId === DEFAULT_TOURNAMENT_ID ? dataDir : path.join(dataDir, 'tournaments', tournamentId);
+        return {
+            archiveDir: path.join(dir, 'archive'),
+            statePath: path.join(dir, 'registration-state.json'),
+            registrationsPath: path.join(dir, 'registrations.json'),
+            winnersPath: path.join(dir, 'winners.json'),
+            reservationsPath: path.join(dir, 'reservations.json'),
+            paymentIntentsPath: path.join(dir, 'payment-intents.json'),
+            waitlistPath: path.join(dir, 'waitlist.json'),
+            resultsPath: path.join(dir, 'results.json'),
+            lobbiesPath: path.join(dir, 'lobbies.json'),
+            roomsPath: path.join(dir, 'rooms.json'),
+            payoutsPath: path.join(dir, 'payouts.json'),
+        };
+    }
+
+    /**
+     * Ensures the data directory exists.
+     */
+    async function ensureDataDirectories() {
+        await fs.mkdir(dataDir, { recursive: true });
+    }
+
+    /**
+     * Takes the cross-process lock file, breaking it if its owner has been gone too long.
+     */
+    async function acquireFileLock(): Promise<void> {
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        while (true) {
+            try {
+                const handle = await fs.open(lockPath, 'wx');
+                await handle.writeFile(String(process.pid));
+                await handle.close();
+                return;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+            }
+
+            try {
+                const { mtimeMs } = await fs.stat(lockPath);
+                if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+                    console.warn(`Breaking stale data store lock at ${lockPath}`);
+                    await fs.rm(lockPath, { force: true });
+                    continue;
+                }
+            } catch {
+                continue; // Lock was released between open() and stat().
+            }
+
+            if (Date.now() > deadline) {
+                throw new Error('Timed out waiting for the data store lock.');
+            }
+            await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+        }
+    }
+
+    async function releaseFileLock(): Promise<void> {
+        await fs.rm(lockPath, { force: true });
+    }
+
+    /**
+     * Buffers reads and writes for one transaction. Nothing touches disk until `commit`.
+     */
+    function createUnitOfWork() {
+        const cache = new Map<string, unknown>();
+        const dirty = new Set<string>();
+
+        async function read<T>(filePath: string): Promise<T | null> {
+            if (cache.has(filePath)) return cache.get(filePath) as T | null;
+            let value: T | null = null;
+            try {
+                value = JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            }
+            cache.set(filePath, value);
+            return value;
+        }
+
+        async function readList<T>(filePath: string): Promise<T[]> {
+            return (await read<T[]>(filePath)) ?? [];
+        }
+
+        function write<T>(filePath: string, data: T) {
+            cache.set(filePath, data);
+            dirty.add(filePath);
+        }
+
+        /**
+         * Writes every changed file to a temporary sibling first, then renames them
+         * into place so a crash never leaves a half-written JSON file behind.
+         */
+        async function commit() {
+            const pending = [...dirty];
+            for (const filePath of pending) {
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(`${filePath}.tmp`, JSON.stringify(cache.get(filePath), null, 2), 'utf-8');
+            }
+            for (const filePath of pending) {
+                await fs.rename(`${filePath}.tmp`, filePath);
+            }
+        }
+
+        return { read, readList, write, commit };
+    }
+
+    type UnitOfWork = ReturnType<typeof createUnitOfWork>;
+
+    function createTournamentScope(uow: UnitOfWork, repo: Repository, tournamentId: string): TournamentScope {
+        const { archiveDir, statePath, registrationsPath, winnersPath, reservationsPath, paymentIntentsPath, waitlistPath, resultsPath, lobbiesPath, roomsPath, payoutsPath } = tournamentPaths(tournamentId);
+
+        async function listArchiveFiles(): Promise<string[]> {
+            try {
+                const allFiles = await fs.readdir(archiveDir);
+                return allFiles.filter(file => file.startsWith('registrations-') && file.endsWith('.json'));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+                throw error;
+            }
+        }
+
+        /**
+         * Archive files are named after the week's Monday in the tournament's time zone.
+         * Older ones are named after the UTC date the week started, a Sunday for zones
+         * ahead of UTC, so a week not found under its name is looked for by its contents.
+         */
+        async function archivePathFor(registrationWeekStart: string) {
+            const timeZone = (await getTournament(repo, tournamentId))?.timezone ?? 'UTC';
+            // Format as YYYY-MM-DD
+            const dateString = formatDateInZone(new Date(registrationWeekStart), timeZone);
+            const named = path.join(archiveDir, `registrations-${dateString}.json`);
+            if ((await uow.read<WeeklyData>(named))?.registrationWeekStart === registrationWeekStart) return named;
+            for (const file of await listArchiveFiles()) {
+                const filePath = path.join(archiveDir, file);
+                if ((await uow.read<WeeklyData>(filePath))?.registrationWeekStart === registrationWeekStart) return filePath;
+            }
+            return named;
+        }
+
+        /**
+         * Results entered before tournaments had stages belong to the single default lobby.
+         */
+        async function readResults(): Promise<MatchResult[]> {
+            const all = await uow.readList<MatchResult>(resultsPath);
+            return all.map(r => ({ ...r, stageId: r.stageId ?? DEFAULT_STAGE_ID, lobby: r.lobby ?? 1 }));
+        }
+
+        return {
+            weeks: {
+                async getCurrent() {
+                    const state = await uow.read<RegistrationState>(statePath);
+                    const weeklyData = await uow.read<WeeklyData>(registrationsPath);
+                    if (!state || !weeklyData) return null;
+                    return {
+                        registrationWeekStart: state.registrationWeekStart,
+                        registeredTeamsCount: weeklyData.teams.map(normaliseTeam).filter(holdsSlot).length,
+                    };
+                },
+                async startWeek(registrationWeekStart) {
+                    const state: RegistrationState = { registrationWeekStart, registeredTeamsCount: 0 };
+                    uow.write(statePath, state);
+                    uow.write<WeeklyData>(registrationsPath, { registrationWeekStart, teams: [] });
+                    return state;
+                },
+            },
+            teams: {
+                async listByWeek(registrationWeekStart) {
+                    const weeklyData = await uow.read<WeeklyData>(registrationsPath);
+                    if (weeklyData?.registrationWeekStart === registrationWeekStart) {
+                        return weeklyData.teams.map(normaliseTeam);
+                    }
+                    const archived = await uow.read<WeeklyData>(await archivePathFor(registrationWeekStart));
+                    return (archived?.teams ?? []).map(normaliseTeam);
+                },
+                async add(registrationWeekStart, team: TeamRegistrationData) {
+                    const weeklyData = await uow.read<WeeklyData>(registrationsPath);
+                    if (!weeklyData || weeklyData.registrationWeekStart !== registrationWeekStart) {
+                        throw new Error(`Registration week ${registrationWeekStart} is not open.`);
+                    }
+                    const updated: WeeklyData = { ...weeklyData, teams: [...weeklyData.teams, team] };
+                    uow.write(registrationsPath, updated);
+                    uow.write<RegistrationState>(statePath, {
+                        registrationWeekStart,
+                        registeredTeamsCount: updated.teams.map(normaliseTeam).filter(holdsSlot).length,
+                    });
+                },
+                async update(registrationWeekStart, team) {
+                    const current = await uow.read<WeeklyData>(registrationsPath);
+                    const filePath = current?.registrationWeekStart === registrationWeekStart
+                        ? registrationsPath
+                        : await archivePathFor(registrationWeekStart);
+                    const weeklyData = await uow.read<WeeklyData>(filePath);
+                    const teams = (weeklyData?.teams ?? []).map(normaliseTeam);
+                    if (!weeklyData || !teams.some(t => t.id === team.id)) {
+                        throw new Error(`Team ${team.id} is not registered in week ${registrationWeekStart}.`);
+                    }
+                    uow.write<WeeklyData>(filePath, { ...weeklyData, teams: teams.map(t => (t.id === team.id ? team : t)) });
+                    if (filePath === registrationsPath) {
+                        uow.write<RegistrationState>(statePath, {
+                            registrationWeekStart,
+                            registeredTeamsCount: teams.filter(t => t.id === team.id ? holdsSlot(team) : holdsSlot(t)).length,
+                        });
+                    }
+                },
+            },
+            archives: {
+                async list() {
+                    const jsonFiles = (await listArchiveFiles())
+                        .sort() // Sorts alphabetically, which works for YYYY-MM-DD format
+                        .reverse(); // Show most recent first
+
+                    const allData: WeeklyData[] = [];
+                    for (const file of jsonFiles) {
+                        const data = await uow.read<WeeklyData>(path.join(archiveDir, file));
+                        if (data) allData.push({ ...data, teams: data.teams.map(normaliseTeam) });
+                    }
+                    return allData;
+                },
+                async save(weeklyData) {
+                    uow.write(await archivePathFor(weeklyData.registrationWeekStart), weeklyData);
+                },
+            },
+            winners: {
+                async list() {
+                    return await uow.readList<WeeklyWinner>(winnersPath);
+                },
+                async save(record) {
+                    const existing = await uow.readList<WeeklyWinner>(winnersPath);
+                    // Prevent adding duplicate winner entries for the same week
+                    const others = existing.filter(w => w.weekStart !== record.weekStart);
+                    uow.write(winnersPath, [record, ...others]);
+                },
+            },
+            reservations: {
+                async listByWeek(registrationWeekStart) {
+                    const all = await uow.readList<SlotReservation>(reservationsPath);
+                    return all.filter(r => r.registrationWeekStart === registrationWeekStart);
+                },
+                async get(id) {
+                    const all = await uow.readList<SlotReservation>(reservationsPath);
+                    return all.find(r => r.id === id) ?? null;
+                },
+                async add(reservation) {
+                    const all = await uow.readList<SlotReservation>(reservationsPath);
+                    uow.write(reservationsPath, [...all, reservation]);
+                },
+                async remove(id) {
+                    const all = await uow.readList<SlotReservation>(reservationsPath);
+                    uow.write(reservationsPath, all.filter(r => r.id !== id));
+                },
+                async removeExpired(now) {
+                    const all = await uow.readList<SlotReservation>(reservationsPath);
+                    const expired = all.filter(r => r.expiresAt <= now);
+                    if (expired.length > 0) {
+                        uow.write(reservationsPath, all.filter(r => r.expiresAt > now));
+                    }
+                    return expired;
+                },
+            },
+            paymentIntents: {
+                async listByWeek(registrationWeekStart) {
+                    const all = await uow.readList<PaymentIntent>(paymentIntentsPath);
+                    return all.filter(i => i.registrationWeekStart === registrationWeekStart);
+                },
+                async get(reference) {
+                    const all = await uow.readList<PaymentIntent>(paymentIntentsPath);
+                    return all.find(i => i.reference === reference) ?? null;
+                },
+                async add(intent) {
+                    const all = await uow.readList<PaymentIntent>(paymentIntentsPath);
+                    uow.write(paymentIntentsPath, [...all, intent]);
+                },
+            },
+            waitlist: {
+                async listByWeek(registrationWeekStart) {
+                    const all = await uow.readList<WaitlistEntry>(waitlistPath);
+                    return all
+                        .filter(e => e.registrationWeekStart === registrationWeekStart)
+                        .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+                },
+                async get(id) {
+                    const all = await uow.readList<WaitlistEntry>(waitlistPath);
+                    return all.find(e => e.id === id) ?? null;
+                },
+                async add(entry) {
+                    const all = await uow.readList<WaitlistEntry>(waitlistPath);
+                    uow.write(waitlistPath, [...all, entry]);
+                },
+                async update(entry) {
+                    const all = await uow.readList<WaitlistEntry>(waitlistPath);
+                    if (!all.some(e => e.id === entry.id)) {
+                        throw new Error(`Waitlist entry ${entry.id} does not exist.`);
+                    }
+                    uow.write(waitlistPath, all.map(e => (e.id === entry.id ? entry : e)));
+                },
+            },
+            results: {
+                async listByWeek(registrationWeekStart) {
+                    const all = await readResults();
+                    return all
+                        .filter(r => r.registrationWeekStart === registrationWeekStart)
+                        .sort((a, b) => a.matchNumber - b.matchNumber);
+                },
+                async save(result) {
+                    const all = await readResults();
+                    const others = all.filter(r => !isSameMatch(r, result));
+                    uow.write(resultsPath, [...others, result]);
+                },
+                async remove(registrationWeekStart, stageId, lobby, matchNumber) {
+                    const all = await readResults();
+                    uow.write(resultsPath, all.filter(r => !isSameMatch(r, { registrationWeekStart, stageId, lobby, matchNumber })));
+                },
+            },
+            lobbies: {
+                async listByWeek(registrationWeekStart) {
+                    const all = await uow.readList<LobbyAssignment>(lobbiesPath);
+                    return all.filter(a => a.registrationWeekStart === registrationWeekStart);
+                },
+                async save(assignment) {
+                    const all = await uow.readList<LobbyAssignment>(lobbiesPath);
+                    const others = all.filter(a => !isSameLobby(a, assignment));
+                    uow.write(lobbiesPath, [...others, assignment]);
+                },
+                async remove(registrationWeekStart, stageId, lobby) {
+                    const all = await uow.readList<LobbyAssignment>(lobbiesPath);
+                    uow.write(lobbiesPath, all.filter(a => !isSameLobby(a, { registrationWeekStart, stageId, lobby })));
+                },
+            },
+            rooms: {
+                async listByWeek(registrationWeekStart) {
+                    const all = await uow.readList<RoomDetails>(roomsPath);
+                    return all.filter(r => r.registrationWeekStart === registrationWeekStart);
+                },
+                async save(room) {
+                    const all = await uow.readList<RoomDetails>(roomsPath);
+                    uow.write(roomsPath, [...all.filter(r => !isSameLobby(r, room)), room]);
+                },
+            },
+            payouts: {
+                async list() {
+                    const all = await uow.readList<Payout>(payoutsPath);
+                    return [...all].sort((a, b) => a.paidAt.localeCompare(b.paidAt));
+                },
+                async add(payout) {
+                    const all = await uow.readList<Payout>(payoutsPath);
+                    uow.write(payoutsPath, [...all, payout]);
+                },
+            },
+        };
+    }
+
+    function createRepository(uow: UnitOfWork): Repository {
+        const repository: Repository = {
+            tournaments: {
+                async list() {
+                    return uow.readList<Tournament>(tournamentsPath);
+                },
+                async get(id) {
+                    const all = await uow.readList<Tournament>(tournamentsPath);
+                    return all.find(t => t.id === id) ?? null;
+                },
+                async save(tournament) {
+                    const all = await uow.readList<Tournament>(tournamentsPath);
+                    uow.write(tournamentsPath, [...all.filter(t => t.id !== tournament.id), tournament]);
+                },
+            },
+            admins: {
+                async list() {
+                    return uow.readList<AdminUser>(adminsPath);
+                },
+                async get(username) {
+                    const all = await uow.readList<AdminUser>(adminsPath);
+                    return all.find(a => a.username === username) ?? null;
+                },
+                async save(admin) {
+                    const all = await uow.readList<AdminUser>(adminsPath);
+                    uow.write(adminsPath, [...all.filter(a => a.username !== admin.username), admin]);
+                },
+                async remove(username) {
+                    const all = await uow.readList<AdminUser>(adminsPath);
+                    uow.write(adminsPath, all.filter(a => a.username !== username));
+                },
+            },
+            players: {
+                async list() {
+                    return uow.readList<PlayerRecord>(playersPath);
+                },
+                async get(id) {
+                    const all = await uow.readList<PlayerRecord>(playersPath);
+                    return all.find(p => p.id === id) ?? null;
+                },
+                async getMany(ids) {
+                    const wanted = new Set(ids);
+                    const all = await uow.readList<PlayerRecord>(playersPath);
+                    return all.filter(p => wanted.has(p.id));
+                },
+                async listBanned() {
+                    const all = await uow.readList<PlayerRecord>(playersPath);
+                    return all.filter(p => p.ban);
+                },
+                async save(record) {
+                    const all = await uow.readList<PlayerRecord>(playersPath);
+                    uow.write(playersPath, [...all.filter(p => p.id !== record.id), record]);
+                },
+            },
+            outbox: {
+                async get(id) {
+                    const all = await uow.readList<OutboxMessage>(outboxPath);
+                    return all.find(m => m.id === id) ?? null;
+                },
+                async list(status, limit) {
+                    const all = await uow.readList<OutboxMessage>(outboxPath);
+                    const matching = all
+                        .filter(m => !status || m.status === status)
+                        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+                    return limit === undefined ? matching : matching.slice(0, limit);
+                },
+                async listDue(now, limit) {
+                    const all = await uow.readList<OutboxMessage>(outboxPath);
+                    return all
+                        .filter(m => m.status === 'pending' && m.nextAttemptAt <= now)
+                        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+                        .slice(0, limit);
+                },
+                async add(message) {
+                    const all = await uow.readList<OutboxMessage>(outboxPath);
+                    uow.write(outboxPath, [...all, message]);
+                },
+                async update(message) {
+                    const all = await uow.readList<OutboxMessage>(outboxPath);
+                    uow.write(outboxPath, all.map(m => (m.id === message.id ? message : m)));
+                },
+            },
+            phoneMessages: {
+                async get(id) {
+                    const all = await uow.readList<PhoneMessage>(phoneMessagesPath);
+                    return all.find(m => m.id === id) ?? null;
+                },
+                async list(status, limit) {
+                    const all = await uow.readList<PhoneMessage>(phoneMessagesPath);
+                    const matching = all
+                        .filter(m => !status || m.status === status)
+                        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+                    return limit === undefined ? matching : matching.slice(0, limit);
+                },
+                async listDue(now, limit) {
+                    const all = await uow.readList<PhoneMessage>(phoneMessagesPath);
+                    return all
+                        .filter(m => m.status === 'pending' && m.nextAttemptAt <= now)
+                        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+                        .slice(0, limit);
+                },
+                async add(message) {
+                    const all = await uow.readList<PhoneMessage>(phoneMessagesPath);
+                    uow.write(phoneMessagesPath, [...all, message]);
+                },
+                async update(message) {
+                    const all = await uow.readList<PhoneMessage>(phoneMessagesPath);
+                    uow.write(phoneMessagesPath, all.map(m => (m.id === message.id ? message : m)));
+                },
+            },
+            contactCodes: {
+                async list() {
+                    return await uow.readList<ContactCode>(contactCodesPath);
+                },
+                async get(kind, contact) {
+                    const all = await uow.readList<ContactCode>(contactCodesPath);
+                    return all.find(c => c.kind === kind && c.contact === contact) ?? null;
+                },
+                async save(record) {
+                    const all = await uow.readList<ContactCode>(contactCodesPath);
+                    const others = all.filter(c => c.kind !== record.kind || c.contact !== record.contact);
+                    uow.write(contactCodesPath, [...others, record]);
+                },
+            },
+            rateLimits: {
+                async list() {
+                    return await uow.readList<RateLimitBucket>(rateLimitsPath);
+                },
+                async get(key) {
+                    const all = await uow.readList<RateLimitBucket>(rateLimitsPath);
+                    return all.find(b => b.key === key) ?? null;
+                },
+                async save(bucket) {
+                    const all = await uow.readList<RateLimitBucket>(rateLimitsPath);
+                    // Buckets with no hits left are dropped rather than kept empty.
+                    const others = all.filter(b => b.key !== bucket.key);
+                    uow.write(rateLimitsPath, bucket.hits.length > 0 ? [...others, bucket] : others);
+                },
+                async removeExpired(now) {
+                    const all = await uow.readList<RateLimitBucket>(rateLimitsPath);
+                    // Buckets saved before they had an expiry are dropped too.
+                    const live = all.filter(b => b.expiresAt && b.expiresAt > now);
+                    if (live.length < all.length) {
+                        uow.write(rateLimitsPath, live);
+                    }
+                },
+            },
+            rejectedAttempts: {
+                async list(limit) {
+                    const all = await uow.readList<RejectedAttempt>(rejectedAttemptsPath);
+                    const sorted = [...all].sort((a, b) => b.at.localeCompare(a.at));
+                    return limit === undefined ? sorted : sorted.slice(0, limit);
+                },
+                async add(attempt) {
+                    const all = await uow.readList<RejectedAttempt>(rejectedAttemptsPath);
+                    uow.write(rejectedAttemptsPath, [...all, attempt]);
+                },
+            },
+            forTournament(tournamentId) {
+                return createTournamentScope(uow, repository, tournamentId);
+            },
+        };
+        return repository;
+    }
+
+    return {
+        kind: 'json',
+        transaction(fn) {
+            return runExclusive(async () => {
+                await ensureDataDirectories();
+                await acquireFileLock();
+                try {
+                    const uow = createUnitOfWork();
+                    const result = await fn(createRepository(uow));
+                    await uow.commit();
+                    return result;
+                } finally {
+                    await releaseFileLock();
+                }
+            });
+        },
+        async close() {},
+    };
+}
@@ -0,0 +1,13 @@
+/**
+ * A minimal async mutex. Callers are run one at a time, in the order they arrived.
+ */
+export function createMutex() {
+    let tail: Promise<unknown> = Promise.resolve();
+
+    return function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+        const result = tail.then(fn);
+        // Keep the chain alive even if this caller fails.
+        tail = result.catch(() => undefined);
+        return result;
+    };
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import Database from 'better-sqlite3';
+import { createSqliteDataStore } from '@/lib/repository';
+import { DEFAULT_TOURNAMENT_ID } from '@/lib/tournaments';
+import type { TeamRegistrationData } from '@/lib/types';
+
+const FIRST_WEEK = '2024-05-05T18:30:00.000Z';
+const SECOND_WEEK = '2024-05-12T18:30:00.000Z';
+
+const team: TeamRegistrationData = {
+    id: 'team-1',
+    status: 'confirmed',
+    teamName: 'Squad',
+    players: [{ id: '1234567890', level: 50 }],
+    contactEmail: 'team@example.com',
+    contactPhone: '9876543210',
+    utrNumber: '412345678901',
+    screenshotHash: 'hash',
+    screenshotUrl: null,
+    registrationTime: '2024-05-06T15:45:00.000Z',
+};
+
+describe('SQLite store weeks', () => {
+    let dir: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'founders-sqlite-'));
+    });
+
+    after(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('starting a week closes the previous one, even with no teams', async () => {
+        const store = createSqliteDataStore(path.join(dir, 'rollover.db'));
+        try {
+            await store.transaction(async repo => {
+                const scope = repo.forTournament(DEFAULT_TOURNAMENT_ID);
+                await scope.weeks.startWeek(FIRST_WEEK);
+                await scope.weeks.startWeek(SECOND_WEEK);
+
+                assert.equal((await scope.weeks.getCurrent())?.registrationWeekStart, SECOND_WEEK);
+                await assert.rejects(scope.teams.add(FIRST_WEEK, team), /is not open/);
+                assert.deepEqual(await scope.archives.list(), []);
+            });
+        } finally {
+            await store.close();
+        }
+    });
+
+    test('closes weeks an earlier version left open', async () => {
+        const dbPath = path.join(dir, 'upgrade.db');
+        await createSqliteDataStore(dbPath).close();
+
+        // As the database stood before the weeks were closed when a later one started.
+        const db = new Database(dbPath);
+        const insert = db.prepare(`INSERT INTO weeks (tournament_id, week_start, status) VALUES (?, ?, 'open')`);
+        insert.run(DEFAULT_TOURNAMENT_ID, FIRST_WEEK);
+        insert.run(DEFAULT_TOURNAMENT_ID, SECOND_WEEK);
+        db.pragma('user_version = 15');
+        db.close();
+
+        const store = createSqliteDataStore(dbPath);
+        try {
+            await store.transaction(async repo => {
+                const scope = repo.forTournament(DEFAULT_TOURNAMENT_ID);
+                assert.equal((await scope.weeks.getCurrent())?.registrationWeekStart, SECOND_WEEK);
+                await assert.rejects(scope.teams.add(FIRST_WEEK, team), /is not open/);
+                await scope.teams.add(SECOND_WEEK, team);
+            });
+        } finally {
+            await store.close();
+        }
+    });
+});
@@ -0,0 +1,725 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { holdsSlot, normaliseTeam } from '@/lib/registrations';
+import { DEFAULT_STAGE_ID, DEFAULT_TOURNAMENT_ID } from '@/lib/tournaments';
+import type { AdminUser, ContactCode, LobbyAssignment, MatchResult, OutboxMessage, PaymentIntent, Payout, PhoneMessage, PlayerRecord, RateLimitBucket, RejectedAttempt, RoomDetails, SlotReservation, TeamRegistrationData, Tournament, WaitlistEntry, WeeklyData, WeeklyWinner } from '@/lib/types';
+import { createMutex } from './mutex';
+import type { DataStore, Repository, TournamentScope } from './types';
+
+/**
+ * Schema changes, applied in order. `PRAGMA user_version` records how many have run,
+ * so only append to this list; never edit an entry that has shipped.
+ */
+const MIGRATIONS: string[] = [
+    // 1. Weeks, teams, winners and slot reservations.
+    `
+    CREATE TABLE IF NOT EXISTS weeks (
+        week_start TEXT PRIMARY KEY,
+        status TEXT NOT NULL CHECK (status IN ('open', 'archived'))
+    );
+
+    CREATE TABLE IF NOT EXISTS teams (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        week_start TEXT NOT NULL REFERENCES weeks (week_start),
+        utr_number TEXT NOT NULL,
+        contact_email TEXT NOT NULL,
+        contact_phone TEXT NOT NULL,
+        screenshot_hash TEXT NOT NULL,
+        registration_time TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS teams_week_start ON teams (week_start);
+
+    CREATE TABLE IF NOT EXISTS winners (
+        week_start TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS reservations (
+        id TEXT PRIMARY KEY,
+        week_start TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS reservations_week_start ON reservations (week_start);
+    `,
+    // 2. Tournament definitions, and per-tournament weeks, teams, winners and reservations.
+    //    Existing rows belong to the default tournament.
+    `
+    CREATE TABLE tournaments (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+
+    CREATE TABLE weeks_v2 (
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('open', 'archived')),
+        PRIMARY KEY (tournament_id, week_start)
+    );
+    INSERT INTO weeks_v2 (tournament_id, week_start, status)
+        SELECT '${DEFAULT_TOURNAMENT_ID}', week_start, status FROM weeks;
+
+    CREATE TABLE teams_v2 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        utr_number TEXT NOT NULL,
+        contact_email TEXT NOT NULL,
+        contact_phone TEXT NOT NULL,
+        screenshot_hash TEXT NOT NULL,
+        registration_time TEXT NOT NULL,
+        data TEXT NOT NULL,
+        FOREIGN KEY (tournament_id, week_start) REFERENCES weeks (tournament_id, week_start)
+    );
+    INSERT INTO teams_v2 (id, tournament_id, week_start, utr_number, contact_email, contact_phone, screenshot_hash, registration_time, data)
+        SELECT id, '${DEFAULT_TOURNAMENT_ID}', week_start, utr_number, contact_email, contact_phone, screenshot_hash, registration_time, data FROM teams;
+
+    CREATE TABLE winners_v2 (
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tournament_id, week_start)
+    );
+    INSERT INTO winners_v2 (tournament_id, week_start, data)
+        SELECT '${DEFAULT_TOURNAMENT_ID}', week_start, data FROM winners;
+
+    DROP TABLE teams;
+    DROP TABLE weeks;
+    DROP TABLE winners;
+    ALTER TABLE weeks_v2 RENAME TO weeks;
+    ALTER TABLE teams_v2 RENAME TO teams;
+    ALTER TABLE winners_v2 RENAME TO winners;
+    CREATE INDEX teams_tournament_week ON teams (tournament_id, week_start);
+
+    ALTER TABLE reservations ADD COLUMN tournament_id TEXT NOT NULL DEFAULT '${DEFAULT_TOURNAMENT_ID}';
+    DROP INDEX reservations_week_start;
+    CREATE INDEX reservations_tournament_week ON reservations (tournament_id, week_start);
+    `,
+    // 3. Admin accounts.
+    `
+    CREATE TABLE admins (
+        username TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    `,
+    // 4. Waitlist.
+    `
+    CREATE TABLE waitlist (
+        id TEXT PRIMARY KEY,
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        joined_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX waitlist_tournament_week ON waitlist (tournament_id, week_start, joined_at);
+    `,
+    // 5. Player registry.
+    `
+    CREATE TABLE players (
+        id TEXT PRIMARY KEY,
+        banned INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+    );
+    `,
+    // 6. Match results.
+    `
+    CREATE TABLE match_results (
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        match_number INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tournament_id, week_start, match_number)
+    );
+    `,
+    // 7. Stages and lobbies. Existing results belong to the single default lobby.
+    `
+    CREATE TABLE lobbies (
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        stage_id TEXT NOT NULL,
+        lobby INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tournament_id, week_start, stage_id, lobby)
+    );
+
+    CREATE TABLE match_results_v2 (
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        stage_id TEXT NOT NULL,
+        lobby INTEGER NOT NULL,
+        match_number INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tournament_id, week_start, stage_id, lobby, match_number)
+    );
+    INSERT INTO match_results_v2 (tournament_id, week_start, stage_id, lobby, match_number, data)
+        SELECT tournament_id, week_start, '${DEFAULT_STAGE_ID}', 1, match_number,
+            json_set(data, '$.stageId', '${DEFAULT_STAGE_ID}', '$.lobby', 1)
+        FROM match_results;
+    DROP TABLE match_results;
+    ALTER TABLE match_results_v2 RENAME TO match_results;
+    `,
+    // 8. Room details.
+    `
+    CREATE TABLE rooms (
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        stage_id TEXT NOT NULL,
+        lobby INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tournament_id, week_start, stage_id, lobby)
+    );
+    `,
+    // 9. Prize and refund payouts.
+    `
+    CREATE TABLE payouts (
+        id TEXT PRIMARY KEY,
+        tournament_id TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        paid_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX payouts_tournament_paid_at ON payouts (tournament_id, paid_at);
+    `,
+    // 10. Payment intents.
+    `
+    CREATE TABLE payment_intents (
+        tournament_id TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        week_start TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tournament_id, reference)
+    );
+    CREATE INDEX payment_intents_tournament_week ON payment_intents (tournament_id, week_start);
+    `,
+    // 11. Email outbox.
+    `
+    CREATE TABLE outbox (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'dead')),
+        next_attempt_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX outbox_due ON outbox (status, next_attempt_at);
+    CREATE INDEX outbox_created_at ON outbox (created_at);
+    `,
+    // 12. WhatsApp and SMS messages.
+    `
+    CREATE TABLE phone_messages (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'dead')),
+        next_attempt_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX phone_messages_due ON phone_messages (status, next_attempt_at);
+    CREATE INDEX phone_messages_created_at ON phone_messages (created_at);
+    `,
+    // 13. One-time codes for email and phone verification.
+    `
+    CREATE TABLE contact_codes (
+        kind TEXT NOT NULL CHECK (kind IN ('email', 'phone')),
+        contact TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (kind, contact)
+    );
+    `,
+    // 14. Rate limits and the log of rejected attempts.
+    `
+    CREATE TABLE rate_limits (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE rejected_attempts (
+        id TEXT PRIMARY KEY,
+        at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX rejected_attempts_at ON rejected_attempts (at);
+    `,
+    // 15. Expiry of rate limit buckets, so that stale ones can be deleted. Existing
+    //     buckets are kept for the longest window, a week.
+    `
+    ALTER TABLE rate_limits ADD COLUMN expires_at TEXT NOT NULL DEFAULT '';
+    UPDATE rate_limits SET expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+7 days');
+    CREATE INDEX rate_limits_expires_at ON rate_limits (expires_at);
+    `,
+    // 16. Close the weeks left open when a later week started, which happened when they had no teams.
+    `
+    UPDATE weeks SET status = 'archived'
+    WHERE status = 'open'
+      AND week_start < (SELECT MAX(w.week_start) FROM weeks w WHERE w.tournament_id = weeks.tournament_id AND w.status = 'open');
+    `,
+];
+
+function migrate(db: Database.Database) {
+    const applied = db.pragma('user_version', { simple: true }) as number;
+    MIGRATIONS.slice(applied).forEach((sql, index) => {
+        db.transaction(() => {
+            db.exec(sql);
+            db.pragma(`user_version = ${applied + index + 1}`);
+        })();
+    });
+}
+
+/**
+ * Stores everything in an embedded SQLite database at `dbPath`.
+ */
+export function createSqliteDataStore(dbPath: string): DataStore {
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    const db = new Database(dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    // Migrations rebuild tables, so foreign keys are only enforced once they have run.
+    db.pragma('foreign_keys = OFF');
+    migrate(db);
+    db.pragma('foreign_keys = ON');
+
+    // A single connection is shared, so async callbacks must not interleave their statements.
+    const runExclusive = createMutex();
+
+    function createTournamentScope(tournamentId: string): TournamentScope {
+        function listTeamRows(weekStart: string): { rowId: number; team: TeamRegistrationData }[] {
+            const rows = db
+                .prepare('SELECT id, data FROM teams WHERE tournament_id = ? AND week_start = ? ORDER BY id')
+                .all(tournamentId, weekStart) as { id: number; data: string }[];
+            return rows.map(row => ({ rowId: row.id, team: normaliseTeam(JSON.parse(row.data)) }));
+        }
+
+        function listTeams(weekStart: string): TeamRegistrationData[] {
+            return listTeamRows(weekStart).map(row => row.team);
+        }
+
+        function insertTeam(weekStart: string, team: TeamRegistrationData) {
+            db.prepare(`
+                INSERT INTO teams (tournament_id, week_start, utr_number, contact_email, contact_phone, screenshot_hash, registration_time, data)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                tournamentId,
+                weekStart,
+                team.utrNumber,
+                team.contactEmail,
+                team.contactPhone,
+                team.screenshotHash,
+                team.registrationTime,
+                JSON.stringify(team),
+            );
+        }
+
+        return {
+            weeks: {
+                async getCurrent() {
+                    const row = db
+                        .prepare(`SELECT week_start FROM weeks WHERE tournament_id = ? AND status = 'open' ORDER BY week_start DESC LIMIT 1`)
+                        .get(tournamentId) as { week_start: string } | undefined;
+                    if (!row) return null;
+                    return {
+                        registrationWeekStart: row.week_start,
+                        registeredTeamsCount: listTeams(row.week_start).filter(holdsSlot).length,
+                    };
+                },
+                async startWeek(registrationWeekStart) {
+                    // Close the previous week even if it had no teams to archive, so it can't take registrations.
+                    db.prepare(`UPDATE weeks SET status = 'archived' WHERE tournament_id = ? AND status = 'open' AND week_start <> ?`)
+                        .run(tournamentId, registrationWeekStart);
+                    db.prepare(`INSERT OR IGNORE INTO weeks (tournament_id, week_start, status) VALUES (?, ?, 'open')`)
+                        .run(tournamentId, registrationWeekStart);
+                    return { registrationWeekStart, registeredTeamsCount: 0 };
+                },
+            },
+            teams: {
+                async listByWeek(registrationWeekStart) {
+                    return listTeams(registrationWeekStart);
+                },
+                async add(registrationWeekStart, team) {
+                    const week = db
+                        .prepare('SELECT status FROM weeks WHERE tournament_id = ? AND week_start = ?')
+                        .get(tournamentId, registrationWeekStart) as { status: string } | undefined;
+                    if (week?.status !== 'open') {
+                        throw new Error(`Registration week ${registrationWeekStart} is not open.`);
+                    }
+                    insertTeam(registrationWeekStart, team);
+                },
+                async update(registrationWeekStart, team) {
+                    const row = listTeamRows(registrationWeekStart).find(r => r.team.id === team.id);
+                    if (!row) {
+                        throw new Error(`Team ${team.id} is not registered in week ${registrationWeekStart}.`);
+                    }
+                    db.prepare('UPDATE teams SET data = ? WHERE id = ?').run(JSON.stringify(team), row.rowId);
+                },
+            },
+            archives: {
+                async list() {
+                    const weeks = db
+                        .prepare(`SELECT week_start FROM weeks WHERE tournament_id = ? AND status = 'archived' ORDER BY week_start DESC`)
+                        .all(tournamentId) as { week_start: string }[];
+                    // A week closed without teams has nothing archived, as with the JSON files.
+                    return weeks
+                        .map((w): WeeklyData => ({ registrationWeekStart: w.week_start, teams: listTeams(w.week_start) }))
+                        .filter(w => w.teams.length > 0);
+                },
+                async save(weeklyData) {
+                    const weekStart = weeklyData.registrationWeekStart;
+                    db.prepare(`
+                        INSERT INTO weeks (tournament_id, week_start, status) VALUES (?, ?, 'archived')
+                        ON CONFLICT (tournament_id, week_start) DO UPDATE SET status = 'archived'
+                    `).run(tournamentId, weekStart);
+                    // Replace rather than append so that re-importing a week is idempotent.
+                    db.prepare('DELETE FROM teams WHERE tournament_id = ? AND week_start = ?').run(tournamentId, weekStart);
+                    weeklyData.teams.forEach(team => insertTeam(weekStart, team));
+                },
+            },
+            winners: {
+                async list() {
+                    const rows = db
+                        .prepare('SELECT data FROM winners WHERE tournament_id = ? ORDER BY week_start DESC')
+                        .all(tournamentId) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as WeeklyWinner);
+                },
+                async save(record) {
+                    db.prepare(`
+                        INSERT INTO winners (tournament_id, week_start, data) VALUES (?, ?, ?)
+                        ON CONFLICT (tournament_id, week_start) DO UPDATE SET data = excluded.data
+                    `).run(tournamentId, record.weekStart, JSON.stringify(record));
+                },
+            },
+            reservations: {
+                async listByWeek(registrationWeekStart) {
+                    const rows = db
+                        .prepare('SELECT data FROM reservations WHERE tournament_id = ? AND week_start = ? ORDER BY expires_at')
+                        .all(tournamentId, registrationWeekStart) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as SlotReservation);
+                },
+                async get(id) {
+                    const row = db
+                        .prepare('SELECT data FROM reservations WHERE tournament_id = ? AND id = ?')
+                        .get(tournamentId, id) as { data: string } | undefined;
+                    return row ? (JSON.parse(row.data) as SlotReservation) : null;
+                },
+                async add(reservation) {
+                    db.prepare('INSERT INTO reservations (id, tournament_id, week_start, expires_at, data) VALUES (?, ?, ?, ?, ?)').run(
+                        reservation.id,
+                        tournamentId,
+                        reservation.registrationWeekStart,
+                        reservation.expiresAt,
+                        JSON.stringify(reservation),
+                    );
+                },
+                async remove(id) {
+                    db.prepare('DELETE FROM reservations WHERE tournament_id = ? AND id = ?').run(tournamentId, id);
+                },
+                async removeExpired(now) {
+                    const rows = db
+                        .prepare('DELETE FROM reservations WHERE tournament_id = ? AND expires_at <= ? RETURNING data')
+                        .all(tournamentId, now) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as SlotReservation);
+                },
+            },
+            paymentIntents: {
+                async listByWeek(weekStart) {
+                    const rows = db
+                        .prepare('SELECT data FROM payment_intents WHERE tournament_id = ? AND week_start = ? ORDER BY created_at')
+                        .all(tournamentId, weekStart) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as PaymentIntent);
+                },
+                async get(reference) {
+                    const row = db
+                        .prepare('SELECT data FROM payment_intents WHERE tournament_id = ? AND reference = ?')
+                        .get(tournamentId, reference) as { data: string } | undefined;
+                    return row ? (JSON.parse(row.data) as PaymentIntent) : null;
+                },
+                async add(intent) {
+                    db.prepare('INSERT INTO payment_intents (tournament_id, reference, week_start, created_at, data) VALUES (?, ?, ?, ?, ?)')
+                        .run(tournamentId, intent.reference, intent.registrationWeekStart, intent.createdAt, JSON.stringify(intent));
+                },
+            },
+            waitlist: {
+                async listByWeek(registrationWeekStart) {
+                    const rows = db
+                        .prepare('SELECT data FROM waitlist WHERE tournament_id = ? AND week_start = ? ORDER BY joined_at')
+                        .all(tournamentId, registrationWeekStart) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as WaitlistEntry);
+                },
+                async get(id) {
+                    const row = db
+                        .prepare('SELECT data FROM waitlist WHERE tournament_id = ? AND id = ?')
+                        .get(tournamentId, id) as { data: string } | undefined;
+                    return row ? (JSON.parse(row.data) as WaitlistEntry) : null;
+                },
+                async add(entry) {
+                    db.prepare('INSERT INTO waitlist (id, tournament_id, week_start, joined_at, data) VALUES (?, ?, ?, ?, ?)').run(
+                        entry.id,
+                        tournamentId,
+                        entry.registrationWeekStart,
+                        entry.joinedAt,
+                        JSON.stringify(entry),
+                    );
+                },
+                async update(entry) {
+                    const { changes } = db
+                        .prepare('UPDATE waitlist SET data = ? WHERE tournament_id = ? AND id = ?')
+                        .run(JSON.stringify(entry), tournamentId, entry.id);
+                    if (changes === 0) {
+                        throw new Error(`Waitlist entry ${entry.id} does not exist.`);
+                    }
+                },
+            },
+            results: {
+                async listByWeek(registrationWeekStart) {
+                    const rows = db
+                        .prepare('SELECT data FROM match_results WHERE tournament_id = ? AND week_start = ? ORDER BY match_number')
+                        .all(tournamentId, registrationWeekStart) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as MatchResult);
+                },
+                async save(result) {
+                    db.prepare(`
+                        INSERT INTO match_results (tournament_id, week_start, stage_id, lobby, match_number, data) VALUES (?, ?, ?, ?, ?, ?)
+                        ON CONFLICT (tournament_id, week_start, stage_id, lobby, match_number) DO UPDATE SET data = excluded.data
+                    `).run(tournamentId, result.registrationWeekStart, result.stageId, result.lobby, result.matchNumber, JSON.stringify(result));
+                },
+                async remove(registrationWeekStart, stageId, lobby, matchNumber) {
+                    db.prepare('DELETE FROM match_results WHERE tournament_id = ? AND week_start = ? AND stage_id = ? AND lobby = ? AND match_number = ?')
+                        .run(tournamentId, registrationWeekStart, stageId, lobby, matchNumber);
+                },
+            },
+            lobbies: {
+                async listByWeek(registrationWeekStart) {
+                    const rows = db
+                        .prepare('SELECT data FROM lobbies WHERE tournament_id = ? AND week_start = ? ORDER BY stage_id, lobby')
+                        .all(tournamentId, registrationWeekStart) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as LobbyAssignment);
+                },
+                async save(assignment) {
+                    db.prepare(`
+                        INSERT INTO lobbies (tournament_id, week_start, stage_id, lobby, data) VALUES (?, ?, ?, ?, ?)
+                        ON CONFLICT (tournament_id, week_start, stage_id, lobby) DO UPDATE SET data = excluded.data
+                    `).run(tournamentId, assignment.registrationWeekStart, assignment.stageId, assignment.lobby, JSON.stringify(assignment));
+                },
+                async remove(registrationWeekStart, stageId, lobby) {
+                    db.prepare('DELETE FROM lobbies WHERE tournament_id = ? AND week_start = ? AND stage_id = ? AND lobby = ?')
+                        .run(tournamentId, registrationWeekStart, stageId, lobby);
+                },
+            },
+            rooms: {
+                async listByWeek(registrationWeekStart) {
+                    const rows = db
+                        .prepare('SELECT data FROM rooms WHERE tournament_id = ? AND week_start = ? ORDER BY stage_id, lobby')
+                        .all(tournamentId, registrationWeekStart) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as RoomDetails);
+                },
+                async save(room) {
+                    db.prepare(`
+                        INSERT INTO rooms (tournament_id, week_start, stage_id, lobby, data) VALUES (?, ?, ?, ?, ?)
+                        ON CONFLICT (tournament_id, week_start, stage_id, lobby) DO UPDATE SET data = excluded.data
+                    `).run(tournamentId, room.registrationWeekStart, room.stageId, room.lobby, JSON.stringify(room));
+                },
+            },
+            payouts: {
+                async list() {
+                    const rows = db
+                        .prepare('SELECT data FROM payouts WHERE tournament_id = ? ORDER BY paid_at')
+                        .all(tournamentId) as { data: string }[];
+                    return rows.map(row => JSON.parse(row.data) as Payout);
+                },
+                async add(payout) {
+                    db.prepare('INSERT INTO payouts (id, tournament_id, week_start, paid_at, data) VALUES (?, ?, ?, ?, ?)')
+                        .run(payout.id, tournamentId, payout.registrationWeekStart, payout.paidAt, JSON.stringify(payout));
+                },
+            },
+        };
+    }
+
+    const repository: Repository = {
+        tournaments: {
+            async list() {
+                const rows = db.prepare('SELECT data FROM tournaments ORDER BY id').all() as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as Tournament);
+            },
+            async get(id) {
+                const row = db.prepare('SELECT data FROM tournaments WHERE id = ?').get(id) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as Tournament) : null;
+            },
+            async save(tournament) {
+                db.prepare(`
+                    INSERT INTO tournaments (id, data) VALUES (?, ?)
+                    ON CONFLICT (id) DO UPDATE SET data = excluded.data
+                `).run(tournament.id, JSON.stringify(tournament));
+            },
+        },
+        admins: {
+            async list() {
+                const rows = db.prepare('SELECT data FROM admins ORDER BY username').all() as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as AdminUser);
+            },
+            async get(username) {
+                const row = db.prepare('SELECT data FROM admins WHERE username = ?').get(username) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as AdminUser) : null;
+            },
+            async save(admin) {
+                db.prepare(`
+                    INSERT INTO admins (username, data) VALUES (?, ?)
+                    ON CONFLICT (username) DO UPDATE SET data = excluded.data
+                `).run(admin.username, JSON.stringify(admin));
+            },
+            async remove(username) {
+                db.prepare('DELETE FROM admins WHERE username = ?').run(username);
+            },
+        },
+        players: {
+            async list() {
+                const rows = db.prepare('SELECT data FROM players ORDER BY id').all() as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as PlayerRecord);
+            },
+            async get(id) {
+                const row = db.prepare('SELECT data FROM players WHERE id = ?').get(id) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as PlayerRecord) : null;
+            },
+            async getMany(ids) {
+                if (ids.length === 0) return [];
+                const rows = db
+                    .prepare(`SELECT data FROM players WHERE id IN (${ids.map(() => '?').join(', ')})`)
+                    .all(...ids) as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as PlayerRecord);
+            },
+            async listBanned() {
+                const rows = db.prepare('SELECT data FROM players WHERE banned = 1 ORDER BY id').all() as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as PlayerRecord);
+            },
+            async save(record) {
+                db.prepare(`
+                    INSERT INTO players (id, banned, data) VALUES (?, ?, ?)
+                    ON CONFLICT (id) DO UPDATE SET banned = excluded.banned, data = excluded.data
+                `).run(record.id, record.ban ? 1 : 0, JSON.stringify(record));
+            },
+        },
+        outbox: {
+            async get(id) {
+                const row = db.prepare('SELECT data FROM outbox WHERE id = ?').get(id) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as OutboxMessage) : null;
+            },
+            async list(status, limit) {
+                const rows = db
+                    .prepare(`SELECT data FROM outbox ${status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC LIMIT ?`)
+                    .all(...(status ? [status] : []), limit ?? -1) as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as OutboxMessage);
+            },
+            async listDue(now, limit) {
+                const rows = db
+                    .prepare("SELECT data FROM outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?")
+                    .all(now, limit) as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as OutboxMessage);
+            },
+            async add(message) {
+                db.prepare('INSERT INTO outbox (id, status, next_attempt_at, created_at, data) VALUES (?, ?, ?, ?, ?)')
+                    .run(message.id, message.status, message.nextAttemptAt, message.createdAt, JSON.stringify(message));
+            },
+            async update(message) {
+                db.prepare('UPDATE outbox SET status = ?, next_attempt_at = ?, data = ? WHERE id = ?')
+                    .run(message.status, message.nextAttemptAt, JSON.stringify(message), message.id);
+            },
+        },
+        phoneMessages: {
+            async get(id) {
+                const row = db.prepare('SELECT data FROM phone_messages WHERE id = ?').get(id) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as PhoneMessage) : null;
+            },
+            async list(status, limit) {
+                const rows = db
+                    .prepare(`SELECT data FROM phone_messages ${status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC LIMIT ?`)
+                    .all(...(status ? [status] : []), limit ?? -1) as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as PhoneMessage);
+            },
+            async listDue(now, limit) {
+                const rows = db
+                    .prepare("SELECT data FROM phone_messages WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?")
+                    .all(now, limit) as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as PhoneMessage);
+            },
+            async add(message) {
+                db.prepare('INSERT INTO phone_messages (id, status, next_attempt_at, created_at, data) VALUES (?, ?, ?, ?, ?)')
+                    .run(message.id, message.status, message.nextAttemptAt, message.createdAt, JSON.stringify(message));
+            },
+            async update(message) {
+                db.prepare('UPDATE phone_messages SET status = ?, next_attempt_at = ?, data = ? WHERE id = ?')
+                    .run(message.status, message.nextAttemptAt, JSON.stringify(message), message.id);
+            },
+        },
+        contactCodes: {
+            async list() {
+                const rows = db.prepare('SELECT data FROM contact_codes').all() as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as ContactCode);
+            },
+            async get(kind, contact) {
+                const row = db.prepare('SELECT data FROM contact_codes WHERE kind = ? AND contact = ?').get(kind, contact) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as ContactCode) : null;
+            },
+            async save(record) {
+                db.prepare(`
+                    INSERT INTO contact_codes (kind, contact, data) VALUES (?, ?, ?)
+                    ON CONFLICT (kind, contact) DO UPDATE SET data = excluded.data
+                `).run(record.kind, record.contact, JSON.stringify(record));
+            },
+        },
+        rateLimits: {
+            async list() {
+                const rows = db.prepare('SELECT data FROM rate_limits').all() as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as RateLimitBucket);
+            },
+            async get(key) {
+                const row = db.prepare('SELECT data FROM rate_limits WHERE key = ?').get(key) as { data: string } | undefined;
+                return row ? (JSON.parse(row.data) as RateLimitBucket) : null;
+            },
+            async save(bucket) {
+                // Buckets with no hits left are dropped rather than kept empty.
+                if (bucket.hits.length === 0) {
+                    db.prepare('DELETE FROM rate_limits WHERE key = ?').run(bucket.key);
+                    return;
+                }
+                db.prepare(`
+                    INSERT INTO rate_limits (key, expires_at, data) VALUES (?, ?, ?)
+                    ON CONFLICT (key) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data
+                `).run(bucket.key, bucket.expiresAt ?? '', JSON.stringify(bucket));
+            },
+            async removeExpired(now) {
+                db.prepare('DELETE FROM rate_limits WHERE expires_at <= ?').run(now);
+            },
+        },
+        rejectedAttempts: {
+            async list(limit) {
+                const rows = db.prepare('SELECT data FROM rejected_attempts ORDER BY at DESC LIMIT ?').all(limit ?? -1) as { data: string }[];
+                return rows.map(row => JSON.parse(row.data) as RejectedAttempt);
+            },
+            async add(attempt) {
+                db.prepare('INSERT INTO rejected_attempts (id, at, data) VALUES (?, ?, ?)')
+                    .run(attempt.id, attempt.at, JSON.stringify(attempt));
+            },
+        },
+        forTournament(tournamentId) {
+            return createTournamentScope(tournamentId);
+        },
+    };
+
+    return {
+        kind: 'sqlite',
+        transaction(fn) {
+            return runExclusive(async () => {
+                // IMMEDIATE takes the write lock up front, so other processes wait rather than fail on commit.
+                db.exec('BEGIN IMMEDIATE');
+                try {
+                    const result = await fn(repository);
+                    db.exec('COMMIT');
+                    return result;
+                } catch (error) {
+                    db.exec('ROLLBACK');
+                    throw error;
+                }
+            });
+        },
+        async close() {
+            db.close();
+        },
+    };
+}
@@ -0,0 +1,250 @@
+import type { AdminUser, ContactCode, ContactKind, LobbyAssignment, MatchResult, OutboxMessage, OutboxStatus, PaymentIntent, Payout, PhoneMessage, PlayerRecord, RateLimitBucket, RegistrationState, RejectedAttempt, RoomDetails, SlotReservation, TeamRegistrationData, Tournament, WaitlistEntry, WeeklyData, WeeklyWinner } from '@/lib/types';
+
+// --- Storage Interface ---
+
+/**
+ * The live registration week. Only one week is open for registrations at a time.
+ */
+export interface WeekStore {
+    getCurrent(): Promise<RegistrationState | null>;
+    /** Opens a new registration week with no teams and closes the previous one. */
+    startWeek(registrationWeekStart: string): Promise<RegistrationState>;
+}
+
+/**
+ * Teams registered for a given week, including pending and rejected registrations.
+ */
+export interface TeamStore {
+    listByWeek(registrationWeekStart: string): Promise<TeamRegistrationData[]>;
+    add(registrationWeekStart: string, team: TeamRegistrationData): Promise<void>;
+    /** Replaces the team with the same id, in the open week or an archived one. */
+    update(registrationWeekStart: string, team: TeamRegistrationData): Promise<void>;
+}
+
+/**
+ * Completed weeks, kept for the admin history.
+ */
+export interface ArchiveStore {
+    /** Most recent week first. */
+    list(): Promise<WeeklyData[]>;
+    save(weeklyData: WeeklyData): Promise<void>;
+}
+
+/**
+ * Winners recorded per week.
+ */
+export interface WinnerStore {
+    /** Most recent week first. */
+    list(): Promise<WeeklyWinner[]>;
+    /** Saves the record, replacing any existing record for the same week. */
+    save(record: WeeklyWinner): Promise<void>;
+}
+
+/**
+ * Slots held by registrations that are still being verified.
+ */
+export interface ReservationStore {
+    /** Includes expired reservations that have not been purged yet. */
+    listByWeek(registrationWeekStart: string): Promise<SlotReservation[]>;
+    get(id: string): Promise<SlotReservation | null>;
+    add(reservation: SlotReservation): Promise<void>;
+    remove(id: string): Promise<void>;
+    /** Deletes every reservation that expired at or before `now`, returning them. */
+    removeExpired(now: string): Promise<SlotReservation[]>;
+}
+
+/**
+ * Payment references handed out to teams about to pay.
+ */
+export interface PaymentIntentStore {
+    /** Oldest first. */
+    listByWeek(registrationWeekStart: string): Promise<PaymentIntent[]>;
+    get(reference: string): Promise<PaymentIntent | null>;
+    add(intent: PaymentIntent): Promise<void>;
+}
+
+/**
+ * Match results entered by admins.
+ */
+export interface ResultStore {
+    /** Every stage and lobby, in match order. */
+    listByWeek(registrationWeekStart: string): Promise<MatchResult[]>;
+    /** Saves the result, replacing any existing result for the same week, stage, lobby and match number. */
+    save(result: MatchResult): Promise<void>;
+    remove(registrationWeekStart: string, stageId: string, lobby: number, matchNumber: number): Promise<void>;
+}
+
+/**
+ * Which teams play in which lobby of each stage.
+ */
+export interface LobbyStore {
+    listByWeek(registrationWeekStart: string): Promise<LobbyAssignment[]>;
+    /** Saves the assignment, replacing any existing one for the same week, stage and lobby. */
+    save(assignment: LobbyAssignment): Promise<void>;
+    remove(registrationWeekStart: string, stageId: string, lobby: number): Promise<void>;
+}
+
+/**
+ * Prizes and refunds paid out.
+ */
+export interface PayoutStore {
+    /** Oldest first. */
+    list(): Promise<Payout[]>;
+    add(payout: Payout): Promise<void>;
+}
+
+/**
+ * Room IDs and passwords for each lobby.
+ */
+export interface RoomStore {
+    listByWeek(registrationWeekStart: string): Promise<RoomDetails[]>;
+    /** Saves the room, replacing any existing one for the same week, stage and lobby. */
+    save(room: RoomDetails): Promise<void>;
+}
+
+/**
+ * Teams waiting for a slot in a full week.
+ */
+export interface WaitlistStore {
+    /** In the order the teams joined. */
+    listByWeek(registrationWeekStart: string): Promise<WaitlistEntry[]>;
+    get(id: string): Promise<WaitlistEntry | null>;
+    add(entry: WaitlistEntry): Promise<void>;
+    /** Replaces the entry with the same id. */
+    update(entry: WaitlistEntry): Promise<void>;
+}
+
+/**
+ * Stored tournament definitions. Built-in definitions live in `@/lib/tournaments`.
+ */
+export interface TournamentStore {
+    list(): Promise<Tournament[]>;
+    get(id: string): Promise<Tournament | null>;
+    save(tournament: Tournament): Promise<void>;
+}
+
+/**
+ * Admin accounts. Usernames are stored lower-case.
+ */
+export interface AdminStore {
+    list(): Promise<AdminUser[]>;
+    get(username: string): Promise<AdminUser | null>;
+    /** Saves the account, replacing any existing account with the same username. */
+    save(admin: AdminUser): Promise<void>;
+    remove(username: string): Promise<void>;
+}
+
+/**
+ * The player registry, shared by all tournaments.
+ */
+export interface PlayerStore {
+    list(): Promise<PlayerRecord[]>;
+    get(id: string): Promise<PlayerRecord | null>;
+    /** Records for the given ids that exist; unknown ids are left out. */
+    getMany(ids: string[]): Promise<PlayerRecord[]>;
+    listBanned(): Promise<PlayerRecord[]>;
+    /** Saves the record, replacing any existing record with the same id. */
+    save(record: PlayerRecord): Promise<void>;
+}
+
+/**
+ * Emails waiting to be sent, sent, or given up on, shared by all tournaments.
+ */
+export interface OutboxStore {
+    get(id: string): Promise<OutboxMessage | null>;
+    /** Most recent first, optionally only those with the given status. */
+    list(status?: OutboxStatus, limit?: number): Promise<OutboxMessage[]>;
+    /** Pending messages whose next attempt is at or before `now`, oldest first. */
+    listDue(now: string, limit: number): Promise<OutboxMessage[]>;
+    add(message: OutboxMessage): Promise<void>;
+    /** Replaces the message with the same id. */
+    update(message: OutboxMessage): Promise<void>;
+}
+
+/**
+ * WhatsApp and SMS messages waiting to be sent, sent, or given up on, shared by all
+ * tournaments.
+ */
+export interface PhoneMessageStore {
+    get(id: string): Promise<PhoneMessage | null>;
+    /** Most recent first, optionally only those with the given status. */
+    list(status?: OutboxStatus, limit?: number): Promise<PhoneMessage[]>;
+    /** Pending messages whose next attempt is at or before `now`, oldest first. */
+    listDue(now: string, limit: number): Promise<PhoneMessage[]>;
+    add(message: PhoneMessage): Promise<void>;
+    /** Replaces the message with the same id. */
+    update(message: PhoneMessage): Promise<void>;
+}
+
+/**
+ * One-time codes sent to prove ownership of an email address or phone number,
+ * shared by all tournaments.
+ */
+export interface ContactCodeStore {
+    list(): Promise<ContactCode[]>;
+    get(kind: ContactKind, contact: string): Promise<ContactCode | null>;
+    /** Saves the record, replacing any existing record for the same contact. */
+    save(record: ContactCode): Promise<void>;
+}
+
+/**
+ * Hits on rate limit keys, for limits that must hold across restarts and servers.
+ */
+export interface RateLimitStore {
+    list(): Promise<RateLimitBucket[]>;
+    get(key: string): Promise<RateLimitBucket | null>;
+    /** Saves the bucket, replacing any existing bucket with the same key. */
+    save(bucket: RateLimitBucket): Promise<void>;
+    /** Deletes the buckets that expired at or before `now`. */
+    removeExpired(now: string): Promise<void>;
+}
+
+/**
+ * Requests turned away by the abuse protection.
+ */
+export interface RejectedAttemptStore {
+    /** Most recent first. */
+    list(limit?: number): Promise<RejectedAttempt[]>;
+    add(attempt: RejectedAttempt): Promise<void>;
+}
+
+/**
+ * Data belonging to one tournament. Every tournament keeps its own weeks,
+ * registrations and winners.
+ */
+export interface TournamentScope {
+    weeks: WeekStore;
+    teams: TeamStore;
+    archives: ArchiveStore;
+    winners: WinnerStore;
+    reservations: ReservationStore;
+    paymentIntents: PaymentIntentStore;
+    waitlist: WaitlistStore;
+    results: ResultStore;
+    lobbies: LobbyStore;
+    rooms: RoomStore;
+    payouts: PayoutStore;
+}
+
+export interface Repository {
+    tournaments: TournamentStore;
+    admins: AdminStore;
+    players: PlayerStore;
+    outbox: OutboxStore;
+    phoneMessages: PhoneMessageStore;
+    contactCodes: ContactCodeStore;
+    rateLimits: RateLimitStore;
+    rejectedAttempts: RejectedAttemptStore;
+    forTournament(tournamentId: string): TournamentScope;
+}
+
+/**
+ * A storage backend. Every read and write goes through `transaction`, which runs
+ * the callback with exclusive access and commits all of its writes together, or
+ * none of them if the callback throws.
+ */
+export interface DataStore {
+    readonly kind: 'json' | 'sqlite';
+    transaction<T>(fn: (repo: Repository) => Promise<T>): Promise<T>;
+    close(): Promise<void>;
+}
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { normalisePlayerId } from '@/lib/players';
+import { claimsDetails, holdsSlot } from '@/lib/registrations';
+import type { TournamentScope } from '@/lib/repository';
+import type { SlotReservation, TeamRegistrationData } from '@/lib/types';
+
+// --- Slot Reservations ---
+
+/**
+ * How long a slot is held while a registration's payment is being verified.
+ * Verification normally takes well under a minute; anything left after this is abandoned.
+ */
+export const RESERVATION_TTL_MS = 5 * 60 * 1000;
+
+type UniqueFields = Pick<TeamRegistrationData, 'utrNumber' | 'contactEmail' | 'contactPhone' | 'screenshotHash' | 'paymentReference'> & { playerIds?: string[] };
+
+function playerIdsOf(entry: UniqueFields | TeamRegistrationData): string[] {
+    const ids = 'players' in entry ? entry.players.map(p => p.id) : entry.playerIds ?? [];
+    return ids.map(normalisePlayerId);
+}
+
+/**
+ * Returns an error message if the candidate clashes with a registered team or a held slot.
+ * Callers leave rejected registrations out (see `claimsDetails`), so a team can try
+ * again after a rejection.
+ */
+export function findDuplicateRegistration(existing: (UniqueFields | TeamRegistrationData)[], candidate: UniqueFields): string | null {
+    const normalise = (value: string) => value.trim().toLowerCase();
+
+    if (existing.some(other => normalise(other.utrNumber) === normalise(candidate.utrNumber))) {
+        return 'This UTR number has already been used this week.';
+    }
+    if (existing.some(other => normalise(other.contactEmail) === normalise(candidate.contactEmail))) {
+        return 'This email has already been used this week.';
+    }
+    if (existing.some(other => other.contactPhone.trim() === candidate.contactPhone.trim())) {
+        return 'This phone number has already been used this week.';
+    }
+    if (existing.some(other => other.screenshotHash === candidate.screenshotHash)) {
+        return 'This payment screenshot has already been used this week.';
+    }
+    if (candidate.paymentReference && existing.some(other => other.paymentReference === candidate.paymentReference)) {
+        return 'This payment reference has already been used. Please start a new payment.';
+    }
+    const taken = new Set(existing.flatMap(playerIdsOf));
+    const clash = (candidate.playerIds ?? []).find(id => taken.has(normalisePlayerId(id)));
+    if (clash) {
+        return `Player ${clash.trim()} is already registered with another team this week.`;
+    }
+    return null;
+}
+
+/**
+ * Reservations for the week that have not expired yet.
+ */
+export async function listActiveReservations(scope: TournamentScope, registrationWeekStart: string, now: Date) {
+    const reservations = await scope.reservations.listByWeek(registrationWeekStart);
+    return reservations.filter(r => new Date(r.expiresAt) > now);
+}
+
+/**
+ * Drops reservations whose registrations were abandoned (the request died or timed out).
+ */
+export async function releaseExpiredReservations(scope: TournamentScope, now: Date) {
+    const expired = await scope.reservations.removeExpired(now.toISOString());
+    expired.forEach(r => console.log(`Released abandoned slot reservation ${r.id} (UTR ${r.utrNumber})`));
+}
+
+/**
+ * Holds a slot for a registration before its payment is verified.
+ * Must be called inside a transaction.
+ */
+export async function reserveSlot(
+    scope: TournamentScope,
+    params: { registrationWeekStart: string; totalSlots: number; candidate: UniqueFields; now: Date }
+): Promise<{ reservation: SlotReservation; error?: undefined } | { error: string }> {
+    const { registrationWeekStart, totalSlots, candidate, now } = params;
+    await releaseExpiredReservations(scope, now);
+
+    const teams = await scope.teams.listByWeek(registrationWeekStart);
+    const held = await listActiveReservations(scope, registrationWeekStart, now);
+
+    if (teams.filter(holdsSlot).length + held.length >= totalSlots) {
+        return { error: 'All slots are currently taken. Please check back next week.' };
+    }
+    const duplicate = findDuplicateRegistration([...teams.filter(claimsDetails), ...held], candidate);
+    if (duplicate) return { error: duplicate };
+
+    const reservation: SlotReservation = {
+        id: crypto.randomUUID(),
+        registrationWeekStart,
+        utrNumber: candidate.utrNumber,
+        contactEmail: candidate.contactEmail,
+        contactPhone: candidate.contactPhone,
+        screenshotHash: candidate.screenshotHash,
+        playerIds: candidate.playerIds,
+        paymentReference: candidate.paymentReference,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + RESERVATION_TTL_MS).toISOString(),
+    };
+    await scope.reservations.add(reservation);
+    return { reservation };
+}
+
+/**
+ * Turns a held slot into a registration. The slot cap and uniqueness are checked
+ * again, since the reservation may have expired and been taken by someone else.
+ * Must be called inside a transaction.
+ */
+export async function commitReservation(
+    scope: TournamentScope,
+    params: { reservation: SlotReservation; currentWeekStart: string; totalSlots: number; team: TeamRegistrationData; now: Date }
+): Promise<string | null> {
+    const { reservation, currentWeekStart, totalSlots, team, now } = params;
+    await releaseExpiredReservations(scope, now);
+
+    if (reservation.registrationWeekStart !== currentWeekStart) {
+        await scope.reservations.remove(reservation.id);
+        return 'The registration week ended while your payment was being verified. Please register again.';
+    }
+
+    const teams = await scope.teams.listByWeek(currentWeekStart);
+    const othersHeld = (await listActiveReservations(scope, currentWeekStart, now)).filter(r => r.id !== reservation.id);
+
+    if (teams.filter(holdsSlot).length + othersHeld.length >= totalSlots) {
+        return 'All slots are currently taken. Please check back next week.';
+    }
+    const duplicate = findDuplicateRegistration([...teams.filter(claimsDetails), ...othersHeld], { ...team, playerIds: team.players.map(p => p.id) });
+    if (duplicate) return duplicate;
+
+    await scope.teams.add(currentWeekStart, team);
+    await scope.reservations.remove(reservation.id);
+    return null;
+}
@@ -0,0 +1,94 @@
+import type { MatchPlacement, MatchResult, ScoringTable, Standing, TeamRegistrationData } from '@/lib/types';
+
+// --- Match Results and Standings ---
+
+/**
+ * Points a team earns in one match.
+ */
+export function matchPoints(scoring: ScoringTable, placement: number, kills: number) {
+    const placementPoints = scoring.placementPoints[placement - 1] ?? 0;
+    const killPoints = kills * scoring.pointsPerKill;
+    return { placementPoints, killPoints, totalPoints: placementPoints + killPoints };
+}
+
+/**
+ * Returns an error message if a match's placements don't fit the lobby's teams.
+ * Teams that did not show up are simply left out.
+ */
+export function validatePlacements(lobbyTeams: TeamRegistrationData[], placements: MatchPlacement[]): string | null {
+    const teamIds = new Set(lobbyTeams.map(t => t.id));
+    const seenTeams = new Set<string>();
+    const seenPlacements = new Set<number>();
+
+    if (placements.length === 0) {
+        return 'Enter at least one team\'s placement.';
+    }
+    for (const { teamId, placement, kills } of placements) {
+        if (!teamIds.has(teamId)) {
+            return `Team ${teamId} is not playing in this lobby.`;
+        }
+        if (seenTeams.has(teamId)) {
+            return 'Each team can only be entered once per match.';
+        }
+        if (!Number.isInteger(placement) || placement < 1 || placement > lobbyTeams.length) {
+            return `Placements must be between 1 and ${lobbyTeams.length}.`;
+        }
+        if (seenPlacements.has(placement)) {
+            return `Two teams cannot both finish ${placement}.`;
+        }
+        if (!Number.isInteger(kills) || kills < 0) {
+            return 'Kills must be a whole number, 0 or more.';
+        }
+        seenTeams.add(teamId);
+        seenPlacements.add(placement);
+    }
+    return null;
+}
+
+/**
+ * Builds the leaderboard from a week's results. Ties on points go to the team
+ * with more wins, then more kills, then the better placement in the latest match.
+ */
+export function computeStandings(
+    teams: TeamRegistrationData[],
+    results: MatchResult[],
+    scoring: ScoringTable
+): Standing[] {
+    const ordered = [...results].sort((a, b) => a.matchNumber - b.matchNumber);
+    const latestPlacement = new Map<string, number>();
+    const rows = teams.map(team => {
+        const row: Standing = {
+            rank: 0,
+            teamId: team.id,
+            teamName: team.teamName,
+            matchesPlayed: 0,
+            wins: 0,
+            kills: 0,
+            placementPoints: 0,
+            killPoints: 0,
+            totalPoints: 0,
+        };
+        for (const result of ordered) {
+            const entry = result.placements.find(p => p.teamId === team.id);
+            if (!entry) continue;
+            const points = matchPoints(scoring, entry.placement, entry.kills);
+            row.matchesPlayed++;
+            row.wins += entry.placement === 1 ? 1 : 0;
+            row.kills += entry.kills;
+            row.placementPoints += points.placementPoints;
+            row.killPoints += points.killPoints;
+            row.totalPoints += points.totalPoints;
+            latestPlacement.set(team.id, entry.placement);
+        }
+        return row;
+    });
+
+    rows.sort((a, b) =>
+        b.totalPoints - a.totalPoints
+        || b.wins - a.wins
+        || b.kills - a.kills
+        || (latestPlacement.get(a.teamId) ?? Infinity) - (latestPlacement.get(b.teamId) ?? Infinity)
+        || a.teamName.localeCompare(b.teamName)
+    );
+    return rows.map((row, index) => ({ ...row, rank: index + 1 }));
+}
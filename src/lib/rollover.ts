@@ -0,0 +1,122 @@
+import { getDataStore, type TournamentScope } from '@/lib/repository';
+import { releaseExpiredReservations } from '@/lib/reservations';
+import { getRegistrationWeekStart, getWeekId } from '@/lib/time';
+import { getTournament, listTournaments } from '@/lib/tournaments';
+import type { RegistrationState, Tournament } from '@/lib/types';
+import { offerFreeSlots, sendWaitlistInvite } from '@/lib/waitlist';
+
+// --- Weekly Rollover ---
+
+export type RolloverResult = {
+    tournamentId: string;
+    outcome: 'started' | 'rolled-over' | 'up-to-date';
+    weekId: string; // The week open after the run
+    archivedWeekId?: string;
+    archivedTeams?: number;
+};
+
+/**
+ * Closes the tournament's previous week if a new one has begun: archives its
+ * registrations and opens the current week. Must be called inside a transaction.
+ *
+ * Safe to run any number of times. Everything happens in the caller's transaction,
+ * so an interrupted run leaves nothing half done and the next run simply redoes it.
+ */
+export async function rolloverTournament(
+    scope: TournamentScope,
+    tournament: Tournament,
+    now: Date
+): Promise<{ result: RolloverResult; state: RegistrationState }> {
+    const timeZone = tournament.timezone;
+    const currentWeekStart = getRegistrationWeekStart(now, timeZone).toISOString();
+    const state = await scope.weeks.getCurrent();
+
+    // If no week has been started yet, create one for the current week.
+    if (!state) {
+        const newState = await scope.weeks.startWeek(currentWeekStart);
+        return {
+            result: { tournamentId: tournament.id, outcome: 'started', weekId: getWeekId(currentWeekStart, timeZone) },
+            state: newState,
+        };
+    }
+
+    if (new Date(state.registrationWeekStart).getTime() >= new Date(currentWeekStart).getTime()) {
+        return {
+            result: { tournamentId: tournament.id, outcome: 'up-to-date', weekId: getWeekId(state.registrationWeekStart, timeZone) },
+            state,
+        };
+    }
+
+    // A new week has begun. Archive the old data, then reset.
+    const teams = await scope.teams.listByWeek(state.registrationWeekStart);
+    if (teams.length > 0) {
+        await scope.archives.save({ registrationWeekStart: state.registrationWeekStart, teams });
+    }
+    await releaseExpiredReservations(scope, now);
+    const newState = await scope.weeks.startWeek(currentWeekStart);
+
+    return {
+        result: {
+            tournamentId: tournament.id,
+            outcome: 'rolled-over',
+            weekId: getWeekId(currentWeekStart, timeZone),
+            archivedWeekId: getWeekId(state.registrationWeekStart, timeZone),
+            archivedTeams: teams.length,
+        },
+        state: newState,
+    };
+}
+
+/**
+ * Logs a rollover result in a consistent format.
+ */
+export function logRolloverResult(result: RolloverResult) {
+    if (result.outcome === 'rolled-over') {
+        const archived = result.archivedTeams
+            ? `archived week ${result.archivedWeekId} (${result.archivedTeams} teams)`
+            : `closed empty week ${result.archivedWeekId} (nothing to archive)`;
+        console.log(`[rollover] ${result.tournamentId}: ${archived}; opened week ${result.weekId}`);
+    } else if (result.outcome === 'started') {
+        console.log(`[rollover] ${result.tournamentId}: opened first week ${result.weekId}`);
+    } else {
+        console.log(`[rollover] ${result.tournamentId}: week ${result.weekId} is current, nothing to do`);
+    }
+}
+
+/**
+ * Rolls over every active tournament, each in its own transaction so that one
+ * failing tournament does not hold up the others, then offers slots freed by
+ * lapsed waitlist invitations and abandoned reservations to the waitlist.
+ * Intended for the scheduled job.
+ */
+export async function rolloverAllTournaments(now: Date = new Date()): Promise<{ results: RolloverResult[]; failures: { tournamentId: string; error: string }[] }> {
+    const store = getDataStore();
+    const tournaments = (await store.transaction(repo => listTournaments(repo))).filter(t => t.active);
+    const results: RolloverResult[] = [];
+    const failures: { tournamentId: string; error: string }[] = [];
+
+    for (const { id } of tournaments) {
+        try {
+            const { result, invites, tournament } = await store.transaction(async repo => {
+                // Re-read inside the transaction in case the definition changed.
+                const tournament = await getTournament(repo, id);
+                if (!tournament) throw new Error(`Unknown tournament "${id}".`);
+                const scope = repo.forTournament(id);
+                const { result, state } = await rolloverTournament(scope, tournament, now);
+                const invites = await offerFreeSlots(scope, tournament, state.registrationWeekStart, now);
+                return { result, invites, tournament };
+            });
+            logRolloverResult(result);
+            results.push(result);
+            for (const { entry, token } of invites) {
+                console.log(`[rollover] ${id}: promoted ${entry.teamName} from the waitlist`);
+                await sendWaitlistInvite(entry, token, tournament);
+            }
+        } catch (error) {
+            console.error(`[rollover] ${id}: failed`, error);
+            failures.push({ tournamentId: id, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return { results, failures };
+}
@@ -0,0 +1,166 @@
+import { channelsFor, sendNotification } from '@/lib/notifications';
+import { getDataStore, type TournamentScope } from '@/lib/repository';
+import { loadStages } from '@/lib/stages';
+import { getTournament, listTournaments } from '@/lib/tournaments';
+import type {
+    NotificationChannel,
+    RoomDeliveryChannel,
+    RoomDetails,
+    StageState,
+    TeamRegistrationData,
+    TeamRoom,
+    Tournament,
+    WeeklyData,
+} from '@/lib/types';
+
+// --- Room Details ---
+
+/**
+ * When a lobby's room is released unless an admin picks a time: as long before the
+ * lobby starts as the match format's room details time is before its start time.
+ */
+export function defaultRoomRelease(tournament: Tournament, lobbyStartsAt: string): Date {
+    const minutesOf = (time: string) => {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+    };
+    const { roomDetailsAt, matchStartAt } = tournament.matchFormat;
+    const leadMinutes = Math.max(0, minutesOf(matchStartAt) - minutesOf(roomDetailsAt));
+    return new Date(new Date(lobbyStartsAt).getTime() - leadMinutes * 60 * 1000);
+}
+
+export function isReleased(room: RoomDetails, now: Date): boolean {
+    return new Date(room.releaseAt) <= now;
+}
+
+/**
+ * Adds a delivery to the room's record. Only the first delivery per team and channel is kept.
+ * Must be called inside a transaction.
+ */
+export async function recordRoomDelivery(
+    scope: TournamentScope,
+    room: RoomDetails,
+    teamId: string,
+    channel: RoomDeliveryChannel,
+    now: Date
+): Promise<void> {
+    if (room.deliveries.some(d => d.teamId === teamId && d.channel === channel)) return;
+    room.deliveries.push({ teamId, channel, at: now.toISOString() });
+    await scope.rooms.save(room);
+}
+
+/**
+ * The lobbies a team plays in this week, with the room details of those already released.
+ */
+export function roomsForTeam(stages: StageState[], rooms: RoomDetails[], teamId: string, now: Date): TeamRoom[] {
+    return stages.flatMap(({ stage, lobbies }) => lobbies
+        .filter(lobby => lobby.teamIds.includes(teamId))
+        .map(lobby => {
+            const room = rooms.find(r => r.stageId === stage.id && r.lobby === lobby.lobby);
+            return {
+                stageId: stage.id,
+                stageName: stage.name,
+                lobby: lobby.lobby,
+                startsAt: lobby.startsAt,
+                releaseAt: room?.releaseAt ?? null,
+                room: room && isReleased(room, now) ? { roomId: room.roomId, password: room.password } : undefined,
+            };
+        }));
+}
+
+type RoomSend = { team: TeamRegistrationData; channel: NotificationChannel; room: RoomDetails; stageName: string };
+
+/**
+ * Sends the released rooms of the tournament's current week to every team in the
+ * lobby, on each of its channels it has not been sent on yet, including teams
+ * confirmed after the release. Returns the number of messages sent.
+ */
+async function releaseTournamentRooms(tournamentId: string, now: Date): Promise<number> {
+    const store = getDataStore();
+    const { tournament, sends } = await store.transaction(async repo => {
+        const tournament = await getTournament(repo, tournamentId);
+        const scope = repo.forTournament(tournamentId);
+        const current = await scope.weeks.getCurrent();
+        const sends: RoomSend[] = [];
+        if (!tournament || !current) return { tournament, sends };
+
+        const week: WeeklyData = {
+            registrationWeekStart: current.registrationWeekStart,
+            teams: await scope.teams.listByWeek(current.registrationWeekStart),
+        };
+        const stages = await loadStages(scope, tournament, week);
+        for (const room of await scope.rooms.listByWeek(week.registrationWeekStart)) {
+            if (!isReleased(room, now)) continue;
+            const state = stages.find(s => s.stage.id === room.stageId);
+            const lobby = state?.lobbies.find(l => l.lobby === room.lobby);
+            if (!state || !lobby) continue;
+            const delivered = new Set(room.deliveries.map(d => `${d.teamId}:${d.channel}`));
+            const pending = week.teams
+                .filter(t => lobby.teamIds.includes(t.id))
+                .flatMap(team => channelsFor(team)
+                    .filter(channel => !delivered.has(`${team.id}:${channel}`))
+                    .map(channel => ({ team, channel })));
+            if (pending.length === 0) continue;
+
+            // Recorded before sending, so an overlapping run doesn't message the same team twice.
+            room.deliveries.push(...pending.map(({ team, channel }) => ({ teamId: team.id, channel, at: now.toISOString() })));
+            await scope.rooms.save(room);
+            sends.push(...pending.map(({ team, channel }) => ({ team, channel, room, stageName: state.stage.name })));
+        }
+        return { tournament, sends };
+    });
+
+    const failures: { send: RoomSend; error: string }[] = [];
+    for (const send of sends) {
+        try {
+            // Queued for retries when a send fails; only a message given up on counts as failed.
+            const delivery = await sendNotification(send.channel, 'room_details', send.team, {
+                team: send.team,
+                room: send.room,
+                stageName: send.stageName,
+                tournament: tournament!,
+            });
+            if (delivery.status === 'dead') throw new Error(delivery.error);
+        } catch (error) {
+            console.error(`[rooms] ${tournamentId}: could not send ${send.team.teamName} room details by ${send.channel}`, error);
+            failures.push({ send, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    if (failures.length > 0) {
+        await store.transaction(async repo => {
+            const scope = repo.forTournament(tournamentId);
+            const rooms = await scope.rooms.listByWeek(failures[0].send.room.registrationWeekStart);
+            for (const { send, error } of failures) {
+                const room = rooms.find(r => r.stageId === send.room.stageId && r.lobby === send.room.lobby);
+                const delivery = room?.deliveries.find(d => d.teamId === send.team.id && d.channel === send.channel);
+                if (!room || !delivery) continue;
+                delivery.error = error;
+                await scope.rooms.save(room);
+            }
+        });
+    }
+    return sends.length - failures.length;
+}
+
+/**
+ * Sends out room details that have come due in every active tournament, each in its
+ * own transactions. Meant to run from cron every minute; running it more often or
+ * late is harmless, as no team is sent the same room twice on the same channel.
+ */
+export async function releaseDueRooms(now: Date = new Date()): Promise<{ sent: number; failures: { tournamentId: string; error: string }[] }> {
+    const tournaments = (await getDataStore().transaction(repo => listTournaments(repo))).filter(t => t.active);
+    const failures: { tournamentId: string; error: string }[] = [];
+    let sent = 0;
+
+    for (const { id } of tournaments) {
+        try {
+            const count = await releaseTournamentRooms(id, now);
+            if (count > 0) console.log(`[rooms] ${id}: sent ${count} room details messages`);
+            sent += count;
+        } catch (error) {
+            console.error(`[rooms] ${id}: failed`, error);
+            failures.push({ tournamentId: id, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return { sent, failures };
+}
@@ -0,0 +1,198 @@
+import exifr from 'exifr';
+import sharp from 'sharp';
+import type { Repository } from '@/lib/repository';
+import { zonedTimeToUtc } from '@/lib/time';
+import { listTournaments } from '@/lib/tournaments';
+import { listAllWeeks } from '@/lib/weeks';
+import type { FraudAssessment, FraudSignal } from '@/lib/types';
+
+// --- Screenshot Fraud Signals ---
+
+/**
+ * Registrations scoring at least this much go to manual review, even when the AI
+ * verified the payment.
+ */
+export const FRAUD_REVIEW_SCORE = 50;
+
+// A 16x16 difference hash, 256 bits. Neighbouring pixels closer than the tolerance
+// count as equal, so compression noise in flat areas doesn't flip bits.
+const HASH_SIZE = 16;
+const FLAT_TOLERANCE = 4;
+
+/**
+ * Screenshots whose hashes differ in at most this many bits are taken to be the same
+ * image. Receipts from the same payment app share a layout and can come this close
+ * too, which is why a match sends the registration to review rather than rejecting it.
+ */
+export const SIMILARITY_THRESHOLD = 8;
+
+// Apps that only touch a screenshot when someone edits it.
+const EDITING_SOFTWARE = /photoshop|gimp|snapseed|picsart|canva|lightroom|pixlr|photoroom|polarr|paint\.net|affinity|inshot/i;
+
+export type ScreenshotAnalysis = {
+    perceptualHash: string | null; // Null if the image could not be decoded
+    width?: number;
+    height?: number;
+    software?: string;
+    camera?: string;
+    takenAt?: Date;
+};
+
+export type ScreenshotFingerprint = {
+    tournamentId: string;
+    registrationWeekStart: string;
+    teamId: string;
+    teamName: string;
+    screenshotHash: string;
+    perceptualHash?: string;
+};
+
+/**
+ * A difference hash of the image: shrunk to greyscale, each bit says whether a
+ * pixel is brighter than its right-hand neighbour. Re-saving, recompressing or
+ * trimming a few pixels off the edges leaves most bits as they were.
+ */
+async function differenceHash(image: Buffer): Promise<string> {
+    const pixels = await sharp(image)
+        .greyscale()
+        .resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+    let hex = '';
+    for (let row = 0; row < HASH_SIZE; row++) {
+        for (let col = 0; col < HASH_SIZE; col += 4) {
+            let nibble = 0;
+            for (let bit = 0; bit < 4; bit++) {
+                const i = row * (HASH_SIZE + 1) + col + bit;
+                nibble = (nibble << 1) | (pixels[i] > pixels[i + 1] + FLAT_TOLERANCE ? 1 : 0);
+            }
+            hex += nibble.toString(16);
+        }
+    }
+    return hex;
+}
+
+/**
+ * The number of bits in which two hashes differ.
+ */
+export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) return Infinity;
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+/**
+ * EXIF dates are wall-clock `YYYY:MM:DD HH:mm:ss` on the phone, read here in `timeZone`.
+ */
+function parseExifDate(value: unknown, timeZone: string): Date | undefined {
+    const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return zonedTimeToUtc(timeZone, year, month, day, hour, minute, second);
+}
+
+/**
+ * Hashes the screenshot and reads its size and metadata. Never throws: whatever
+ * can't be read is left out.
+ */
+export async function analyseScreenshot(image: Buffer, timeZone: string): Promise<ScreenshotAnalysis> {
+    const analysis: ScreenshotAnalysis = { perceptualHash: null };
+    try {
+        analysis.perceptualHash = await differenceHash(image);
+        const { width, height } = await sharp(image).metadata();
+        Object.assign(analysis, { width, height });
+    } catch (error) {
+        console.warn('Could not decode payment screenshot for fraud checks.', error);
+    }
+    try {
+        const tags = await exifr.parse(image, {
+            pick: ['Software', 'Make', 'Model', 'DateTimeOriginal', 'CreateDate'],
+            reviveValues: false,
+        });
+        if (tags) {
+            analysis.software = tags.Software?.trim() || undefined;
+            analysis.camera = [tags.Make, tags.Model].filter(Boolean).join(' ').trim() || undefined;
+            analysis.takenAt = parseExifDate(tags.DateTimeOriginal ?? tags.CreateDate, timeZone);
+        }
+    } catch {
+        // No readable metadata, which is normal for screenshots.
+    }
+    return analysis;
+}
+
+/**
+ * The hashes of every screenshot on record, in every tournament and week.
+ * Must be called inside a transaction.
+ */
+export async function listScreenshotFingerprints(repo: Repository): Promise<ScreenshotFingerprint[]> {
+    const fingerprints: ScreenshotFingerprint[] = [];
+    for (const tournament of await listTournaments(repo)) {
+        for (const week of await listAllWeeks(repo.forTournament(tournament.id))) {
+            for (const team of week.teams) {
+                fingerprints.push({
+                    tournamentId: tournament.id,
+                    registrationWeekStart: week.registrationWeekStart,
+                    teamId: team.id,
+                    teamName: team.teamName,
+                    screenshotHash: team.screenshotHash,
+                    perceptualHash: team.screenshotPerceptualHash,
+                });
+            }
+        }
+    }
+    return fingerprints;
+}
+
+/**
+ * Scores a screenshot from its analysis and the screenshots already on record.
+ */
+export function assessScreenshot(
+    analysis: ScreenshotAnalysis,
+    previous: ScreenshotFingerprint[],
+    params: { screenshotHash: string; registrationWeekStart: string; now: Date }
+): FraudAssessment {
+    const signals: FraudSignal[] = [];
+    const describe = (f: ScreenshotFingerprint) => `${f.teamName} (${f.tournamentId}, week of ${f.registrationWeekStart.slice(0, 10)})`;
+
+    const identical = previous.find(f => f.screenshotHash === params.screenshotHash);
+    const closest = analysis.perceptualHash
+        ? previous
+            .filter(f => f.perceptualHash)
+            .map(f => ({ fingerprint: f, distance: hammingDistance(analysis.perceptualHash!, f.perceptualHash!) }))
+            .sort((a, b) => a.distance - b.distance)[0]
+        : undefined;
+    if (identical) {
+        signals.push({ code: 'similar_screenshot', weight: 100, detail: `Identical to the screenshot of ${describe(identical)}.` });
+    } else if (closest && closest.distance <= SIMILARITY_THRESHOLD) {
+        signals.push({
+            code: 'similar_screenshot',
+            weight: 60,
+            detail: `Looks like the screenshot of ${describe(closest.fingerprint)}, ${closest.distance} of ${HASH_SIZE * HASH_SIZE} bits apart.`,
+        });
+    }
+    if (analysis.software && EDITING_SOFTWARE.test(analysis.software)) {
+        signals.push({ code: 'edited', weight: 40, detail: `Saved by ${analysis.software}.` });
+    }
+    if (analysis.camera) {
+        signals.push({ code: 'camera_photo', weight: 20, detail: `Taken with a camera (${analysis.camera}).` });
+    }
+    if (analysis.takenAt && analysis.takenAt < new Date(params.registrationWeekStart)) {
+        signals.push({ code: 'taken_before_week', weight: 40, detail: `Metadata dates it ${analysis.takenAt.toISOString()}, before the registration week.` });
+    }
+    if (analysis.width && analysis.height && analysis.width >= analysis.height) {
+        signals.push({ code: 'unusual_shape', weight: 10, detail: `${analysis.width}x${analysis.height} is not shaped like a phone screen.` });
+    }
+
+    return {
+        score: Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0)),
+        signals,
+        assessedAt: params.now.toISOString(),
+    };
+}
@@ -0,0 +1,161 @@
+import type { TournamentScope } from '@/lib/repository';
+import { computeStandings } from '@/lib/results';
+import { getZonedParts, zonedTimeToUtc } from '@/lib/time';
+import { scoringFor, stagesFor } from '@/lib/tournaments';
+import type {
+    LobbyAssignment,
+    LobbyState,
+    MatchResult,
+    StageDefinition,
+    StageState,
+    TeamRegistrationData,
+    Tournament,
+    WeeklyData,
+} from '@/lib/types';
+
+// --- Stages and Lobbies ---
+
+/**
+ * When a lobby plays unless an admin sets its time: the stage's match day and start
+ * time in the registration week, each later lobby `minutesBetweenLobbies` after the last.
+ */
+export function defaultLobbyStart(tournament: Tournament, registrationWeekStart: string, stage: StageDefinition, lobby: number): Date {
+    const { year, month, day } = getZonedParts(new Date(registrationWeekStart), tournament.timezone);
+    // Weeks start on Monday; let Date.UTC carry the day over month and year ends.
+    const matchDate = new Date(Date.UTC(year, month - 1, day + (stage.matchDay + 6) % 7));
+    const [hours, minutes] = stage.startsAt.split(':').map(Number);
+    const firstLobby = zonedTimeToUtc(
+        tournament.timezone,
+        matchDate.getUTCFullYear(), matchDate.getUTCMonth() + 1, matchDate.getUTCDate(),
+        hours, minutes
+    );
+    return new Date(firstLobby.getTime() + (lobby - 1) * (stage.minutesBetweenLobbies ?? 0) * 60 * 1000);
+}
+
+/**
+ * Deals seeded teams into lobbies in snake order (1, 2, 3, 3, 2, 1, 1, ...),
+ * so every lobby gets a fair share of the strongest seeds.
+ */
+export function seedIntoLobbies(teamIds: string[], lobbyCount: number): string[][] {
+    const lobbies: string[][] = Array.from({ length: lobbyCount }, () => []);
+    teamIds.forEach((teamId, index) => {
+        const round = Math.floor(index / lobbyCount);
+        const position = index % lobbyCount;
+        lobbies[round % 2 === 0 ? position : lobbyCount - 1 - position].push(teamId);
+    });
+    return lobbies;
+}
+
+/**
+ * The top `advancePerLobby` teams of every lobby that has played, ordered for
+ * seeding: lobby winners first (more points first), then runners-up, and so on.
+ */
+function qualifiersOf(stage: StageDefinition, lobbies: LobbyState[]): string[] {
+    if (!stage.advancePerLobby) return [];
+    const advancing = lobbies.flatMap(lobby => lobby.standings
+        .filter(s => s.matchesPlayed > 0)
+        .slice(0, stage.advancePerLobby)
+        .map((s, position) => ({ teamId: s.teamId, position, points: s.totalPoints })));
+    return advancing
+        .sort((a, b) => a.position - b.position || b.points - a.points)
+        .map(q => q.teamId);
+}
+
+/**
+ * Works out every stage of a week from the lobby assignments and results so far:
+ * who is eligible, who plays in which lobby and when, the standings and who qualified.
+ * The first stage is open to every confirmed team, in registration order; later
+ * stages to the qualifiers of the stage before. A single-lobby stage that admins
+ * have not filled holds every eligible team.
+ */
+export function resolveStages(
+    tournament: Tournament,
+    week: WeeklyData,
+    assignments: LobbyAssignment[],
+    results: MatchResult[]
+): StageState[] {
+    const scoring = scoringFor(tournament);
+    const confirmed = week.teams
+        .filter(t => t.status === 'confirmed')
+        .sort((a, b) => a.registrationTime.localeCompare(b.registrationTime));
+    const teamsById = new Map(confirmed.map(t => [t.id, t]));
+    const teamsFor = (ids: string[]) => ids.flatMap(id => teamsById.get(id) ?? []);
+
+    const states: StageState[] = [];
+    for (const stage of stagesFor(tournament)) {
+        const previous = states[states.length - 1];
+        const eligibleTeamIds = previous ? previous.qualifiedTeamIds : confirmed.map(t => t.id);
+        const stageResults = results.filter(r => r.stageId === stage.id);
+
+        const lobbies: LobbyState[] = Array.from({ length: stage.lobbies }, (_, index) => {
+            const lobby = index + 1;
+            const assignment = assignments.find(a => a.stageId === stage.id && a.lobby === lobby);
+            const implicit = !assignment && stage.lobbies === 1;
+            const teamIds = teamsFor(assignment ? assignment.teamIds : implicit ? eligibleTeamIds : []).map(t => t.id);
+            const lobbyResults = stageResults.filter(r => r.lobby === lobby);
+            return {
+                stageId: stage.id,
+                lobby,
+                startsAt: assignment?.startsAt ?? defaultLobbyStart(tournament, week.registrationWeekStart, stage, lobby).toISOString(),
+                teamIds,
+                results: lobbyResults,
+                standings: computeStandings(teamsFor(teamIds), lobbyResults, scoring),
+            };
+        });
+
+        states.push({
+            stage,
+            eligibleTeamIds,
+            lobbies,
+            standings: computeStandings(teamsFor(lobbies.flatMap(l => l.teamIds)), stageResults, scoring),
+            qualifiedTeamIds: qualifiersOf(stage, lobbies),
+        });
+    }
+    return states;
+}
+
+/**
+ * `resolveStages` for a stored week. Must be called inside a transaction.
+ */
+export async function loadStages(scope: TournamentScope, tournament: Tournament, week: WeeklyData): Promise<StageState[]> {
+    const assignments = await scope.lobbies.listByWeek(week.registrationWeekStart);
+    const results = await scope.results.listByWeek(week.registrationWeekStart);
+    return resolveStages(tournament, week, assignments, results);
+}
+
+/**
+ * Returns an error message if the teams can't go into the lobby: every team must be
+ * confirmed and eligible for the stage (for later stages, a qualifier of the stage
+ * before), fit in the lobby, and not already play in another lobby of the stage.
+ */
+export function validateLobbyAssignment(
+    state: StageState,
+    confirmedTeamIds: Set<string>,
+    lobby: number,
+    teamIds: string[]
+): string | null {
+    const { stage } = state;
+    if (!Number.isInteger(lobby) || lobby < 1 || lobby > stage.lobbies) {
+        return `${stage.name} has lobbies 1 to ${stage.lobbies}.`;
+    }
+    if (teamIds.length > stage.lobbySize) {
+        return `A ${stage.name} lobby holds at most ${stage.lobbySize} teams.`;
+    }
+    if (new Set(teamIds).size !== teamIds.length) {
+        return 'Each team can only be entered once.';
+    }
+    const unknown = teamIds.find(id => !confirmedTeamIds.has(id));
+    if (unknown) {
+        return `Team ${unknown} is not a confirmed team this week.`;
+    }
+    const eligible = new Set(state.eligibleTeamIds);
+    const unqualified = teamIds.find(id => !eligible.has(id));
+    if (unqualified) {
+        return `Team ${unqualified} did not qualify for ${stage.name}.`;
+    }
+    const elsewhere = state.lobbies.find(l => l.lobby !== lobby && l.teamIds.some(id => teamIds.includes(id)));
+    if (elsewhere) {
+        return `A team is already playing in lobby ${elsewhere.lobby} of ${stage.name}.`;
+    }
+    return null;
+}
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import {
+    getRegistrationWeekStart,
+    getWeekId,
+    isRegistrationWindowOpen,
+    parseDateInZone,
+    zonedTimeToUtc,
+} from '@/lib/time';
+import type { RegistrationWindow } from '@/lib/types';
+
+// The server's own zone must never matter, so every test runs under several.
+// Node picks up a change to process.env.TZ straight away.
+const HOST_ZONES = ['UTC', 'Asia/Kolkata', 'America/Los_Angeles', 'Pacific/Kiritimati', 'Europe/London'];
+const originalTz = process.env.TZ;
+
+// Monday 12:30 AM to Sunday 10:00 PM, as in the built-in tournament.
+const WINDOW: RegistrationWindow = { opens: { day: 1, time: '00:30' }, closes: { day: 0, time: '22:00' } };
+
+function weekStartIso(now: string, timeZone: string): string {
+    return getRegistrationWeekStart(new Date(now), timeZone).toISOString();
+}
+
+function isOpen(now: string, timeZone: string, window: RegistrationWindow = WINDOW): boolean {
+    return isRegistrationWindowOpen(new Date(now), window, timeZone);
+}
+
+afterEach(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+});
+
+for (const hostZone of HOST_ZONES) {
+    describe(`on a host in ${hostZone}`, () => {
+        test('starts the IST week at Monday 00:00 IST', () => {
+            process.env.TZ = hostZone;
+            // Monday 6 May 2024, 00:30 IST
+            assert.equal(weekStartIso('2024-05-05T19:00:00Z', 'Asia/Kolkata'), '2024-05-05T18:30:00.000Z');
+            assert.equal(getWeekId('2024-05-05T18:30:00.000Z', 'Asia/Kolkata'), '2024-05-06');
+            // Sunday 5 May 2024, 23:30 IST, still the week before
+            assert.equal(weekStartIso('2024-05-05T18:00:00Z', 'Asia/Kolkata'), '2024-04-28T18:30:00.000Z');
+            assert.equal(getWeekId('2024-04-28T18:30:00.000Z', 'Asia/Kolkata'), '2024-04-29');
+        });
+
+        test('carries the week back across a year end', () => {
+            process.env.TZ = hostZone;
+            // Wednesday 1 January 2025, 09:00 IST
+            const start = getRegistrationWeekStart(new Date('2025-01-01T03:30:00Z'), 'Asia/Kolkata');
+            assert.equal(getWeekId(start, 'Asia/Kolkata'), '2024-12-30');
+        });
+
+        test('opens and closes the IST window on the IST wall clock', () => {
+            process.env.TZ = hostZone;
+            assert.equal(isOpen('2024-05-05T18:59:00Z', 'Asia/Kolkata'), false); // Monday 00:29
+            assert.equal(isOpen('2024-05-05T19:00:00Z', 'Asia/Kolkata'), true); // Monday 00:30
+            assert.equal(isOpen('2024-05-12T16:29:00Z', 'Asia/Kolkata'), true); // Sunday 21:59
+            assert.equal(isOpen('2024-05-12T16:30:00Z', 'Asia/Kolkata'), false); // Sunday 22:00
+        });
+
+        test('handles a window that wraps around the end of the week', () => {
+            process.env.TZ = hostZone;
+            const fridayToTuesday: RegistrationWindow = { opens: { day: 5, time: '18:00' }, closes: { day: 2, time: '12:00' } };
+            assert.equal(isOpen('2024-05-10T12:30:00Z', 'Asia/Kolkata', fridayToTuesday), true); // Friday 18:00
+            assert.equal(isOpen('2024-05-13T18:30:00Z', 'Asia/Kolkata', fridayToTuesday), true); // Tuesday 00:00
+            assert.equal(isOpen('2024-05-14T06:30:00Z', 'Asia/Kolkata', fridayToTuesday), false); // Tuesday 12:00
+            assert.equal(isOpen('2024-05-08T06:30:00Z', 'Asia/Kolkata', fridayToTuesday), false); // Wednesday 12:00
+        });
+
+        test('starts the week after clocks go forward at the new offset', () => {
+            process.env.TZ = hostZone;
+            // London moves from GMT to BST at 01:00 on Sunday 31 March 2024.
+            assert.equal(weekStartIso('2024-03-31T22:59:00Z', 'Europe/London'), '2024-03-25T00:00:00.000Z'); // Sunday 23:59 BST
+            assert.equal(weekStartIso('2024-03-31T23:30:00Z', 'Europe/London'), '2024-03-31T23:00:00.000Z'); // Monday 00:30 BST
+            assert.equal(getWeekId('2024-03-31T23:00:00.000Z', 'Europe/London'), '2024-04-01');
+        });
+
+        test('starts the week after clocks go back at the new offset', () => {
+            process.env.TZ = hostZone;
+            // London moves from BST to GMT at 02:00 on Sunday 27 October 2024.
+            assert.equal(weekStartIso('2024-10-27T23:30:00Z', 'Europe/London'), '2024-10-20T23:00:00.000Z'); // Sunday 23:30 GMT
+            assert.equal(weekStartIso('2024-10-28T00:00:00Z', 'Europe/London'), '2024-10-28T00:00:00.000Z'); // Monday 00:00 GMT
+        });
+
+        test('closes the window at 22:00 local time on a DST change day', () => {
+            process.env.TZ = hostZone;
+            assert.equal(isOpen('2024-03-31T20:59:00Z', 'Europe/London'), true); // 21:59 BST
+            assert.equal(isOpen('2024-03-31T21:30:00Z', 'Europe/London'), false); // 22:30 BST, 21:30 GMT
+            assert.equal(isOpen('2024-10-27T21:59:00Z', 'Europe/London'), true); // 21:59 GMT
+            assert.equal(isOpen('2024-10-27T22:00:00Z', 'Europe/London'), false); // 22:00 GMT
+        });
+
+        test('resolves wall-clock times skipped or repeated by DST', () => {
+            process.env.TZ = hostZone;
+            // 02:30 on 10 March 2024 does not exist in New York; it is pushed forward to 03:30 EDT.
+            assert.equal(zonedTimeToUtc('America/New_York', 2024, 3, 10, 2, 30).toISOString(), '2024-03-10T07:30:00.000Z');
+            // 01:30 on 3 November 2024 happens twice; the earlier, EDT, is used.
+            assert.equal(zonedTimeToUtc('America/New_York', 2024, 11, 3, 1, 30).toISOString(), '2024-11-03T05:30:00.000Z');
+            // Southern hemisphere: Sydney is on AEDT (+11) in January and AEST (+10) in July.
+            assert.equal(zonedTimeToUtc('Australia/Sydney', 2024, 1, 15).toISOString(), '2024-01-14T13:00:00.000Z');
+            assert.equal(zonedTimeToUtc('Australia/Sydney', 2024, 7, 15).toISOString(), '2024-07-14T14:00:00.000Z');
+        });
+
+        test('reads dates without an offset in the tournament zone', () => {
+            process.env.TZ = hostZone;
+            assert.equal(parseDateInZone('2024-05-06 21:15', 'Asia/Kolkata').toISOString(), '2024-05-06T15:45:00.000Z');
+            assert.equal(parseDateInZone('2024-07-01', 'Europe/London').toISOString(), '2024-06-30T23:00:00.000Z');
+            assert.equal(parseDateInZone('2024-05-06T21:15:00Z', 'Asia/Kolkata').toISOString(), '2024-05-06T21:15:00.000Z');
+        });
+    });
+}
@@ -0,0 +1,156 @@
+import type { RegistrationWindow, WeeklyTime } from '@/lib/types';
+
+// --- Time Zone Aware Calendar Helpers ---
+//
+// Week boundaries and registration windows are defined in a tournament's own
+// time zone, never the server's. A `Date` is an instant; these helpers read it
+// as wall-clock time in a given IANA zone, and turn wall-clock times back into instants.
+
+type ZonedParts = {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number; // 0 is Sunday
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            weekday: 'short',
+            year: 'numeric', month: 'numeric', day: 'numeric',
+            hour: 'numeric', minute: 'numeric', second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * The wall-clock date and time of `date` in `timeZone`.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    const parts: Record<string, string> = {};
+    getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+        parts[type] = value;
+    });
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAYS[parts.weekday],
+    };
+}
+
+/**
+ * How far ahead of UTC the zone's wall clock is at `date`, in milliseconds.
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+    const p = getZonedParts(date, timeZone);
+    const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows the given date and time.
+ * Times skipped by a DST change are pushed forward by the length of the gap;
+ * times that occur twice resolve to the earlier instant.
+ */
+export function zonedTimeToUtc(
+    timeZone: string,
+    year: number, month: number, day: number,
+    hour = 0, minute = 0, second = 0
+): Date {
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    const firstOffset = getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+    const firstGuess = wallClockAsUtc - firstOffset;
+    // The offset at the guess can differ from the one we started with around a DST change.
+    const secondOffset = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+    return new Date(firstOffset === secondOffset ? firstGuess : Math.max(firstGuess, wallClockAsUtc - secondOffset));
+}
+
+/**
+ * Formats `date` as `YYYY-MM-DD` in `timeZone`.
+ */
+export function formatDateInZone(date: Date, timeZone: string): string {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parses a date or date-time string. Values without an explicit offset
+ * (`2024-05-06`, `2024-05-06 21:15`) are read as wall-clock time in `timeZone`.
+ */
+export function parseDateInZone(value: string, timeZone: string): Date {
+    const trimmed = value.trim();
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+        return new Date(trimmed);
+    }
+    const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) {
+        return new Date(trimmed);
+    }
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+    return zonedTimeToUtc(timeZone, +year, +month, +day, +hour, +minute, +second);
+}
+
+// --- Time and Week Calculation ---
+
+/**
+ * Calculates the start of the current registration week: 00:00 on the most
+ * recent Monday, as seen in `timeZone`.
+ */
+export function getRegistrationWeekStart(now: Date, timeZone: string): Date {
+    const { year, month, day, weekday } = getZonedParts(now, timeZone);
+    const distanceToMonday = (weekday + 6) % 7;
+    // Let Date.UTC do the calendar arithmetic (month and year rollover) on the wall-clock date.
+    const monday = new Date(Date.UTC(year, month - 1, day - distanceToMonday));
+    return zonedTimeToUtc(timeZone, monday.getUTCFullYear(), monday.getUTCMonth() + 1, monday.getUTCDate());
+}
+
+/**
+ * Identifies a registration week by its Monday, e.g. `2024-05-06`, in `timeZone`.
+ */
+export function getWeekId(registrationWeekStart: Date | string, timeZone: string): string {
+    return formatDateInZone(new Date(registrationWeekStart), timeZone);
+}
+
+/**
+ * Minutes elapsed since Monday 00:00 for the given day and time.
+ */
+function minutesIntoWeek(day: number, hours: number, minutes: number): number {
+    return ((day + 6) % 7) * 24 * 60 + hours * 60 + minutes;
+}
+
+function weeklyTimeToMinutes({ day, time }: WeeklyTime): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return minutesIntoWeek(day, hours, minutes);
+}
+
+/**
+ * Checks if the current time is within the registration window, read as
+ * wall-clock time in `timeZone` (e.g. Monday 12:30 AM to Sunday 10:00 PM IST).
+ */
+export function isRegistrationWindowOpen(now: Date, window: RegistrationWindow, timeZone: string): boolean {
+    const { weekday, hour, minute } = getZonedParts(now, timeZone);
+    const current = minutesIntoWeek(weekday, hour, minute);
+    const opens = weeklyTimeToMinutes(window.opens);
+    const closes = weeklyTimeToMinutes(window.closes);
+
+    // A window may also wrap around the end of the week (e.g. Friday to Tuesday).
+    return opens <= closes
+        ? current >= opens && current < closes
+        : current >= opens || current < closes;
+}
@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import type { Repository } from '@/lib/repository';
+import { getZonedParts } from '@/lib/time';
+import type { ScoringTable, StageDefinition, Tournament, WeeklyTime } from '@/lib/types';
+
+// --- Tournament Definitions ---
+
+export const DEFAULT_TOURNAMENT_ID = 'weekly-squad';
+
+/**
+ * The one stage of a tournament that does not define its own.
+ */
+export const DEFAULT_STAGE_ID = 'final';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be 24-hour HH:mm.');
+const dayOfWeek = z.number().int().min(0).max(6);
+const weeklyTimeSchema = z.object({ day: dayOfWeek, time: timeOfDay });
+const slug = z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/, 'Ids must be lowercase slugs.');
+
+const stageSchema = z.object({
+    id: slug,
+    name: z.string().min(1).max(60),
+    lobbies: z.number().int().positive(),
+    lobbySize: z.number().int().positive(),
+    advancePerLobby: z.number().int().positive().optional(),
+    matchDay: dayOfWeek,
+    startsAt: timeOfDay,
+    minutesBetweenLobbies: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * Used by tournaments that do not set their own scoring table.
+ */
+export const DEFAULT_SCORING: ScoringTable = {
+    placementPoints: [12, 9, 8, 7, 6, 5, 4, 3, 2, 1],
+    pointsPerKill: 1,
+};
+
+export const tournamentSchema: z.ZodType<Tournament> = z.object({
+    // Used in file paths by the JSON store, so keep it to a safe slug.
+    id: slug,
+    name: z.string().min(1).max(60),
+    active: z.boolean(),
+    totalSlots: z.number().int().positive(),
+    teamSize: z.number().int().min(1).max(6),
+    minPlayerLevel: z.number().int().min(1),
+    maxPlayerLevel: z.number().int().min(1),
+    entryFee: z.number().nonnegative(),
+    prizes: z.array(z.object({ rank: z.number().int().positive(), amount: z.number().nonnegative() })),
+    registrationWindow: z.object({ opens: weeklyTimeSchema, closes: weeklyTimeSchema }),
+    timezone: z.string().refine(isValidTimeZone, 'Unknown IANA time zone.'),
+    matchFormat: z.object({
+        mode: z.string(),
+        map: z.string(),
+        teamType: z.string(),
+        matchDay: dayOfWeek,
+        roomDetailsAt: timeOfDay,
+        matchStartAt: timeOfDay,
+    }),
+    scoring: z.object({
+        placementPoints: z.array(z.number().nonnegative()).min(1),
+        pointsPerKill: z.number().nonnegative(),
+    }).optional(),
+    stages: z.array(stageSchema).min(1).optional(),
+})
+    .refine(t => t.minPlayerLevel <= t.maxPlayerLevel, 'minPlayerLevel must not exceed maxPlayerLevel.')
+    .refine(t => !t.stages || new Set(t.stages.map(s => s.id)).size === t.stages.length, 'Stage ids must be unique.')
+    .refine(t => !t.stages || t.stages[0].lobbies * t.stages[0].lobbySize >= t.totalSlots, 'The first stage must have room for every slot.')
+    .refine(
+        t => (t.stages ?? []).every((stage, i, stages) => {
+            const next = stages[i + 1];
+            if (!next) return true;
+            return stage.advancePerLobby !== undefined && stage.lobbies * stage.advancePerLobby <= next.lobbies * next.lobbySize;
+        }),
+        'Every stage but the last must set advancePerLobby, and its qualifiers must fit in the next stage.'
+    );
+
+/**
+ * Definitions that exist without any stored configuration. A stored tournament
+ * with the same id overrides the built-in one.
+ */
+export const BUILT_IN_TOURNAMENTS: Tournament[] = [
+    {
+        id: DEFAULT_TOURNAMENT_ID,
+        name: 'The Founders Weekly Squad',
+        active: true,
+        totalSlots: 12,
+        teamSize: 4,
+        minPlayerLevel: 30,
+        maxPlayerLevel: 100,
+        entryFee: 100,
+        prizes: [
+            { rank: 1, amount: 750 },
+            { rank: 2, amount: 120 },
+        ],
+        // Monday 12:30 AM to Sunday 10:00 PM
+        registrationWindow: {
+            opens: { day: 1, time: '00:30' },
+            closes: { day: 0, time: '22:00' },
+        },
+        timezone: 'Asia/Kolkata',
+        matchFormat: {
+            mode: 'Battle royale',
+            map: 'Barmuda',
+            teamType: 'Squad',
+            matchDay: 0,
+            roomDetailsAt: '20:25',
+            matchStartAt: '20:35',
+        },
+    },
+];
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * All tournaments, stored definitions taking precedence over built-in ones.
+ */
+export async function listTournaments(repo: Repository): Promise<Tournament[]> {
+    const stored = await repo.tournaments.list();
+    const storedIds = new Set(stored.map(t => t.id));
+    return [...BUILT_IN_TOURNAMENTS.filter(t => !storedIds.has(t.id)), ...stored];
+}
+
+export async function getTournament(repo: Repository, tournamentId: string): Promise<Tournament | null> {
+    return (await repo.tournaments.get(tournamentId))
+        ?? BUILT_IN_TOURNAMENTS.find(t => t.id === tournamentId)
+        ?? null;
+}
+
+export function scoringFor(tournament: Tournament): ScoringTable {
+    return tournament.scoring ?? DEFAULT_SCORING;
+}
+
+/**
+ * The tournament's stages in play order. Without any, every team plays in one
+ * lobby at the match format's start time.
+ */
+export function stagesFor(tournament: Tournament): StageDefinition[] {
+    return tournament.stages ?? [{
+        id: DEFAULT_STAGE_ID,
+        name: 'Final',
+        lobbies: 1,
+        lobbySize: tournament.totalSlots,
+        matchDay: tournament.matchFormat.matchDay,
+        startsAt: tournament.matchFormat.matchStartAt,
+    }];
+}
+
+/**
+ * E.g. 1 → "1st", 2 → "2nd", 11 → "11th".
+ */
+export function ordinal(n: number): string {
+    const tens = n % 100;
+    if (tens >= 11 && tens <= 13) return `${n}th`;
+    return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+/**
+ * Prize amount for a 1-based rank, or null if the rank is not paid.
+ */
+export function prizeForRank(tournament: Tournament, rank: number): number | null {
+    return tournament.prizes.find(p => p.rank === rank)?.amount ?? null;
+}
+
+export function formatRupees(amount: number): string {
+    return `₹${amount.toLocaleString('en-IN')}`;
+}
+
+/**
+ * Formats a 24-hour `HH:mm` time as `08:25 PM`.
+ */
+export function formatTimeOfDay(time: string): string {
+    const [hours, minutes] = time.split(':').map(Number);
+    const suffix = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+    return `${String(displayHours).padStart(2, '0')}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+export function dayName(day: number): string {
+    return DAY_NAMES[day];
+}
+
+function describeWeeklyTime({ day, time }: WeeklyTime): string {
+    return `${dayName(day)} (${formatTimeOfDay(time)})`;
+}
+
+/**
+ * E.g. "Sunday (08:35 PM)" for an instant, read in the tournament's time zone.
+ */
+export function describeStartTime(tournament: Tournament, startsAt: string): string {
+    const { weekday, hour, minute } = getZonedParts(new Date(startsAt), tournament.timezone);
+    return describeWeeklyTime({ day: weekday, time: `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}` });
+}
+
+/**
+ * E.g. "Monday (12:30 AM) to Sunday (10:00 PM)".
+ */
+export function describeRegistrationWindow(tournament: Tournament): string {
+    const { opens, closes } = tournament.registrationWindow;
+    return `${describeWeeklyTime(opens)} to ${describeWeeklyTime(closes)}`;
+}
@@ -0,0 +1,611 @@
+// --- Shared Domain Types ---
+
+export type Player = {
+    id: string;
+    level: number;
+};
+
+/**
+ * `pending_review` registrations hold a slot until an admin approves or rejects the payment.
+ * Only `pending_review` and `confirmed` registrations hold a slot.
+ */
+export type RegistrationStatus = 'pending_review' | 'confirmed' | 'rejected' | 'withdrawn' | 'disqualified' | 'refunded';
+
+/**
+ * One entry in a registration's audit log.
+ */
+export type StatusChange = {
+    from: RegistrationStatus | null; // null when the registration was created
+    to: RegistrationStatus;
+    at: string; // ISO string
+    by: string; // Admin username, or 'system' for automatic changes
+    reason?: string;
+    ruleId?: string; // The fair-play rule broken, for disqualifications
+};
+
+/**
+ * Why a payment was sent to the manual review queue, and what the admin decided.
+ */
+export type PaymentReview = {
+    reason: string; // From the payment check, or why it could not run
+    transactionDate: string | null; // As read off the screenshot, if it could be
+    screenshotUrl: string | null;
+    flaggedAt: string; // ISO string
+    decidedBy?: string; // Admin username
+    decidedAt?: string; // ISO string
+    note?: string; // Shown to the team on rejection
+};
+
+export type FraudSignalCode =
+    | 'similar_screenshot' // Looks like a screenshot already used, in any week
+    | 'edited' // Saved by image editing software
+    | 'camera_photo' // Taken with a camera rather than captured on the phone
+    | 'taken_before_week' // Metadata dates it before the registration week
+    | 'unusual_shape'; // Not shaped like a phone screen
+
+export type FraudSignal = {
+    code: FraudSignalCode;
+    weight: number; // Points added to the score
+    detail: string;
+};
+
+/**
+ * How suspicious a payment screenshot looks, from 0 (nothing found) to 100.
+ */
+export type FraudAssessment = {
+    score: number;
+    signals: FraudSignal[];
+    assessedAt: string; // ISO string
+};
+
+export type VerificationEngine =
+    | 'ai' // The LLM read the screenshot
+    | 'ocr'; // Tesseract read the screenshot locally
+
+export type VerificationOutcome =
+    | 'verified' // The screenshot shows this payment
+    | 'mismatch' // The screenshot contradicts the registration: another UTR, amount or week
+    | 'inconclusive'; // Too little could be read to decide
+
+/**
+ * One check of a registration's payment screenshot, with what was read off it.
+ */
+export type PaymentVerification = {
+    engine: VerificationEngine;
+    model?: string; // The OCR engine and language data, or the AI model if known
+    outcome: VerificationOutcome;
+    reason: string;
+    utr: string | null; // Found on the screenshot
+    amount: number | null; // INR
+    payee: string | null;
+    transactionDate: string | null; // Wall-clock time in the tournament's timezone
+    referenceFound: boolean;
+    confidence: number | null; // 0 to 1, if the engine reports it
+    latencyMs: number;
+    checkedAt: string; // ISO string
+    requestedBy?: string; // The admin who re-ran the check; absent for the check at registration
+};
+
+export type TeamRegistrationData = {
+    id: string;
+    status: RegistrationStatus;
+    statusHistory?: StatusChange[]; // Oldest first; absent on records from before it was kept
+    review?: PaymentReview;
+    teamName: string;
+    players: Player[];
+    contactEmail: string;
+    contactPhone: string;
+    utrNumber: string;
+    screenshotHash: string; // To prevent duplicate screenshot submissions
+    screenshotPerceptualHash?: string; // To find the same screenshot re-saved, cropped or recompressed
+    fraud?: FraudAssessment; // Absent on records from before screenshots were assessed
+    verifications?: PaymentVerification[]; // Oldest first; the first decided the registration. Absent if no check could run
+    screenshotUrl?: string | null; // Null if the upload failed; absent on records from before it was kept
+    registrationTime: string; // ISO string
+    entryFee?: number; // INR charged at registration; absent on older records, which paid the tournament's fee
+    paymentReference?: string; // The payment intent paid for; absent on older records
+    notificationChannels?: NotificationChannel[]; // Absent on older records, which get email only
+};
+
+export type RegistrationState = {
+    registrationWeekStart: string; // ISO string for the start of the week (Monday)
+    registeredTeamsCount: number;
+};
+
+export type WeeklyData = {
+    registrationWeekStart: string;
+    teams: TeamRegistrationData[];
+};
+
+export type WinnerInfo = {
+    rank: string; // Ordinal, e.g. '1st'
+    teamName: string;
+    teamId?: string; // Absent on records from before winners came from the standings
+    points?: number;
+    prize?: number; // INR owed, fixed when the week is settled
+    claim?: PrizeClaim; // The latest claim link sent to the team
+};
+
+/**
+ * A winner's claim link and, once used, the payout details they gave.
+ * Issuing a new link replaces the old one.
+ */
+export type PrizeClaim = {
+    nonceHash: string; // SHA-256 of the nonce in the link; the link itself is never stored
+    issuedAt: string; // ISO string
+    expiresAt: string; // ISO string
+    claimedAt?: string; // ISO string; set once, as links are single-use
+    upiId?: string;
+    accountHolder?: string;
+};
+
+export type PrizeClaimStatus = 'not_sent' | 'pending' | 'expired' | 'claimed';
+
+export type WeeklyWinner = {
+    weekStart: string; // ISO String
+    winners: WinnerInfo[];
+    totalTeams: number; // Added to store the count for historical balance
+    settledAt?: string; // ISO string; absent on older records
+};
+
+export type SlotReservation = {
+    id: string;
+    registrationWeekStart: string;
+    utrNumber: string;
+    contactEmail: string;
+    contactPhone: string;
+    screenshotHash: string;
+    playerIds?: string[]; // Absent on reservations made before players were checked
+    paymentReference?: string;
+    createdAt: string; // ISO string
+    expiresAt: string; // ISO string; the slot is released automatically after this
+};
+
+/**
+ * A payment a team is about to make. Its reference goes in the UPI note, so a
+ * payment can be matched to the registration it was made for.
+ */
+export type PaymentIntent = {
+    reference: string; // Unique per tournament, e.g. TF7K3M9Q2XPA
+    registrationWeekStart: string;
+    amount: number; // INR
+    createdAt: string; // ISO string
+};
+
+/**
+ * A point in the registration week. `day` follows `Date#getDay()` (0 is Sunday);
+ * `time` is 24-hour `HH:mm`.
+ */
+export type WeeklyTime = {
+    day: number;
+    time: string;
+};
+
+export type RegistrationWindow = {
+    opens: WeeklyTime;
+    closes: WeeklyTime;
+};
+
+export type PrizeTier = {
+    rank: number; // 1 for first place
+    amount: number; // INR
+};
+
+export type MatchFormat = {
+    mode: string;
+    map: string;
+    teamType: string;
+    matchDay: number; // 0 is Sunday
+    roomDetailsAt: string; // HH:mm
+    matchStartAt: string; // HH:mm
+};
+
+/**
+ * Points for a match: `placementPoints[0]` for 1st place, `[1]` for 2nd and so on;
+ * placements past the end of the list score nothing.
+ */
+export type ScoringTable = {
+    placementPoints: number[];
+    pointsPerKill: number;
+};
+
+/**
+ * One round of a tournament, e.g. qualifiers, semis or the final. The top
+ * `advancePerLobby` teams of each lobby go through to the next stage.
+ */
+export type StageDefinition = {
+    id: string;
+    name: string;
+    lobbies: number;
+    lobbySize: number; // Teams per lobby
+    advancePerLobby?: number; // Unset on the last stage
+    matchDay: number; // 0 is Sunday
+    startsAt: string; // HH:mm, when the first lobby starts
+    minutesBetweenLobbies?: number; // Later lobbies start this much after the one before
+};
+
+export type Tournament = {
+    id: string;
+    name: string;
+    active: boolean;
+    totalSlots: number;
+    teamSize: number;
+    minPlayerLevel: number;
+    maxPlayerLevel: number;
+    entryFee: number; // INR per team
+    prizes: PrizeTier[];
+    registrationWindow: RegistrationWindow;
+    timezone: string; // IANA zone, e.g. Asia/Kolkata
+    matchFormat: MatchFormat;
+    scoring?: ScoringTable; // Defaults to `DEFAULT_SCORING` in `@/lib/tournaments`
+    stages?: StageDefinition[]; // In play order; defaults to a single lobby holding every team
+};
+
+/**
+ * What an admin may do, each role including the ones before it:
+ * viewers read registrations, verifiers also handle payments, owners also settle results.
+ */
+export type AdminRole = 'viewer' | 'verifier' | 'owner';
+
+export type AdminUser = {
+    username: string;
+    passwordHash: string; // scrypt, see `@/lib/auth`
+    role: AdminRole;
+    createdAt: string; // ISO string
+    passwordChangedAt: string; // ISO string; sessions issued before this are rejected
+};
+
+export type WaitlistStatus = 'waiting' | 'invited' | 'registered' | 'expired';
+
+/**
+ * A team waiting for a slot in a full week. Teams join without paying; when a
+ * slot frees up the first team in line is invited to pay within a time limit.
+ */
+export type WaitlistEntry = {
+    id: string;
+    registrationWeekStart: string;
+    status: WaitlistStatus;
+    teamName: string;
+    players: Player[];
+    contactEmail: string;
+    contactPhone: string;
+    notificationChannels?: NotificationChannel[]; // Absent on older records, which get email only
+    joinedAt: string; // ISO string; sets the order
+    invite?: {
+        tokenHash: string; // sha256 of the link token, which is only ever emailed
+        invitedAt: string; // ISO string
+        expiresAt: string; // ISO string; the slot goes to the next team after this
+    };
+};
+
+/**
+ * One registration a player was part of.
+ */
+export type PlayerAppearance = {
+    tournamentId: string;
+    registrationWeekStart: string;
+    teamId: string;
+    teamName: string;
+    registeredAt: string; // ISO string
+};
+
+/**
+ * Everything known about a player across tournaments and weeks, keyed by their
+ * in-game ID (trimmed and lower-cased).
+ */
+export type PlayerRecord = {
+    id: string;
+    displayId: string; // As last entered
+    lastLevel: number;
+    firstSeen: string | null; // ISO string; null for a player banned before ever registering
+    lastSeen: string | null; // ISO string
+    appearances: PlayerAppearance[]; // Oldest first
+    ban?: {
+        reason: string;
+        by: string; // Admin username
+        at: string; // ISO string
+    };
+};
+
+export type MatchPlacement = {
+    teamId: string;
+    placement: number; // 1 is the last team standing
+    kills: number;
+};
+
+/**
+ * One match of a week, as entered by an admin.
+ */
+export type MatchResult = {
+    registrationWeekStart: string;
+    stageId: string;
+    lobby: number; // 1-based within the stage
+    matchNumber: number; // 1-based within the lobby
+    placements: MatchPlacement[];
+    enteredBy: string; // Admin username
+    enteredAt: string; // ISO string
+};
+
+/**
+ * A team's line in the week's leaderboard.
+ */
+export type Standing = {
+    rank: number;
+    teamId: string;
+    teamName: string;
+    matchesPlayed: number;
+    wins: number;
+    kills: number;
+    placementPoints: number;
+    killPoints: number;
+    totalPoints: number;
+};
+
+/**
+ * The teams an admin put in one lobby of a stage for a week.
+ */
+export type LobbyAssignment = {
+    registrationWeekStart: string;
+    stageId: string;
+    lobby: number; // 1-based within the stage
+    teamIds: string[]; // In seed order
+    startsAt?: string; // ISO string; overrides the stage's schedule
+    assignedBy: string; // Admin username
+    assignedAt: string; // ISO string
+};
+
+/**
+ * A lobby as it stands: its teams, when it plays and its standings so far.
+ */
+export type LobbyState = {
+    stageId: string;
+    lobby: number;
+    startsAt: string; // ISO string
+    teamIds: string[];
+    results: MatchResult[];
+    standings: Standing[];
+};
+
+/**
+ * A stage of a week: the teams eligible for it, its lobbies, the combined standings
+ * and the teams that have qualified for the next stage so far.
+ */
+export type StageState = {
+    stage: StageDefinition;
+    eligibleTeamIds: string[]; // In seed order
+    lobbies: LobbyState[];
+    standings: Standing[];
+    qualifiedTeamIds: string[]; // In seed order for the next stage
+};
+
+/**
+ * A lobby in the public schedule.
+ */
+export type ScheduledLobby = {
+    stageName: string;
+    lobby: number;
+    startsAt: string; // ISO string
+    teams: string[]; // Team names
+};
+
+export type RoomDeliveryChannel = NotificationChannel | 'team_page';
+
+/**
+ * Room details reaching one team. Messages are recorded as they are sent; the team
+ * page is recorded the first time the team opens it after release.
+ */
+export type RoomDelivery = {
+    teamId: string;
+    channel: RoomDeliveryChannel;
+    at: string; // ISO string
+    error?: string; // Set if the message could not be sent
+};
+
+/**
+ * The custom room for one lobby of a week, released to its teams at `releaseAt`.
+ */
+export type RoomDetails = {
+    registrationWeekStart: string;
+    stageId: string;
+    lobby: number;
+    roomId: string;
+    password: string;
+    releaseAt: string; // ISO string
+    setBy: string; // Admin username
+    setAt: string; // ISO string
+    deliveries: RoomDelivery[];
+};
+
+/**
+ * A lobby a team plays in, as shown on its team page. The room is only filled
+ * in once it has been released.
+ */
+export type TeamRoom = {
+    stageId: string;
+    stageName: string;
+    lobby: number;
+    startsAt: string; // ISO string
+    releaseAt: string | null; // Null until an admin sets up the room
+    room?: Pick<RoomDetails, 'roomId' | 'password'>;
+};
+
+export type PayoutKind = 'prize' | 'refund';
+
+/**
+ * Money paid out to a team over UPI: a prize, or a refunded entry fee.
+ */
+export type Payout = {
+    id: string;
+    registrationWeekStart: string;
+    kind: PayoutKind;
+    teamId: string;
+    teamName: string;
+    rank?: number; // Prizes only
+    amount: number; // INR
+    upiReference: string;
+    paidAt: string; // ISO string
+    recordedBy: string; // Admin username
+    recordedAt: string; // ISO string
+};
+
+/**
+ * A settled prize on the admin payout list: what is owed, where the winner asked
+ * for it to be sent, and the payment once it is made.
+ */
+export type PrizePayoutItem = {
+    weekId: string; // Monday of the registration week, YYYY-MM-DD
+    registrationWeekStart: string;
+    rank: number;
+    teamId?: string;
+    teamName: string;
+    prize: number; // INR owed
+    claimStatus: PrizeClaimStatus;
+    upiId?: string;
+    accountHolder?: string;
+    claimedAt?: string;
+    payout?: Payout; // Absent until the prize is paid
+};
+
+export type LedgerEntryType = 'entry_fee' | 'prize_owed' | 'prize_paid' | 'refund';
+
+/**
+ * One line of a week's ledger. Amounts are positive; the type says which way the money goes.
+ */
+export type LedgerEntry = {
+    type: LedgerEntryType;
+    at: string; // ISO string
+    teamId?: string;
+    teamName: string;
+    amount: number; // INR
+    reference?: string; // UPI reference for payments, rank for prizes owed
+};
+
+/**
+ * A week's money: entry fees in, prizes and refunds out, and what the organiser keeps.
+ */
+export type WeeklyLedger = {
+    weekId: string;
+    registrationWeekStart: string;
+    teamsPaid: number;
+    feesCollected: number;
+    prizesOwed: number;
+    prizesPaid: number;
+    prizesOutstanding: number;
+    refunds: number;
+    net: number; // Fees collected less prizes owed and refunds
+    entries: LedgerEntry[]; // Oldest first
+};
+
+export type EmailTemplateName =
+    | 'new_registration'
+    | 'registration_confirmed'
+    | 'payment_rejected'
+    | 'status_changed'
+    | 'waitlist_invite'
+    | 'winner'
+    | 'room_details'
+    | 'verification_code';
+
+export type OutboxStatus =
+    | 'pending' // Waiting for its first or next attempt
+    | 'sent'
+    | 'dead'; // Gave up after too many attempts or a permanent error
+
+/**
+ * An email in the outbox. The message is stored as rendered, so a retry or a
+ * resend sends exactly what was queued.
+ */
+export type OutboxMessage = {
+    id: string;
+    template: EmailTemplateName;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    status: OutboxStatus;
+    attempts: number;
+    createdAt: string; // ISO string
+    nextAttemptAt: string; // ISO string; while an attempt is in flight, when it may be taken over
+    lastError?: string;
+    sentAt?: string; // ISO string
+    transport?: string; // The transport that delivered it
+    providerMessageId?: string;
+    resendOf?: string; // The message this one resends
+    queuedBy?: string; // The admin who resent it; absent for messages the system queued
+};
+
+export type NotificationChannel = 'email' | 'whatsapp' | 'sms';
+
+export type PhoneChannel = Exclude<NotificationChannel, 'email'>;
+
+/**
+ * The notifications a team gets on every channel it chose, not just by email.
+ */
+export type NotificationEvent = Extract<EmailTemplateName, 'registration_confirmed' | 'room_details' | 'waitlist_invite' | 'winner'>;
+
+export type PhoneMessageEvent = NotificationEvent | 'verification_code';
+
+/**
+ * A WhatsApp or SMS message, queued and retried like an email in the outbox.
+ */
+export type PhoneMessage = {
+    id: string;
+    channel: PhoneChannel;
+    event: PhoneMessageEvent;
+    to: string; // E.164, e.g. +919876543210
+    body: string;
+    status: OutboxStatus;
+    attempts: number;
+    createdAt: string; // ISO string
+    nextAttemptAt: string; // ISO string; while an attempt is in flight, when it may be taken over
+    lastError?: string;
+    sentAt?: string; // ISO string
+    adapter?: string; // The adapter that delivered it
+    providerMessageId?: string;
+};
+
+export type ContactKind = 'email' | 'phone';
+
+/**
+ * The one-time code last sent to an email address or phone number, and the proof
+ * of ownership handed back once it was entered. One record per contact.
+ */
+export type ContactCode = {
+    kind: ContactKind;
+    contact: string; // Lower-case email, or the 10-digit phone number
+    codeHash: string; // sha256 of the salt and the code; the code itself is only ever sent
+    salt: string;
+    expiresAt: string; // ISO string
+    attempts: number; // Wrong codes entered since it was sent
+    sentAt: string[]; // ISO strings of the codes sent in the last hour, oldest first
+    verifiedAt?: string; // ISO string
+    proofHash?: string; // sha256 of the proof handed back on verification
+};
+
+/**
+ * Recent hits on one rate limit key, e.g. registrations from one IP address.
+ */
+export type RateLimitBucket = {
+    key: string;
+    hits: string[]; // ISO strings, oldest first; hits older than the longest window are dropped
+    expiresAt: string; // ISO string; when the last hit leaves the window, after which the bucket is deleted
+};
+
+export type RejectedAttemptReason =
+    | 'rate_limited'
+    | 'verification_cap' // Too many failed payment verifications this week
+    | 'challenge_failed'; // Captcha or proof of work missing or wrong
+
+/**
+ * A request turned away by the abuse protection, kept for admins.
+ */
+export type RejectedAttempt = {
+    id: string;
+    at: string; // ISO string
+    action: string; // The server action, e.g. registerTeam
+    reason: RejectedAttemptReason;
+    detail: string;
+    ip: string | null; // Null if the request carried none
+    contactEmail?: string;
+    contactPhone?: string;
+};
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import { notify } from '@/lib/notifications';
+import { normalisePlayerId } from '@/lib/players';
+import { claimsDetails, holdsSlot } from '@/lib/registrations';
+import type { TournamentScope } from '@/lib/repository';
+import { listActiveReservations } from '@/lib/reservations';
+import { isRegistrationWindowOpen } from '@/lib/time';
+import type { TeamRegistrationData, Tournament, WaitlistEntry } from '@/lib/types';
+
+// --- Waitlist ---
+
+/**
+ * How long a promoted team has to complete payment before the slot passes to the next team.
+ */
+export const WAITLIST_INVITE_TTL_MS = 2 * 60 * 60 * 1000;
+
+type WaitlistTeam = Pick<TeamRegistrationData, 'teamName' | 'players' | 'contactEmail' | 'contactPhone' | 'notificationChannels'>;
+
+export function hashInviteToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function isActiveInvite(entry: WaitlistEntry, now: Date): boolean {
+    return entry.status === 'invited' && !!entry.invite && new Date(entry.invite.expiresAt) > now;
+}
+
+/**
+ * Slots held for invited teams that have not paid yet. `exceptEntryId` leaves out
+ * the invitation being redeemed, so that team can take the slot held for it.
+ */
+export async function countSlotsHeldForWaitlist(
+    scope: TournamentScope,
+    registrationWeekStart: string,
+    now: Date,
+    exceptEntryId?: string
+): Promise<number> {
+    const entries = await scope.waitlist.listByWeek(registrationWeekStart);
+    return entries.filter(e => e.id !== exceptEntryId && isActiveInvite(e, now)).length;
+}
+
+/**
+ * 1-based place in line among teams still waiting, or null if the team is not waiting.
+ */
+export function waitlistPosition(entries: WaitlistEntry[], entryId: string): number | null {
+    const index = entries.filter(e => e.status === 'waiting').findIndex(e => e.id === entryId);
+    return index === -1 ? null : index + 1;
+}
+
+/**
+ * Adds a team to the end of the week's waitlist. Must be called inside a transaction.
+ */
+export async function addToWaitlist(
+    scope: TournamentScope,
+    params: { registrationWeekStart: string; team: WaitlistTeam; now: Date }
+): Promise<{ entry: WaitlistEntry; position: number; error?: undefined } | { error: string }> {
+    const { registrationWeekStart, team, now } = params;
+    const normalise = (value: string) => value.trim().toLowerCase();
+
+    const entries = await scope.waitlist.listByWeek(registrationWeekStart);
+    const queued = entries.filter(e => e.status === 'waiting' || e.status === 'invited');
+    const registered = (await scope.teams.listByWeek(registrationWeekStart)).filter(claimsDetails);
+    const others = [...queued, ...registered];
+
+    if (others.some(other => normalise(other.contactEmail) === normalise(team.contactEmail))) {
+        return { error: 'This email is already registered or on the waitlist this week.' };
+    }
+    if (others.some(other => other.contactPhone.trim() === team.contactPhone.trim())) {
+        return { error: 'This phone number is already registered or on the waitlist this week.' };
+    }
+    const taken = new Set(others.flatMap(other => other.players.map(p => normalisePlayerId(p.id))));
+    const clash = team.players.find(p => taken.has(normalisePlayerId(p.id)));
+    if (clash) {
+        return { error: `Player ${clash.id} is already registered or on the waitlist with another team this week.` };
+    }
+
+    const entry: WaitlistEntry = {
+        id: crypto.randomUUID(),
+        registrationWeekStart,
+        status: 'waiting',
+        ...team,
+        joinedAt: now.toISOString(),
+    };
+    await scope.waitlist.add(entry);
+    return { entry, position: waitlistPosition([...entries, entry], entry.id)! };
+}
+
+/**
+ * Finds a team's entry by the email and phone number they joined with.
+ */
+export async function findWaitlistEntry(
+    scope: TournamentScope,
+    registrationWeekStart: string,
+    contactEmail: string,
+    contactPhone: string
+): Promise<{ entry: WaitlistEntry; position: number | null } | null> {
+    const entries = await scope.waitlist.listByWeek(registrationWeekStart);
+    const entry = entries.find(e =>
+        e.contactEmail.trim().toLowerCase() === contactEmail.trim().toLowerCase()
+        && e.contactPhone.trim() === contactPhone.trim()
+    );
+    return entry ? { entry, position: waitlistPosition(entries, entry.id) } : null;
+}
+
+/**
+ * Looks up the invitation behind a payment link. Must be called inside a transaction.
+ */
+export async function findInvite(
+    scope: TournamentScope,
+    params: { registrationWeekStart: string; token: string; now: Date }
+): Promise<{ entry: WaitlistEntry; error?: undefined } | { error: string }> {
+    const { registrationWeekStart, token, now } = params;
+    const tokenHash = hashInviteToken(token);
+    const entries = await scope.waitlist.listByWeek(registrationWeekStart);
+    const entry = entries.find(e => e.invite?.tokenHash === tokenHash);
+
+    if (!entry) {
+        return { error: 'This waitlist link is not valid for the current week.' };
+    }
+    if (entry.status === 'registered') {
+        return { error: 'This waitlist link has already been used.' };
+    }
+    if (!isActiveInvite(entry, now)) {
+        return { error: 'This waitlist link has expired and the slot has passed to the next team.' };
+    }
+    return { entry };
+}
+
+/**
+ * Expires lapsed invitations and invites waiting teams, first come first served,
+ * into any slots that are free. Returns the new invitations with their link tokens
+ * so the caller can email them once the transaction has committed.
+ * Must be called inside a transaction.
+ */
+export async function promoteFromWaitlist(
+    scope: TournamentScope,
+    params: { registrationWeekStart: string; totalSlots: number; now: Date }
+): Promise<{ entry: WaitlistEntry; token: string }[]> {
+    const { registrationWeekStart, totalSlots, now } = params;
+    const entries = await scope.waitlist.listByWeek(registrationWeekStart);
+    if (entries.length === 0) return [];
+
+    for (const entry of entries.filter(e => e.status === 'invited' && !isActiveInvite(e, now))) {
+        await scope.waitlist.update({ ...entry, status: 'expired' });
+        console.log(`Waitlist invitation for ${entry.teamName} expired.`);
+    }
+
+    const registered = (await scope.teams.listByWeek(registrationWeekStart)).filter(holdsSlot).length;
+    const reserved = (await listActiveReservations(scope, registrationWeekStart, now)).length;
+    const invited = entries.filter(e => isActiveInvite(e, now)).length;
+    const freeSlots = totalSlots - registered - reserved - invited;
+    if (freeSlots <= 0) return [];
+
+    const promoted: { entry: WaitlistEntry; token: string }[] = [];
+    for (const entry of entries.filter(e => e.status === 'waiting').slice(0, freeSlots)) {
+        const token = crypto.randomBytes(24).toString('base64url');
+        const invitedEntry: WaitlistEntry = {
+            ...entry,
+            status: 'invited',
+            invite: {
+                tokenHash: hashInviteToken(token),
+                invitedAt: now.toISOString(),
+                expiresAt: new Date(now.getTime() + WAITLIST_INVITE_TTL_MS).toISOString(),
+            },
+        };
+        await scope.waitlist.update(invitedEntry);
+        promoted.push({ entry: invitedEntry, token });
+    }
+    return promoted;
+}
+
+/**
+ * `promoteFromWaitlist`, but only while the tournament is taking registrations, so
+ * no slot is offered after the window has closed. Must be called inside a transaction.
+ */
+export async function offerFreeSlots(
+    scope: TournamentScope,
+    tournament: Tournament,
+    registrationWeekStart: string,
+    now: Date
+): Promise<{ entry: WaitlistEntry; token: string }[]> {
+    if (!tournament.active || !isRegistrationWindowOpen(now, tournament.registrationWindow, tournament.timezone)) return [];
+    return promoteFromWaitlist(scope, { registrationWeekStart, totalSlots: tournament.totalSlots, now });
+}
+
+/**
+ * Sends a waitlisted team the link to pay for the slot that has opened up, on
+ * every channel it chose.
+ */
+export async function sendWaitlistInvite(entry: WaitlistEntry, token: string, tournament: Tournament) {
+    const { SITE_URL } = process.env;
+    if (!SITE_URL) {
+        console.warn("SITE_URL not configured. Skipping waitlist invitation.");
+        return;
+    }
+    const link = `${SITE_URL.replace(/\/$/, '')}/?tournament=${encodeURIComponent(tournament.id)}&invite=${encodeURIComponent(token)}`;
+    await notify('waitlist_invite', entry, { entry, link, tournament });
+}
@@ -0,0 +1,48 @@
+import type { TournamentScope } from '@/lib/repository';
+import { getWeekId } from '@/lib/time';
+import type { TeamRegistrationData, Tournament, WeeklyData } from '@/lib/types';
+
+/**
+ * Looks up a week by its id (its Monday, `YYYY-MM-DD`), whether it is the open
+ * week or an archived one. Must be called inside a transaction.
+ */
+export async function findWeekById(scope: TournamentScope, tournament: Tournament, weekId: string): Promise<WeeklyData | null> {
+    const current = await scope.weeks.getCurrent();
+    if (current && getWeekId(current.registrationWeekStart, tournament.timezone) === weekId) {
+        return {
+            registrationWeekStart: current.registrationWeekStart,
+            teams: await scope.teams.listByWeek(current.registrationWeekStart),
+        };
+    }
+    const archives = await scope.archives.list();
+    return archives.find(week => getWeekId(week.registrationWeekStart, tournament.timezone) === weekId) ?? null;
+}
+
+/**
+ * Every week still on record, the open one first, then archives from most recent.
+ * Must be called inside a transaction.
+ */
+export async function listAllWeeks(scope: TournamentScope): Promise<WeeklyData[]> {
+    const current = await scope.weeks.getCurrent();
+    const archives = await scope.archives.list();
+    if (!current) return archives;
+    const open: WeeklyData = {
+        registrationWeekStart: current.registrationWeekStart,
+        teams: await scope.teams.listByWeek(current.registrationWeekStart),
+    };
+    return [open, ...archives.filter(week => week.registrationWeekStart !== open.registrationWeekStart)];
+}
+
+/**
+ * Finds a registration by its id in any week. Must be called inside a transaction.
+ */
+export async function findRegistration(
+    scope: TournamentScope,
+    teamId: string
+): Promise<{ registrationWeekStart: string; team: TeamRegistrationData } | null> {
+    for (const week of await listAllWeeks(scope)) {
+        const team = week.teams.find(t => t.id === teamId);
+        if (team) return { registrationWeekStart: week.registrationWeekStart, team };
+    }
+    return null;
+}
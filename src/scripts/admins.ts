@@ -0,0 +1,79 @@
+/**
+ * Manages admin accounts in the configured data store. Passwords are read from
+ * `ADMIN_PASSWORD` if set, otherwise prompted for on the terminal.
+ *
+ * Usage:
+ *   npm run admins -- list
+ *   npm run admins -- add <username> <viewer|verifier|owner>
+ *   npm run admins -- set-role <username> <viewer|verifier|owner>
+ *   npm run admins -- set-password <username>
+ *   npm run admins -- remove <username>
+ */
+import readline from 'readline/promises';
+import { checkPasswordStrength, hashPassword, isAdminRole, normaliseUsername } from '@/lib/auth';
+import { getDataStore } from '@/lib/repository';
+import type { AdminUser } from '@/lib/types';
+
+const USAGE = 'Usage: admins list | add <username> <role> | set-role <username> <role> | set-password <username> | remove <username>';
+
+async function readPassword(): Promise<string> {
+    let password = process.env.ADMIN_PASSWORD;
+    if (!password) {
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        password = await rl.question('Password: ');
+        rl.close();
+    }
+    const weakness = checkPasswordStrength(password);
+    if (weakness) throw new Error(weakness);
+    return password;
+}
+
+async function main() {
+    const [command, rawUsername, role] = process.argv.slice(2);
+    const username = rawUsername && normaliseUsername(rawUsername);
+    const store = getDataStore();
+
+    if (command === 'list') {
+        const admins = await store.transaction(repo => repo.admins.list());
+        admins.forEach(a => console.log(`${a.username}\t${a.role}\tsince ${a.createdAt}`));
+    } else if (command === 'add' && username && role) {
+        if (!isAdminRole(role)) throw new Error(`Unknown role "${role}".`);
+        const passwordHash = await hashPassword(await readPassword());
+        await store.transaction(async repo => {
+            if (await repo.admins.get(username)) throw new Error(`Admin ${username} already exists.`);
+            const now = new Date().toISOString();
+            await repo.admins.save({ username, passwordHash, role, createdAt: now, passwordChangedAt: now });
+        });
+        console.log(`Added ${role} ${username}.`);
+    } else if (command === 'set-role' && username && role) {
+        if (!isAdminRole(role)) throw new Error(`Unknown role "${role}".`);
+        await updateAdmin(username, admin => ({ ...admin, role }));
+        console.log(`${username} is now a ${role}.`);
+    } else if (command === 'set-password' && username) {
+        const passwordHash = await hashPassword(await readPassword());
+        // Changing the password also signs the admin out everywhere.
+        await updateAdmin(username, admin => ({ ...admin, passwordHash, passwordChangedAt: new Date().toISOString() }));
+        console.log(`Password changed for ${username}.`);
+    } else if (command === 'remove' && username) {
+        await store.transaction(repo => repo.admins.remove(username));
+        console.log(`Removed ${username}.`);
+    } else {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    await store.close();
+}
+
+function updateAdmin(username: string, change: (admin: AdminUser) => AdminUser) {
+    return getDataStore().transaction(async repo => {
+        const admin = await repo.admins.get(username);
+        if (!admin) throw new Error(`No admin named ${username}.`);
+        await repo.admins.save(change(admin));
+    });
+}
+
+main().catch(error => {
+    console.error('Admin command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,181 @@
+/**
+ * Imports the JSON files in src/data (including src/data/archive) into the SQLite store.
+ * Safe to run more than once: weeks, winners, payouts, payment intents, waitlist entries, slot reservations, match
+ * results, lobbies, rooms, contact codes and rate limits are replaced or skipped, not duplicated. It can run mid-week:
+ * the waitlist with its pending invitations, held slots, contact proofs and rate limits come across too.
+ *
+ * Usage: npm run db:migrate [-- <data dir> <sqlite path>]
+ */
+import {
+    DEFAULT_DATA_DIR,
+    DEFAULT_SQLITE_PATH,
+    createJsonDataStore,
+    createSqliteDataStore,
+} from '@/lib/repository';
+import { DEFAULT_TOURNAMENT_ID } from '@/lib/tournaments';
+
+async function main() {
+    const [dataDir = DEFAULT_DATA_DIR, dbPath = process.env.SQLITE_DB_PATH ?? DEFAULT_SQLITE_PATH] = process.argv.slice(2);
+    const source = createJsonDataStore(dataDir);
+    const target = createSqliteDataStore(dbPath);
+
+    const snapshots = await source.transaction(async repo => {
+        const storedTournaments = await repo.tournaments.list();
+        const admins = await repo.admins.list();
+        const players = await repo.players.list();
+        const outbox = await repo.outbox.list();
+        const phoneMessages = await repo.phoneMessages.list();
+        const rejectedAttempts = await repo.rejectedAttempts.list();
+        const contactCodes = await repo.contactCodes.list();
+        const rateLimits = await repo.rateLimits.list();
+        const tournamentIds = [...new Set([DEFAULT_TOURNAMENT_ID, ...storedTournaments.map(t => t.id)])];
+        const tournaments = [];
+        for (const tournamentId of tournamentIds) {
+            const scope = repo.forTournament(tournamentId);
+            const current = await scope.weeks.getCurrent();
+            const archives = await scope.archives.list();
+            const weekStarts = [...(current ? [current.registrationWeekStart] : []), ...archives.map(w => w.registrationWeekStart)];
+            const results = [];
+            const lobbies = [];
+            const rooms = [];
+            const paymentIntents = [];
+            const waitlist = [];
+            const reservations = [];
+            for (const weekStart of weekStarts) {
+                waitlist.push(...await scope.waitlist.listByWeek(weekStart));
+                reservations.push(...await scope.reservations.listByWeek(weekStart));
+                results.push(...await scope.results.listByWeek(weekStart));
+                lobbies.push(...await scope.lobbies.listByWeek(weekStart));
+                rooms.push(...await scope.rooms.listByWeek(weekStart));
+                paymentIntents.push(...await scope.paymentIntents.listByWeek(weekStart));
+            }
+            tournaments.push({
+                tournamentId,
+                current: current && {
+                    registrationWeekStart: current.registrationWeekStart,
+                    teams: await scope.teams.listByWeek(current.registrationWeekStart),
+                },
+                archives,
+                winners: await scope.winners.list(),
+                payouts: await scope.payouts.list(),
+                results,
+                lobbies,
+                rooms,
+                paymentIntents,
+                waitlist,
+                reservations,
+            });
+        }
+        return { storedTournaments, admins, players, outbox, phoneMessages, rejectedAttempts, contactCodes, rateLimits, tournaments };
+    });
+
+    await target.transaction(async repo => {
+        for (const tournament of snapshots.storedTournaments) {
+            await repo.tournaments.save(tournament);
+        }
+        console.log(`Imported ${snapshots.storedTournaments.length} tournament definitions`);
+        for (const admin of snapshots.admins) {
+            await repo.admins.save(admin);
+        }
+        console.log(`Imported ${snapshots.admins.length} admin accounts`);
+        for (const player of snapshots.players) {
+            await repo.players.save(player);
+        }
+        console.log(`Imported ${snapshots.players.length} player records`);
+        for (const message of snapshots.outbox) {
+            if (await repo.outbox.get(message.id)) continue;
+            await repo.outbox.add(message);
+        }
+        console.log(`Imported ${snapshots.outbox.length} outbox emails`);
+        for (const message of snapshots.phoneMessages) {
+            if (await repo.phoneMessages.get(message.id)) continue;
+            await repo.phoneMessages.add(message);
+        }
+        console.log(`Imported ${snapshots.phoneMessages.length} WhatsApp and SMS messages`);
+        const rejectedIds = new Set((await repo.rejectedAttempts.list()).map(a => a.id));
+        for (const attempt of snapshots.rejectedAttempts) {
+            if (!rejectedIds.has(attempt.id)) await repo.rejectedAttempts.add(attempt);
+        }
+        console.log(`Imported ${snapshots.rejectedAttempts.length} rejected attempts`);
+        for (const record of snapshots.contactCodes) {
+            await repo.contactCodes.save(record);
+        }
+        console.log(`Imported ${snapshots.contactCodes.length} contact codes`);
+        for (const bucket of snapshots.rateLimits) {
+            await repo.rateLimits.save(bucket);
+        }
+        console.log(`Imported ${snapshots.rateLimits.length} rate limit buckets`);
+
+        for (const snapshot of snapshots.tournaments) {
+            const scope = repo.forTournament(snapshot.tournamentId);
+            for (const week of snapshot.archives) {
+                await scope.archives.save(week);
+                console.log(`[${snapshot.tournamentId}] Imported archived week ${week.registrationWeekStart} (${week.teams.length} teams)`);
+            }
+            if (snapshot.current) {
+                const { registrationWeekStart, teams } = snapshot.current;
+                const existing = await scope.teams.listByWeek(registrationWeekStart);
+                const known = new Set(existing.map(team => team.utrNumber));
+                await scope.weeks.startWeek(registrationWeekStart);
+                for (const team of teams.filter(team => !known.has(team.utrNumber))) {
+                    await scope.teams.add(registrationWeekStart, team);
+                }
+                console.log(`[${snapshot.tournamentId}] Imported current week ${registrationWeekStart} (${teams.length} teams)`);
+            }
+            for (const record of snapshot.winners) {
+                await scope.winners.save(record);
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${snapshot.winners.length} winner records`);
+            const knownPayouts = new Set((await scope.payouts.list()).map(p => p.id));
+            const newPayouts = snapshot.payouts.filter(p => !knownPayouts.has(p.id));
+            for (const payout of newPayouts) {
+                await scope.payouts.add(payout);
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${newPayouts.length} payouts`);
+            for (const result of snapshot.results) {
+                await scope.results.save(result);
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${snapshot.results.length} match results`);
+            for (const assignment of snapshot.lobbies) {
+                await scope.lobbies.save(assignment);
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${snapshot.lobbies.length} lobby assignments`);
+            for (const room of snapshot.rooms) {
+                await scope.rooms.save(room);
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${snapshot.rooms.length} rooms`);
+            let importedIntents = 0;
+            for (const intent of snapshot.paymentIntents) {
+                if (await scope.paymentIntents.get(intent.reference)) continue;
+                await scope.paymentIntents.add(intent);
+                importedIntents++;
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${importedIntents} payment intents`);
+            let importedEntries = 0;
+            for (const entry of snapshot.waitlist) {
+                if (await scope.waitlist.get(entry.id)) {
+                    await scope.waitlist.update(entry);
+                } else {
+                    await scope.waitlist.add(entry);
+                    importedEntries++;
+                }
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${importedEntries} waitlist entries`);
+            let importedReservations = 0;
+            for (const reservation of snapshot.reservations) {
+                if (await scope.reservations.get(reservation.id)) continue;
+                await scope.reservations.add(reservation);
+                importedReservations++;
+            }
+            console.log(`[${snapshot.tournamentId}] Imported ${importedReservations} slot reservations`);
+        }
+    });
+
+    await target.close();
+    console.log(`Migration to ${dbPath} complete.`);
+}
+
+main().catch(error => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,41 @@
+/**
+ * Works the email outbox and the WhatsApp/SMS queue in the configured data store.
+ *
+ * Usage:
+ *   npm run outbox                   Sends every email and message that is due (meant for cron, every minute)
+ *   npm run outbox -- dead           Lists emails and messages that were given up on
+ *   npm run outbox -- resend <id>    Queues a copy of an email and sends it
+ */
+import { deliverDueEmails, resendEmail } from '@/lib/email';
+import { deliverDuePhoneMessages } from '@/lib/notifications';
+import { getDataStore } from '@/lib/repository';
+
+async function main() {
+    const [command = 'deliver', id] = process.argv.slice(2);
+    const store = getDataStore();
+
+    if (command === 'deliver') {
+        const emails = await deliverDueEmails();
+        console.log(`Emails: sent ${emails.sent}, will retry ${emails.retrying}, gave up on ${emails.dead}.`);
+        const messages = await deliverDuePhoneMessages();
+        console.log(`WhatsApp/SMS: sent ${messages.sent}, will retry ${messages.retrying}, gave up on ${messages.dead}.`);
+    } else if (command === 'dead') {
+        const messages = await store.transaction(repo => repo.outbox.list('dead'));
+        messages.forEach(m => console.log(`${m.id}\t${m.createdAt}\t${m.template}\t${m.to}\t${m.lastError ?? ''}`));
+        const phoneMessages = await store.transaction(repo => repo.phoneMessages.list('dead'));
+        phoneMessages.forEach(m => console.log(`${m.id}\t${m.createdAt}\t${m.event} (${m.channel})\t${m.to}\t${m.lastError ?? ''}`));
+    } else if (command === 'resend' && id) {
+        const message = await resendEmail(id, 'cli');
+        console.log(message ? `Queued ${message.id}: ${message.status}.` : `No email ${id}.`);
+    } else {
+        console.error('Usage: outbox [deliver] | outbox dead | outbox resend <id>');
+        process.exit(1);
+    }
+
+    await store.close();
+}
+
+main().catch(error => {
+    console.error('Outbox command failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,36 @@
+/**
+ * Maintains the player registry in the configured data store.
+ *
+ * Usage:
+ *   npm run players -- rebuild      Records every stored registration in the registry
+ *   npm run players -- show <id>    Prints a player's record
+ *   npm run players -- banned       Lists banned players
+ */
+import { normalisePlayerId, rebuildPlayerRegistry } from '@/lib/players';
+import { getDataStore } from '@/lib/repository';
+
+async function main() {
+    const [command, playerId] = process.argv.slice(2);
+    const store = getDataStore();
+
+    if (command === 'rebuild') {
+        const registrations = await store.transaction(repo => rebuildPlayerRegistry(repo));
+        console.log(`Recorded players from ${registrations} registrations.`);
+    } else if (command === 'show' && playerId) {
+        const player = await store.transaction(repo => repo.players.get(normalisePlayerId(playerId)));
+        console.log(player ? JSON.stringify(player, null, 2) : `No player ${playerId}.`);
+    } else if (command === 'banned') {
+        const players = await store.transaction(repo => repo.players.listBanned());
+        players.forEach(p => console.log(`${p.displayId}\t${p.ban?.at}\t${p.ban?.by}\t${p.ban?.reason}`));
+    } else {
+        console.error('Usage: players rebuild | players show <id> | players banned');
+        process.exit(1);
+    }
+
+    await store.close();
+}
+
+main().catch(error => {
+    console.error('Player command failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,22 @@
+/**
+ * Emails room IDs and passwords whose release time has passed to the teams in
+ * each lobby. Meant to run from cron every minute; each team is emailed once.
+ *
+ * Usage: npm run rooms
+ */
+import { getDataStore } from '@/lib/repository';
+import { releaseDueRooms } from '@/lib/rooms';
+
+async function main() {
+    const { failures } = await releaseDueRooms();
+    await getDataStore().close();
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`${f.tournamentId}: ${f.error}`));
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('Releasing room details failed:', error);
+    process.exit(1);
+});
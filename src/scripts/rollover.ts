@@ -0,0 +1,24 @@
+/**
+ * Closes finished weeks and opens the current one for every active tournament,
+ * and passes slots freed by lapsed waitlist invitations on to the next team.
+ * Meant to run from cron every few minutes, so it runs shortly after midnight on
+ * Monday in each tournament's time zone; running it at any other time is harmless.
+ *
+ * Usage: npm run rollover
+ */
+import { getDataStore } from '@/lib/repository';
+import { rolloverAllTournaments } from '@/lib/rollover';
+
+async function main() {
+    const { failures } = await rolloverAllTournaments();
+    await getDataStore().close();
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`${f.tournamentId}: ${f.error}`));
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('Rollover failed:', error);
+    process.exit(1);
+});
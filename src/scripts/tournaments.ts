@@ -0,0 +1,40 @@
+/**
+ * Lists or saves tournament definitions in the configured data store.
+ *
+ * Usage:
+ *   npm run tournaments -- list
+ *   npm run tournaments -- save <definition.json>
+ */
+import { promises as fs } from 'fs';
+import { getDataStore } from '@/lib/repository';
+import { listTournaments, tournamentSchema } from '@/lib/tournaments';
+
+async function main() {
+    const [command, file] = process.argv.slice(2);
+    const store = getDataStore();
+
+    if (command === 'list') {
+        const tournaments = await store.transaction(repo => listTournaments(repo));
+        tournaments.forEach(t => {
+            console.log(`${t.id}\t${t.active ? 'active' : 'inactive'}\t${t.totalSlots} slots\t₹${t.entryFee}\t${t.name}`);
+        });
+    } else if (command === 'save' && file) {
+        const parsed = tournamentSchema.safeParse(JSON.parse(await fs.readFile(file, 'utf-8')));
+        if (!parsed.success) {
+            parsed.error.errors.forEach(e => console.error(`${e.path.join('.') || '(root)'}: ${e.message}`));
+            process.exit(1);
+        }
+        await store.transaction(repo => repo.tournaments.save(parsed.data));
+        console.log(`Saved tournament ${parsed.data.id}.`);
+    } else {
+        console.error('Usage: tournaments list | tournaments save <definition.json>');
+        process.exit(1);
+    }
+
+    await store.close();
+}
+
+main().catch(error => {
+    console.error('Tournament command failed:', error);
+    process.exit(1);
+});